@@ -60,6 +60,46 @@ export interface QuestionItem {
   learningPath: 'beginner' | 'intermediate' | 'advanced' | 'expert';
 }
 
+export type TestComparator = 'deep-equal' | 'strict-equal' | 'approx' | 'throws' | 'dom-snapshot';
+
+export interface StructuredTestCase {
+  description: string;
+  input: string; // JavaScript expression evaluated against the submission
+  expected?: string; // JavaScript expression for the expected value (error message for 'throws')
+  comparator: TestComparator;
+  tolerance?: number; // Allowed absolute difference for 'approx'
+}
+
+// Legacy prose test cases are kept as plain strings when they can't be converted
+export type TestCase = StructuredTestCase | string;
+
+// Testing Library style element lookup used by component tasks
+export interface ElementQuery {
+  by: 'text' | 'role' | 'label' | 'placeholder' | 'testId' | 'selector';
+  value: string;
+  name?: string; // Accessible name filter for 'role' queries
+}
+
+export type ComponentTestStep =
+  | { action: 'render'; props?: Record<string, unknown>; description?: string }
+  | { action: 'click'; target: ElementQuery; description?: string }
+  | { action: 'type'; target: ElementQuery; text: string; description?: string }
+  | { action: 'wait'; ms: number; description?: string }
+  | {
+      action: 'expect';
+      target: ElementQuery;
+      assertion: 'exists' | 'absent' | 'text' | 'value' | 'attribute';
+      expected?: string;
+      attribute?: string;
+      description?: string;
+    };
+
+export interface ComponentTestScenario {
+  description: string;
+  component?: string; // Name of the component to render, defaults to the default export
+  steps: ComponentTestStep[];
+}
+
 export interface TaskItem {
 id: string;
   title: string;
@@ -67,7 +107,9 @@ id: string;
   difficulty: Difficulty;
   startingCode: string;
   solutionCode: string;
-  testCases: string[];
+  testCases: TestCase[];
+  componentTests?: ComponentTestScenario[]; // Present for React component tasks
+  requireStrictCompile?: boolean; // Submission must type-check under strict mode before AI review
   hints: string[];
   tags: string[];
   timeEstimate: number; // in minutes
@@ -0,0 +1,67 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+  Alert
+} from '@mui/material';
+import type { AdaptedCurriculum, AdaptedCurriculumItem } from '@/types';
+
+interface AdaptedCurriculumViewProps {
+  curriculum: AdaptedCurriculum;
+}
+
+const REASON_LABELS: Record<AdaptedCurriculumItem['reason'], { label: string; color: 'error' | 'success' | 'default' }> = {
+  'weak-prerequisite': { label: 'Review first', color: 'error' },
+  'mastered-refresher': { label: 'Refresher', color: 'success' },
+  'in-order': { label: 'Next up', color: 'default' }
+};
+
+// Curriculum ordered for the signed-in user by /api/curriculum/adapt
+const AdaptedCurriculumView: React.FC<AdaptedCurriculumViewProps> = ({ curriculum }) => {
+  const compressedCount = curriculum.compressedClusters.reduce((sum, cluster) => sum + cluster.itemIds.length, 0);
+
+  return (
+    <Box>
+      {curriculum.weakItemIds.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {curriculum.weakItemIds.length} topic{curriculum.weakItemIds.length === 1 ? '' : 's'} moved to the front because related questions or tasks were answered incorrectly.
+        </Alert>
+      )}
+
+      {curriculum.compressedClusters.length > 0 && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          You have mastered {curriculum.compressedClusters.map(cluster => cluster.moduleId).join(', ')}.
+          {' '}{compressedCount} item{compressedCount === 1 ? '' : 's'} were folded into a single refresher per module.
+        </Alert>
+      )}
+
+      <Paper>
+        <List dense>
+          {curriculum.items.map((item, position) => (
+            <ListItem key={item.id} divider>
+              <ListItemText
+                primary={`${position + 1}. ${item.title}`}
+                secondary={item.failedItemIds?.length
+                  ? `${item.moduleId} · missed: ${item.failedItemIds.join(', ')}`
+                  : item.moduleId}
+              />
+              <Chip
+                label={REASON_LABELS[item.reason].label}
+                color={REASON_LABELS[item.reason].color}
+                size="small"
+                variant={item.reason === 'in-order' ? 'outlined' : 'filled'}
+              />
+            </ListItem>
+          ))}
+        </List>
+      </Paper>
+    </Box>
+  );
+};
+
+export default AdaptedCurriculumView;
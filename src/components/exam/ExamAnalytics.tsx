@@ -0,0 +1,158 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  LinearProgress,
+  Button,
+  Chip
+} from '@mui/material';
+import { useRouter } from 'next/router';
+import ExamTrendChart from './ExamTrendChart';
+import {
+  WEAK_TOPIC_PERCENTAGE,
+  findModuleForTopic,
+  getExamBreakdown,
+  getExamPercentage,
+  getExamTrend,
+  getItemTimes,
+  getPreviousAttempt
+} from '@/services/examAnalytics';
+import type { ExamBreakdownRow, MockExam, Module } from '@/types';
+
+interface ExamAnalyticsProps {
+  exam: MockExam;
+  exams: MockExam[];
+  modules: Module[];
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta}`;
+
+// Score breakdown, time per item, comparison with the previous attempt and the trend across exams
+const ExamAnalytics: React.FC<ExamAnalyticsProps> = ({ exam, exams, modules }) => {
+  const router = useRouter();
+  const breakdown = getExamBreakdown(exam);
+  const itemTimes = getItemTimes(exam);
+  const slowest = Math.max(...itemTimes.map(item => item.timeMs), 1);
+  const previous = getPreviousAttempt(exam, exams);
+  const previousBreakdown = previous ? getExamBreakdown(previous) : null;
+
+  const renderRows = (title: string, rows: ExamBreakdownRow[], linkable: boolean) => (
+    <Grid item xs={12} md={4}>
+      <Typography variant="subtitle1" gutterBottom>
+        {title}
+      </Typography>
+      {rows.map(row => {
+        const weak = row.percentage < WEAK_TOPIC_PERCENTAGE;
+        const module = linkable && weak ? findModuleForTopic(modules, row.label) : null;
+        return (
+          <Box key={row.label} sx={{ mb: 1.5 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Typography variant="body2">{row.label}</Typography>
+              <Typography variant="body2" color="text.secondary">
+                {row.percentage}% · {row.correct}/{row.total}
+              </Typography>
+            </Box>
+            <LinearProgress
+              variant="determinate"
+              value={row.percentage}
+              color={weak ? 'error' : 'success'}
+              sx={{ height: 6, borderRadius: 3 }}
+            />
+            {module && (
+              <Button size="small" sx={{ mt: 0.5, px: 0 }} onClick={() => router.push(`/modules/${module.path}`)}>
+                Study {module.title}
+              </Button>
+            )}
+          </Box>
+        );
+      })}
+    </Grid>
+  );
+
+  return (
+    <Box sx={{ mb: 4 }}>
+      <Typography variant="h5" gutterBottom>
+        Analytics
+      </Typography>
+
+      {previous && previousBreakdown && (
+        <Paper sx={{ p: 3, mb: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Compared with your previous attempt
+          </Typography>
+          <Typography variant="body2" color="text.secondary" paragraph>
+            {previous.title}
+            {previous.completedAt && ` on ${new Date(previous.completedAt).toLocaleDateString()}`}:
+            {' '}{getExamPercentage(previous)}% → {getExamPercentage(exam)}%
+            {' '}({formatDelta(getExamPercentage(exam) - getExamPercentage(previous))} points)
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+            {breakdown.byTechnology.map(row => {
+              const before = previousBreakdown.byTechnology.find(other => other.label === row.label);
+              if (!before) return null;
+              const delta = row.percentage - before.percentage;
+              return (
+                <Chip
+                  key={row.label}
+                  label={`${row.label}: ${formatDelta(delta)}%`}
+                  color={delta > 0 ? 'success' : delta < 0 ? 'error' : 'default'}
+                  size="small"
+                  variant="outlined"
+                />
+              );
+            })}
+          </Box>
+        </Paper>
+      )}
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Score breakdown
+        </Typography>
+        <Grid container spacing={3}>
+          {renderRows('By technology', breakdown.byTechnology, true)}
+          {renderRows('By tag', breakdown.byTag, true)}
+          {renderRows('By difficulty', breakdown.byDifficulty, false)}
+        </Grid>
+      </Paper>
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Time per item
+        </Typography>
+        {itemTimes.map(item => (
+          <Box key={item.itemId} sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1 }}>
+            <Typography variant="body2" sx={{ width: 32 }}>{item.label}</Typography>
+            <Box sx={{ flexGrow: 1 }} title={item.title}>
+              <LinearProgress
+                variant="determinate"
+                value={(item.timeMs / slowest) * 100}
+                color={item.correct ? 'success' : 'error'}
+                sx={{ height: 8, borderRadius: 4 }}
+              />
+            </Box>
+            <Typography variant="body2" color="text.secondary" sx={{ width: 64, textAlign: 'right' }}>
+              {formatDuration(item.timeMs)}
+            </Typography>
+          </Box>
+        ))}
+      </Paper>
+
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Score trend
+        </Typography>
+        <ExamTrendChart points={getExamTrend(exams)} currentExamId={exam.id} />
+      </Paper>
+    </Box>
+  );
+};
+
+export default ExamAnalytics;
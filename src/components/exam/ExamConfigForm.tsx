@@ -0,0 +1,327 @@
+import React, { useState, useEffect } from 'react';
+import { 
+  Box, 
+  Typography, 
+  Button, 
+  Paper, 
+  CircularProgress,
+  Alert,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
+  Slider,
+  Chip,
+  FormControlLabel,
+  Switch
+} from '@mui/material';
+import { useRouter } from 'next/router';
+import { useDataStore } from '@/store';
+import { createMockExam, getMastery } from '@/services/firestoreService';
+import { getWeakAreas } from '@/services/masteryModel';
+import { buildMockExam, getRecentExamItemIds } from '@/services/examBuilder';
+import type { ExamDifficulty, MasteryEstimate, MockExam, MockExamConfig } from '@/types';
+
+interface ExamConfigFormProps {
+  uid: string;
+  recentExams: MockExam[];
+}
+
+// Sets up a new mock exam from the curriculum and opens it in the configured state
+const ExamConfigForm: React.FC<ExamConfigFormProps> = ({ uid, recentExams }) => {
+  const router = useRouter();
+  const { technologies, loadData } = useDataStore();
+  
+  // Configuration state
+  const [config, setConfig] = useState<MockExamConfig>({
+    topics: [],
+    mcqCount: 5,
+    openEndedCount: 2,
+    codingCount: 1,
+    timeLimit: 30,
+    difficulty: 'mixed',
+    adaptive: false,
+    strictMode: false
+  });
+  
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [technologyMastery, setTechnologyMastery] = useState<MasteryEstimate[]>([]);
+  
+  // Per-technology mastery drives the topic hints and weak-area preset
+  useEffect(() => {
+    getMastery(uid, 'technology')
+      .then(setTechnologyMastery)
+      .catch(error => console.error('Error loading mastery:', error));
+  }, [uid]);
+  
+  const handleTopicChange = (event: SelectChangeEvent<string[]>) => {
+    const value = event.target.value;
+    setConfig({
+      ...config,
+      topics: typeof value === 'string' ? value.split(',') : value,
+    });
+  };
+  
+  const handleUseWeakAreas = () => {
+    setConfig({
+      ...config,
+      topics: getWeakAreas(technologyMastery, { limit: 3 }).map(estimate => estimate.label)
+    });
+  };
+  
+  const handleDifficultyChange = (event: SelectChangeEvent) => {
+    setConfig({
+      ...config,
+      difficulty: event.target.value as ExamDifficulty
+    });
+  };
+  
+  const handleAdaptiveChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setConfig({
+      ...config,
+      adaptive: event.target.checked
+    });
+  };
+  
+  const handleStrictModeChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setConfig({
+      ...config,
+      strictMode: event.target.checked
+    });
+  };
+  
+  const handleMCQCountChange = (_event: Event, value: number | number[]) => {
+    setConfig({
+      ...config,
+      mcqCount: value as number
+    });
+  };
+  
+  const handleOpenEndedCountChange = (_event: Event, value: number | number[]) => {
+    setConfig({
+      ...config,
+      openEndedCount: value as number
+    });
+  };
+  
+  const handleCodingCountChange = (_event: Event, value: number | number[]) => {
+    setConfig({
+      ...config,
+      codingCount: value as number
+    });
+  };
+  
+  const handleTimeLimitChange = (_event: Event, value: number | number[]) => {
+    setConfig({
+      ...config,
+      timeLimit: value as number
+    });
+  };
+  
+  const handleCreateExam = async () => {
+    setLoading(true);
+    setError('');
+    
+    try {
+      // Exams are drawn from the loaded curriculum
+      if (useDataStore.getState().modules.length === 0) {
+        await loadData();
+      }
+      
+      const recentItemIds = getRecentExamItemIds(recentExams);
+      const { exam, requested, selected } = buildMockExam(useDataStore.getState().modules, config, recentItemIds);
+      
+      if (selected === 0) {
+        throw new Error('No questions or tasks match these topics and difficulty');
+      }
+      if (selected < requested) {
+        console.warn(`Mock exam has ${selected} of ${requested} requested items`);
+      }
+      
+      const examId = await createMockExam(uid, exam);
+      router.push(`/mock/exam/${examId}`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to create mock exam');
+      setLoading(false);
+    }
+  };
+  
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Typography variant="h5" gutterBottom>
+        Configure Your Mock Exam
+      </Typography>
+      
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+      
+      <Grid container spacing={4}>
+        <Grid item xs={12} md={6}>
+          <FormControl fullWidth sx={{ mb: 3 }}>
+            <InputLabel id="topics-label">Topics</InputLabel>
+            <Select
+              labelId="topics-label"
+              multiple
+              value={config.topics}
+              onChange={handleTopicChange}
+              renderValue={(selected) => (
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                  {selected.map((value) => (
+                    <Chip key={value} label={value} size="small" />
+                  ))}
+                </Box>
+              )}
+            >
+              {technologies.map((tech) => {
+                const mastery = technologyMastery.find(estimate => estimate.label === tech);
+                return (
+                  <MenuItem key={tech} value={tech}>
+                    {tech}
+                    {mastery && (
+                      <Typography component="span" variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+                        {Math.round(mastery.pKnown * 100)}% mastery
+                      </Typography>
+                    )}
+                  </MenuItem>
+                );
+              })}
+            </Select>
+          </FormControl>
+          
+          <Typography variant="caption" color="text.secondary" component="p" sx={{ mt: -2, mb: 2 }}>
+            Leave empty to draw from every technology
+          </Typography>
+          
+          {getWeakAreas(technologyMastery).length > 0 && (
+            <Button variant="outlined" size="small" sx={{ mb: 3 }} onClick={handleUseWeakAreas}>
+              Use my weak areas
+            </Button>
+          )}
+          
+          <FormControlLabel
+            control={<Switch checked={config.adaptive} onChange={handleAdaptiveChange} />}
+            label="Adaptive difficulty"
+          />
+          <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 2 }}>
+            Each item is picked from how you answered the previous ones, and the report estimates your level per technology
+          </Typography>
+          
+          <FormControl fullWidth sx={{ mb: 3 }} disabled={config.adaptive}>
+            <InputLabel id="difficulty-label">Difficulty</InputLabel>
+            <Select
+              labelId="difficulty-label"
+              value={config.difficulty}
+              label="Difficulty"
+              onChange={handleDifficultyChange}
+            >
+              <MenuItem value="mixed">Mixed (30% easy, 50% medium, 20% hard)</MenuItem>
+              <MenuItem value="easy">Easy</MenuItem>
+              <MenuItem value="medium">Medium</MenuItem>
+              <MenuItem value="hard">Hard</MenuItem>
+            </Select>
+          </FormControl>
+          
+          <Box sx={{ mb: 3 }}>
+            <Typography gutterBottom>
+              Multiple Choice Questions: {config.mcqCount}
+            </Typography>
+            <Slider
+              value={config.mcqCount}
+              onChange={handleMCQCountChange}
+              min={0}
+              max={20}
+              marks={[
+                { value: 0, label: '0' },
+                { value: 10, label: '10' },
+                { value: 20, label: '20' }
+              ]}
+            />
+          </Box>
+          
+          <Box sx={{ mb: 3 }}>
+            <Typography gutterBottom>
+              Open-ended Questions: {config.openEndedCount}
+            </Typography>
+            <Slider
+              value={config.openEndedCount}
+              onChange={handleOpenEndedCountChange}
+              min={0}
+              max={10}
+              marks={[
+                { value: 0, label: '0' },
+                { value: 5, label: '5' },
+                { value: 10, label: '10' }
+              ]}
+            />
+          </Box>
+        </Grid>
+        
+        <Grid item xs={12} md={6}>
+          <Box sx={{ mb: 3 }}>
+            <Typography gutterBottom>
+              Coding Tasks: {config.codingCount}
+            </Typography>
+            <Slider
+              value={config.codingCount}
+              onChange={handleCodingCountChange}
+              min={0}
+              max={5}
+              marks={[
+                { value: 0, label: '0' },
+                { value: 2, label: '2' },
+                { value: 5, label: '5' }
+              ]}
+            />
+          </Box>
+          
+          <Box sx={{ mb: 3 }}>
+            <Typography gutterBottom>
+              Time Limit: {config.timeLimit} minutes
+            </Typography>
+            <Slider
+              value={config.timeLimit}
+              onChange={handleTimeLimitChange}
+              min={15}
+              max={120}
+              step={15}
+              marks={[
+                { value: 15, label: '15m' },
+                { value: 60, label: '1h' },
+                { value: 120, label: '2h' }
+              ]}
+            />
+          </Box>
+          
+          <FormControlLabel
+            control={<Switch checked={config.strictMode} onChange={handleStrictModeChange} />}
+            label="Strict mode"
+          />
+          <Typography variant="caption" color="text.secondary" component="p">
+            Disables paste into answers and the code editor. Tab switches, pastes and long idle gaps are recorded in every exam.
+          </Typography>
+          
+          <Box sx={{ mt: 4, display: 'flex', justifyContent: 'center' }}>
+            <Button
+              variant="contained"
+              color="primary"
+              size="large"
+              onClick={handleCreateExam}
+              disabled={loading ||
+                (config.mcqCount + config.openEndedCount + config.codingCount === 0)}
+            >
+              {loading ? <CircularProgress size={24} /> : 'Create Exam'}
+            </Button>
+          </Box>
+        </Grid>
+      </Grid>
+    </Paper>
+  );
+};
+
+export default ExamConfigForm;
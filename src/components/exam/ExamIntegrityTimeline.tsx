@@ -0,0 +1,82 @@
+import React from 'react';
+import { Box, Typography, Paper, Chip } from '@mui/material';
+import type { IntegritySignal, IntegritySignalType, MockExam } from '@/types';
+
+interface ExamIntegrityTimelineProps {
+  exam: MockExam;
+}
+
+const SIGNAL_LABELS: Record<IntegritySignalType, { label: string; color: 'default' | 'info' | 'warning' | 'error' }> = {
+  'tab-hidden': { label: 'Left the exam tab', color: 'warning' },
+  'tab-returned': { label: 'Returned to the exam', color: 'info' },
+  paste: { label: 'Pasted text', color: 'error' },
+  'paste-blocked': { label: 'Paste blocked', color: 'warning' },
+  idle: { label: 'Idle', color: 'default' }
+};
+
+// Exam clock as MM:SS
+const formatClock = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const describeSignal = (signal: IntegritySignal): string => {
+  const parts = [SIGNAL_LABELS[signal.type].label];
+  if (signal.chars !== undefined) parts.push(`${signal.chars} characters`);
+  if (signal.durationMs !== undefined) parts.push(signal.type === 'idle' ? `for ${formatDuration(signal.durationMs)}` : `after ${formatDuration(signal.durationMs)} away`);
+  return parts.join(', ');
+};
+
+// Tab switches, pastes and idle gaps recorded while the exam ran
+const ExamIntegrityTimeline: React.FC<ExamIntegrityTimelineProps> = ({ exam }) => {
+  const signals = exam.integritySignals;
+  const items = [...exam.questions, ...exam.tasks];
+  const itemLabel = (itemId?: string) => {
+    const index = items.findIndex(item => item.id === itemId);
+    return index === -1 ? '' : `Item ${index + 1}`;
+  };
+
+  const count = (type: IntegritySignalType) => signals.filter(signal => signal.type === type).length;
+  const timeAway = signals
+    .filter(signal => signal.type === 'tab-returned')
+    .reduce((sum, signal) => sum + (signal.durationMs || 0), 0);
+
+  return (
+    <Paper sx={{ p: 3, mb: 4 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <Typography variant="h6">Integrity Signals</Typography>
+        {exam.strictMode && <Chip label="Strict mode" size="small" />}
+        <Chip label={`${count('tab-hidden')} tab switches (${formatDuration(timeAway)} away)`} size="small" variant="outlined" />
+        <Chip label={`${count('paste')} pastes`} size="small" variant="outlined" />
+        {count('paste-blocked') > 0 && <Chip label={`${count('paste-blocked')} blocked pastes`} size="small" variant="outlined" />}
+        <Chip label={`${count('idle')} idle gaps`} size="small" variant="outlined" />
+      </Box>
+
+      {signals.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Nothing was recorded during this attempt.
+        </Typography>
+      ) : (
+        signals.map((signal, index) => (
+          <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 2, py: 0.5 }}>
+            <Typography variant="body2" sx={{ fontFamily: 'monospace', width: 48 }}>
+              {formatClock(signal.elapsedMs)}
+            </Typography>
+            <Chip label={SIGNAL_LABELS[signal.type].label} color={SIGNAL_LABELS[signal.type].color} size="small" />
+            <Typography variant="body2" color="text.secondary">
+              {[itemLabel(signal.itemId), describeSignal(signal)].filter(Boolean).join(' · ')}
+            </Typography>
+          </Box>
+        ))
+      )}
+    </Paper>
+  );
+};
+
+export default ExamIntegrityTimeline;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Box, Chip, Typography } from '@mui/material';
+import QuizCardContent from '@/components/questions/QuizCardContent';
+import TaskContent from '@/components/tasks/TaskContent';
+import { requiresTypeCheck } from '@/services/typeCheckService';
+import type { QuestionItem, TaskItem } from '@/types';
+
+interface ExamItemViewProps {
+  item: QuestionItem | TaskItem;
+  answer: string | undefined;
+  onAnswerChange: (answer: string) => void;
+  strictMode?: boolean;
+  onPaste?: (chars: number, blocked: boolean) => void;
+}
+
+// Answer input for one exam item. Nothing is graded or revealed until the exam is submitted.
+const ExamItemView: React.FC<ExamItemViewProps> = ({ item, answer, onAnswerChange, strictMode = false, onPaste }) => {
+  // Catches pastes into the question answer fields before they land; the code
+  // editor records and blocks its own pastes, see TaskContent
+  const handlePaste = (event: React.ClipboardEvent) => {
+    onPaste?.(event.clipboardData.getData('text').length, strictMode);
+    if (strictMode) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  };
+
+  if ('question' in item) {
+    return (
+      <Box onPasteCapture={handlePaste}>
+        <Chip label={item.topic} size="small" sx={{ mb: 2 }} />
+        <QuizCardContent
+          question={item}
+          selectedOption={answer || ''}
+          userAnswer={answer || ''}
+          showAnswer={false}
+          isCorrect={null}
+          aiFeedback=""
+          onOptionChange={event => onAnswerChange(event.target.value)}
+          onAnswerChange={event => onAnswerChange(event.target.value)}
+        />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        {item.title}
+      </Typography>
+      <TaskContent
+        description={item.description}
+        code={answer ?? item.startingCode}
+        language={requiresTypeCheck(item) ? 'typescript' : 'javascript'}
+        hints={[]}
+        showHints={false}
+        currentHintIndex={0}
+        aiResponse=""
+        isCorrect={null}
+        testRun={null}
+        diagnostics={null}
+        onCodeChange={value => onAnswerChange(value || '')}
+        onShowHintsToggle={() => {}}
+        onNextHint={() => {}}
+        strictMode={strictMode}
+        onPaste={onPaste}
+      />
+    </Box>
+  );
+};
+
+export default ExamItemView;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import type { ExamTrendPoint } from '@/types';
+
+interface ExamTrendChartProps {
+  points: ExamTrendPoint[];
+  currentExamId?: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 32;
+
+// Score percentage of every graded exam, oldest on the left
+const ExamTrendChart: React.FC<ExamTrendChartProps> = ({ points, currentExamId }) => {
+  const theme = useTheme();
+
+  if (points.length < 2) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        Take at least two exams to see your trend.
+      </Typography>
+    );
+  }
+
+  const x = (index: number) => PADDING + (index / (points.length - 1)) * (WIDTH - PADDING * 2);
+  const y = (percentage: number) => HEIGHT - PADDING - (percentage / 100) * (HEIGHT - PADDING * 2);
+  const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(point.percentage)}`).join(' ');
+
+  return (
+    <Box sx={{ width: '100%', overflowX: 'auto' }}>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img" aria-label="Exam score trend">
+        {[0, 50, 100].map(gridLine => (
+          <g key={gridLine}>
+            <line
+              x1={PADDING}
+              x2={WIDTH - PADDING}
+              y1={y(gridLine)}
+              y2={y(gridLine)}
+              stroke={theme.palette.divider}
+              strokeDasharray="4 4"
+            />
+            <text x={4} y={y(gridLine) + 4} fontSize={10} fill={theme.palette.text.secondary}>
+              {gridLine}%
+            </text>
+          </g>
+        ))}
+
+        <path d={path} fill="none" stroke={theme.palette.primary.main} strokeWidth={2} />
+
+        {points.map((point, index) => (
+          <circle
+            key={point.examId}
+            cx={x(index)}
+            cy={y(point.percentage)}
+            r={point.examId === currentExamId ? 6 : 4}
+            fill={point.examId === currentExamId ? theme.palette.secondary.main : theme.palette.primary.main}
+          >
+            <title>{`${point.title}: ${point.percentage}% (${new Date(point.completedAt).toLocaleDateString()})`}</title>
+          </circle>
+        ))}
+      </svg>
+    </Box>
+  );
+};
+
+export default ExamTrendChart;
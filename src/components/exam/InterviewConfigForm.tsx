@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  CircularProgress,
+  Alert,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
+  Slider,
+  Chip
+} from '@mui/material';
+import { useRouter } from 'next/router';
+import { useDataStore } from '@/store';
+import { createInterview } from '@/services/firestoreService';
+import { getRecentExamItemIds } from '@/services/examBuilder';
+import { buildInterview } from '@/services/interviewEngine';
+import type { ExamDifficulty, InterviewConfig, MockExam } from '@/types';
+
+interface InterviewConfigFormProps {
+  uid: string;
+  recentExams: MockExam[];
+}
+
+// Sets up an interview simulation and opens it with the first question asked
+const InterviewConfigForm: React.FC<InterviewConfigFormProps> = ({ uid, recentExams }) => {
+  const router = useRouter();
+  const { technologies, loadData } = useDataStore();
+
+  const [config, setConfig] = useState<InterviewConfig>({
+    topics: [],
+    questionCount: 3,
+    maxFollowUps: 2,
+    difficulty: 'mixed'
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleTopicChange = (event: SelectChangeEvent<string[]>) => {
+    const value = event.target.value;
+    setConfig({ ...config, topics: typeof value === 'string' ? value.split(',') : value });
+  };
+
+  const handleCreateInterview = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      if (useDataStore.getState().modules.length === 0) {
+        await loadData();
+      }
+
+      const interview = buildInterview(useDataStore.getState().modules, config, getRecentExamItemIds(recentExams));
+      if (!interview) {
+        throw new Error('No interview questions match these topics and difficulty');
+      }
+
+      const interviewId = await createInterview(uid, interview);
+      router.push(`/mock/interview/${interviewId}`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to start interview');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3, mt: 4 }}>
+      <Typography variant="h5" gutterBottom>
+        Interview Simulation
+      </Typography>
+      <Typography variant="body2" color="text.secondary" paragraph>
+        An AI interviewer asks curriculum questions, probes your answers with follow-ups and ends with a scorecard.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Grid container spacing={4}>
+        <Grid item xs={12} md={6}>
+          <FormControl fullWidth sx={{ mb: 3 }}>
+            <InputLabel id="interview-topics-label">Topics</InputLabel>
+            <Select
+              labelId="interview-topics-label"
+              multiple
+              value={config.topics}
+              onChange={handleTopicChange}
+              renderValue={(selected) => (
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                  {selected.map((value) => (
+                    <Chip key={value} label={value} size="small" />
+                  ))}
+                </Box>
+              )}
+            >
+              {technologies.map((tech) => (
+                <MenuItem key={tech} value={tech}>{tech}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl fullWidth>
+            <InputLabel id="interview-difficulty-label">Difficulty</InputLabel>
+            <Select
+              labelId="interview-difficulty-label"
+              value={config.difficulty}
+              label="Difficulty"
+              onChange={(event: SelectChangeEvent) => setConfig({ ...config, difficulty: event.target.value as ExamDifficulty })}
+            >
+              <MenuItem value="mixed">Mixed</MenuItem>
+              <MenuItem value="easy">Easy</MenuItem>
+              <MenuItem value="medium">Medium</MenuItem>
+              <MenuItem value="hard">Hard</MenuItem>
+            </Select>
+          </FormControl>
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Box sx={{ mb: 3 }}>
+            <Typography gutterBottom>
+              Questions: {config.questionCount}
+            </Typography>
+            <Slider
+              value={config.questionCount}
+              onChange={(_event, value) => setConfig({ ...config, questionCount: value as number })}
+              min={1}
+              max={6}
+              marks
+            />
+          </Box>
+
+          <Box sx={{ mb: 3 }}>
+            <Typography gutterBottom>
+              Follow-ups per question: {config.maxFollowUps}
+            </Typography>
+            <Slider
+              value={config.maxFollowUps}
+              onChange={(_event, value) => setConfig({ ...config, maxFollowUps: value as number })}
+              min={0}
+              max={3}
+              marks
+            />
+          </Box>
+
+          <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+            <Button variant="contained" color="primary" size="large" onClick={handleCreateInterview} disabled={loading}>
+              {loading ? <CircularProgress size={24} /> : 'Start Interview'}
+            </Button>
+          </Box>
+        </Grid>
+      </Grid>
+    </Paper>
+  );
+};
+
+export default InterviewConfigForm;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Box, Typography, Paper, Chip, LinearProgress, Grid } from '@mui/material';
+import type { InterviewRecommendation, InterviewScorecard, QuestionItem } from '@/types';
+
+interface InterviewScorecardViewProps {
+  scorecard: InterviewScorecard;
+  questions: QuestionItem[];
+}
+
+const RECOMMENDATION_LABELS: Record<InterviewRecommendation, { label: string; color: 'success' | 'warning' | 'error' }> = {
+  'strong-hire': { label: 'Strong Hire', color: 'success' },
+  hire: { label: 'Hire', color: 'success' },
+  'lean-no-hire': { label: 'Lean No Hire', color: 'warning' },
+  'no-hire': { label: 'No Hire', color: 'error' }
+};
+
+const ScoreRow: React.FC<{ label: string; score: number; comment: string }> = ({ label, score, comment }) => (
+  <Box sx={{ mb: 2 }}>
+    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+      <Typography variant="body2" fontWeight="medium">{label}</Typography>
+      <Typography variant="body2" color="text.secondary">{score}/100</Typography>
+    </Box>
+    <LinearProgress
+      variant="determinate"
+      value={score}
+      color={score >= 70 ? 'success' : score >= 50 ? 'warning' : 'error'}
+      sx={{ height: 6, borderRadius: 3, my: 0.5 }}
+    />
+    {comment && (
+      <Typography variant="body2" color="text.secondary">{comment}</Typography>
+    )}
+  </Box>
+);
+
+// Structured result of an interview simulation
+const InterviewScorecardView: React.FC<InterviewScorecardViewProps> = ({ scorecard, questions }) => {
+  const recommendation = RECOMMENDATION_LABELS[scorecard.recommendation];
+
+  return (
+    <Paper sx={{ p: 3, mb: 4 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+        <Typography variant="h5">Scorecard</Typography>
+        <Chip label={`${scorecard.overallScore}/100`} color={recommendation.color} />
+        <Chip label={recommendation.label} color={recommendation.color} variant="outlined" />
+      </Box>
+
+      <Typography variant="body1" paragraph>
+        {scorecard.summary}
+      </Typography>
+
+      <Grid container spacing={4}>
+        <Grid item xs={12} md={6}>
+          <Typography variant="h6" gutterBottom>Criteria</Typography>
+          {scorecard.criteria.map(entry => (
+            <ScoreRow key={entry.criterion} label={entry.criterion} score={entry.score} comment={entry.comment} />
+          ))}
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Typography variant="h6" gutterBottom>Questions</Typography>
+          {scorecard.questions.map((entry, index) => {
+            const question = questions.find(item => item.id === entry.questionId);
+            return (
+              <ScoreRow
+                key={entry.questionId}
+                label={question ? `${index + 1}. ${question.topic || question.question}` : entry.questionId}
+                score={entry.score}
+                comment={entry.comment}
+              />
+            );
+          })}
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Typography variant="h6" gutterBottom>Strengths</Typography>
+          {scorecard.strengths.map(strength => (
+            <Typography key={strength} variant="body2" paragraph>• {strength}</Typography>
+          ))}
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Typography variant="h6" gutterBottom>To Improve</Typography>
+          {scorecard.improvements.map(improvement => (
+            <Typography key={improvement} variant="body2" paragraph>• {improvement}</Typography>
+          ))}
+        </Grid>
+      </Grid>
+    </Paper>
+  );
+};
+
+export default InterviewScorecardView;
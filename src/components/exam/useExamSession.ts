@@ -0,0 +1,347 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getMockExam, submitMockExam, updateMockExam } from '@/services/firestoreService';
+import { getRemainingMs, isExamRunning, nextExamStatus } from '@/services/examEngine';
+import { createItemLookup, recordResponse, scoreResponse, serveNextItem } from '@/services/adaptiveExam';
+import { useDataStore } from '@/store';
+import type { ExamEvent, IntegritySignal, IntegritySignalType, MockExam } from '@/types';
+
+// Answer edits are batched into one write after typing pauses
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Elapsed time is saved this often while the clock runs
+const HEARTBEAT_MS = 15000;
+
+// No input for this long while the tab is visible is recorded as an idle gap
+const IDLE_GAP_MS = 120000;
+
+// Input that counts as activity for idle detection
+const ACTIVITY_EVENTS = ['keydown', 'mousedown', 'mousemove', 'wheel', 'touchstart'];
+
+type ExamProgress = Pick<MockExam, 'answers' | 'markedForReview' | 'currentItemIndex'>;
+
+// Drives one persisted mock exam through its states. Answers, review flags,
+// position and elapsed time are saved to Firestore, so reloading the page or
+// opening the exam on another device continues where it was left.
+export const useExamSession = (uid: string | null, examId: string | null) => {
+  const [exam, setExam] = useState<MockExam | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [remainingMs, setRemainingMs] = useState(0);
+  const [advancing, setAdvancing] = useState(false);
+
+  const examRef = useRef<MockExam | null>(null);
+  // Elapsed time saved so far, plus when the current running stretch began
+  const baseElapsedRef = useRef(0);
+  const runningSinceRef = useRef<number | null>(null);
+  // When the learner opened the current item, for time spent per item
+  const itemSinceRef = useRef<number | null>(null);
+  // Integrity tracking: last input, start of the current idle gap and of the current tab switch
+  const lastActivityRef = useRef(Date.now());
+  const idleSinceRef = useRef<number | null>(null);
+  const hiddenSinceRef = useRef<number | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const submittingRef = useRef(false);
+
+  const getElapsedMs = () =>
+    baseElapsedRef.current + (runningSinceRef.current !== null ? Date.now() - runningSinceRef.current : 0);
+
+  const applyExam = (next: MockExam) => {
+    examRef.current = next;
+    setExam(next);
+  };
+
+  // Add the time since the current item was opened to its total
+  const flushItemTime = (): Record<string, number> => {
+    const current = examRef.current!;
+    if (itemSinceRef.current === null) {
+      return current.itemTimeMs;
+    }
+
+    const items = [...current.questions, ...current.tasks];
+    const item = items[current.currentItemIndex || 0];
+    const now = Date.now();
+    const spent = now - itemSinceRef.current;
+    itemSinceRef.current = now;
+    if (!item) {
+      return current.itemTimeMs;
+    }
+
+    const itemTimeMs = { ...current.itemTimeMs, [item.id]: (current.itemTimeMs[item.id] || 0) + spent };
+    applyExam({ ...current, itemTimeMs });
+    return itemTimeMs;
+  };
+
+  const save = useCallback(async () => {
+    if (!uid || !examRef.current || !isExamRunning(examRef.current.status)) return;
+    const itemTimeMs = flushItemTime();
+    const current = examRef.current;
+
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+
+    try {
+      await updateMockExam(uid, current.id, {
+        answers: current.answers,
+        markedForReview: current.markedForReview,
+        currentItemIndex: current.currentItemIndex,
+        itemTimeMs,
+        integritySignals: current.integritySignals,
+        elapsedMs: getElapsedMs()
+      });
+    } catch (err) {
+      console.error('Failed to autosave exam:', err);
+    }
+  }, [uid]);
+
+  const scheduleSave = useCallback(() => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(save, AUTOSAVE_DELAY_MS);
+  }, [save]);
+
+  // Add an entry to the integrity timeline, tagged with the current item
+  const recordSignal = useCallback((type: IntegritySignalType, details: Pick<IntegritySignal, 'durationMs' | 'chars'> = {}) => {
+    const current = examRef.current;
+    if (!current || !isExamRunning(current.status)) return;
+
+    const item = [...current.questions, ...current.tasks][current.currentItemIndex || 0];
+    const signal: IntegritySignal = {
+      type,
+      at: new Date().toISOString(),
+      elapsedMs: getElapsedMs(),
+      ...(item ? { itemId: item.id } : {}),
+      ...details
+    };
+    applyExam({ ...current, integritySignals: [...current.integritySignals, signal] });
+    scheduleSave();
+  }, [scheduleSave]);
+
+  const transition = useCallback(async (event: ExamEvent) => {
+    if (!uid || !examRef.current) return;
+
+    const status = nextExamStatus(examRef.current.status, event);
+    const itemTimeMs = flushItemTime();
+    const current = examRef.current;
+    const elapsedMs = getElapsedMs();
+    baseElapsedRef.current = elapsedMs;
+    runningSinceRef.current = isExamRunning(status) ? Date.now() : null;
+    itemSinceRef.current = runningSinceRef.current;
+
+    const updates: Partial<MockExam> = {
+      status,
+      elapsedMs,
+      answers: current.answers,
+      markedForReview: current.markedForReview,
+      currentItemIndex: current.currentItemIndex,
+      itemTimeMs,
+      integritySignals: current.integritySignals,
+      ...(event === 'start' ? { startedAt: new Date().toISOString() } : {})
+    };
+
+    applyExam({ ...current, ...updates, completed: event === 'submit' || current.completed });
+    if (event === 'submit') {
+      await submitMockExam(uid, current.id, updates);
+    } else {
+      await updateMockExam(uid, current.id, updates);
+    }
+  }, [uid]);
+
+  const submit = useCallback(async () => {
+    if (submittingRef.current) return;
+    submittingRef.current = true;
+    try {
+      await transition('submit');
+    } catch (err: any) {
+      submittingRef.current = false;
+      setError(err.message || 'Failed to submit exam');
+    }
+  }, [transition]);
+
+  // Load the exam; a running exam picks its clock up from the saved elapsed time
+  useEffect(() => {
+    if (!uid || !examId) return;
+
+    const load = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const data = await getMockExam(uid, examId);
+        if (!data) {
+          throw new Error('Exam not found');
+        }
+        baseElapsedRef.current = data.elapsedMs;
+        runningSinceRef.current = isExamRunning(data.status) ? Date.now() : null;
+        itemSinceRef.current = runningSinceRef.current;
+        setRemainingMs(getRemainingMs(data, data.elapsedMs));
+        applyExam(data);
+      } catch (err: any) {
+        setError(err.message || 'Failed to load exam');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [uid, examId]);
+
+  // Countdown, periodic saves and auto-submit when time runs out
+  const running = !!exam && isExamRunning(exam.status);
+  useEffect(() => {
+    if (!running || !examRef.current) return;
+
+    lastActivityRef.current = Date.now();
+    idleSinceRef.current = null;
+
+    const tick = setInterval(() => {
+      const now = Date.now();
+      if (idleSinceRef.current === null && document.visibilityState === 'visible' && now - lastActivityRef.current >= IDLE_GAP_MS) {
+        idleSinceRef.current = lastActivityRef.current;
+      }
+
+      const remaining = getRemainingMs(examRef.current!, getElapsedMs());
+      setRemainingMs(remaining);
+      if (remaining === 0) {
+        clearInterval(tick);
+        submit();
+      }
+    }, 1000);
+    const heartbeat = setInterval(save, HEARTBEAT_MS);
+
+    // Input after a long pause closes the idle gap
+    const handleActivity = () => {
+      const now = Date.now();
+      if (idleSinceRef.current !== null) {
+        recordSignal('idle', { durationMs: now - idleSinceRef.current });
+        idleSinceRef.current = null;
+      }
+      lastActivityRef.current = now;
+    };
+
+    // Record tab switches; hiding the tab is also the last chance to save before it's closed
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') {
+        hiddenSinceRef.current = Date.now();
+        recordSignal('tab-hidden');
+        save();
+      } else if (hiddenSinceRef.current !== null) {
+        recordSignal('tab-returned', { durationMs: Date.now() - hiddenSinceRef.current });
+        hiddenSinceRef.current = null;
+        lastActivityRef.current = Date.now();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('beforeunload', save);
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    return () => {
+      clearInterval(tick);
+      clearInterval(heartbeat);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('beforeunload', save);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [running, save, submit, recordSignal]);
+
+  // Flush a pending autosave when leaving the page
+  useEffect(() => () => {
+    if (saveTimerRef.current) {
+      save();
+    }
+  }, [save]);
+
+  const updateProgress = useCallback((changes: Partial<ExamProgress>) => {
+    const current = examRef.current;
+    if (!current || !isExamRunning(current.status)) return;
+    applyExam({ ...current, ...changes });
+    scheduleSave();
+  }, [scheduleSave]);
+
+  const setAnswer = useCallback((itemId: string, answer: string) => {
+    const current = examRef.current;
+    if (!current) return;
+    updateProgress({ answers: { ...current.answers, [itemId]: answer } });
+  }, [updateProgress]);
+
+  const toggleMarkedForReview = useCallback((itemId: string) => {
+    const current = examRef.current;
+    if (!current) return;
+    const marked = current.markedForReview.includes(itemId);
+    updateProgress({
+      markedForReview: marked
+        ? current.markedForReview.filter(id => id !== itemId)
+        : [...current.markedForReview, itemId]
+    });
+  }, [updateProgress]);
+
+  const goToItem = useCallback((index: number) => {
+    if (examRef.current && isExamRunning(examRef.current.status)) {
+      flushItemTime();
+    }
+    updateProgress({ currentItemIndex: index });
+  }, [updateProgress]);
+
+  // Adaptive exams score the answer to the latest item and serve the next one
+  // from the pool; earlier items stay locked once the exam has moved on
+  const advance = useCallback(async () => {
+    const current = examRef.current;
+    if (!uid || !current?.adaptive || !isExamRunning(current.status)) return;
+
+    const items = [...current.questions, ...current.tasks];
+    const item = items[items.length - 1];
+    setAdvancing(true);
+    try {
+      const score = await scoreResponse(item, current.answers[item.id] || '');
+      // The pool holds item ids, served from the curriculum
+      if (useDataStore.getState().modules.length === 0) {
+        await useDataStore.getState().loadData();
+      }
+      const lookup = createItemLookup(useDataStore.getState().modules.flatMap(module => [...module.questions, ...module.tasks]));
+      const itemTimeMs = flushItemTime();
+      const latest = examRef.current!;
+      const adaptive = recordResponse(latest.adaptive!, item, score);
+      const served = serveNextItem({ questions: latest.questions, tasks: latest.tasks, adaptive }, lookup);
+
+      const updates: Partial<MockExam> = {
+        questions: latest.questions,
+        tasks: latest.tasks,
+        // Nothing left in the pool ends the adaptive part early
+        adaptive: { ...adaptive, remaining: { mcq: 0, open: 0, coding: 0 } },
+        ...served,
+        currentItemIndex: served ? items.length : latest.currentItemIndex,
+        answers: latest.answers,
+        itemTimeMs,
+        integritySignals: latest.integritySignals,
+        elapsedMs: getElapsedMs()
+      };
+      applyExam({ ...latest, ...updates });
+      await updateMockExam(uid, latest.id, updates);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the next item');
+    } finally {
+      setAdvancing(false);
+    }
+  }, [uid]);
+
+  const runEvent = useCallback((event: ExamEvent): Promise<void> => {
+    return transition(event).catch((err: any) => setError(err.message || `Failed to ${event} exam`));
+  }, [transition]);
+
+  return {
+    exam,
+    loading,
+    error,
+    remainingMs,
+    advancing,
+    start: () => runEvent('start'),
+    pause: () => runEvent('pause'),
+    resume: () => runEvent('resume'),
+    submit,
+    setAnswer,
+    toggleMarkedForReview,
+    goToItem,
+    advance,
+    recordPaste: (chars: number, blocked: boolean) => recordSignal(blocked ? 'paste-blocked' : 'paste', { chars })
+  };
+};
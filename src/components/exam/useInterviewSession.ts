@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getInterview, updateInterview } from '@/services/firestoreService';
+import { getInterviewFollowUp, getInterviewScorecard } from '@/services/aiService';
+import { askQuestionTurn, countFollowUps, getQuestionTurns } from '@/services/interviewEngine';
+import { useUserStore } from '@/store';
+import type { InterviewSession, InterviewTurn } from '@/types';
+
+const toTurn = (role: InterviewTurn['role'], text: string, questionId: string, followUp = false): InterviewTurn => ({
+  role,
+  text,
+  questionId,
+  ...(followUp ? { followUp } : {}),
+  at: new Date().toISOString()
+});
+
+// Drives one persisted interview: each answer is saved to the transcript, the
+// AI interviewer decides on a follow-up or the next question, and the last
+// answer triggers the scorecard
+export const useInterviewSession = (uid: string | null, interviewId: string | null) => {
+  const { settings } = useUserStore();
+  const [interview, setInterview] = useState<InterviewSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [thinking, setThinking] = useState(false);
+  const [error, setError] = useState('');
+  const interviewRef = useRef<InterviewSession | null>(null);
+
+  const apply = (next: InterviewSession) => {
+    interviewRef.current = next;
+    setInterview(next);
+  };
+
+  const save = async (changes: Partial<Pick<InterviewSession, 'transcript' | 'currentQuestionIndex' | 'status' | 'scorecard'>>) => {
+    const current = interviewRef.current!;
+    apply({ ...current, ...changes });
+    await updateInterview(uid!, current.id, changes);
+  };
+
+  const score = useCallback(async () => {
+    const current = interviewRef.current;
+    if (!uid || !current) return;
+
+    setThinking(true);
+    setError('');
+    try {
+      const scorecard = await getInterviewScorecard(current.questions, current.transcript, settings.aiReviewer);
+      await save({ scorecard, status: 'completed' });
+    } catch (err: any) {
+      setError(err.message || 'Failed to score the interview');
+    } finally {
+      setThinking(false);
+    }
+  }, [uid, settings.aiReviewer]);
+
+  const answer = useCallback(async (text: string) => {
+    const current = interviewRef.current;
+    if (!uid || !current || current.status !== 'in-progress' || !text.trim()) return;
+
+    const question = current.questions[current.currentQuestionIndex];
+    setThinking(true);
+    setError('');
+    try {
+      const transcript = [...current.transcript, toTurn('candidate', text.trim(), question.id)];
+      await save({ transcript });
+
+      if (countFollowUps(transcript, question.id) < current.maxFollowUps) {
+        try {
+          const { followUp } = await getInterviewFollowUp(question, getQuestionTurns(transcript, question.id), settings.aiReviewer);
+          if (followUp) {
+            await save({ transcript: [...transcript, toTurn('interviewer', followUp, question.id, true)] });
+            return;
+          }
+        } catch (err) {
+          // Without the interviewer the interview goes on without probes
+          console.error('Failed to get a follow-up, moving on:', err);
+        }
+      }
+
+      const nextIndex = current.currentQuestionIndex + 1;
+      if (nextIndex < current.questions.length) {
+        await save({ currentQuestionIndex: nextIndex, transcript: [...transcript, askQuestionTurn(current.questions[nextIndex])] });
+      } else {
+        await save({ currentQuestionIndex: nextIndex, status: 'scoring' });
+        await score();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to save your answer');
+    } finally {
+      setThinking(false);
+    }
+  }, [uid, settings.aiReviewer, score]);
+
+  useEffect(() => {
+    if (!uid || !interviewId) return;
+
+    const load = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const data = await getInterview(uid, interviewId);
+        if (!data) {
+          throw new Error('Interview not found');
+        }
+        apply(data);
+      } catch (err: any) {
+        setError(err.message || 'Failed to load interview');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [uid, interviewId]);
+
+  return { interview, loading, thinking, error, answer, score };
+};
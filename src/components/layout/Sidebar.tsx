@@ -20,7 +20,8 @@ import {
   Settings as SettingsIcon,
   ExpandLess,
   ExpandMore,
-  DesktopMac as DesktopMacIcon
+  DesktopMac as DesktopMacIcon,
+  Event as EventIcon
 } from '@mui/icons-material';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
@@ -165,6 +166,18 @@ const Sidebar: React.FC = () => {
             <ListItemText primary="Incorrect Items" />
           </ListItem>
           
+          <ListItem 
+            button 
+            component={Link} 
+            href="/review/due"
+            selected={router.pathname === '/review/due'}
+          >
+            <ListItemIcon>
+              <EventIcon color="warning" />
+            </ListItemIcon>
+            <ListItemText primary="Due Today" />
+          </ListItem>
+          
           <ListItem 
             button 
             component={Link} 
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  LinearProgress,
+  Chip,
+  Button
+} from '@mui/material';
+import { useRouter } from 'next/router';
+import { getMastery } from '@/services/firestoreService';
+import { getWeakAreas } from '@/services/masteryModel';
+import type { MasteryDimension, MasteryEstimate } from '@/types';
+
+interface WeakAreasCardProps {
+  uid: string;
+}
+
+const DIMENSION_LABELS: Record<MasteryDimension, string> = {
+  tag: 'Tag',
+  concept: 'Concept',
+  technology: 'Technology',
+  learningPath: 'Level'
+};
+
+// Skills with the lowest mastery estimate, shown on the dashboard
+const WeakAreasCard: React.FC<WeakAreasCardProps> = ({ uid }) => {
+  const router = useRouter();
+  const [estimates, setEstimates] = useState<MasteryEstimate[] | null>(null);
+
+  useEffect(() => {
+    getMastery(uid)
+      .then(setEstimates)
+      .catch(() => setEstimates([]));
+  }, [uid]);
+
+  if (!estimates) {
+    return null;
+  }
+
+  const weakAreas = getWeakAreas(estimates, { limit: 5 });
+  const weakestTechnology = getWeakAreas(estimates, { dimension: 'technology', limit: 1 })[0];
+
+  return (
+    <Paper sx={{ p: 3, mb: 4 }}>
+      <Typography variant="h5" gutterBottom>
+        Weak Areas
+      </Typography>
+
+      {weakAreas.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {estimates.length === 0
+            ? 'Answer a few questions or tasks and the skills you struggle with will show up here.'
+            : 'No weak areas detected. Keep practicing!'}
+        </Typography>
+      ) : (
+        <>
+          {weakAreas.map(estimate => (
+            <Box key={estimate.key} sx={{ mb: 2 }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Chip label={DIMENSION_LABELS[estimate.dimension]} size="small" variant="outlined" />
+                  <Typography variant="body1">{estimate.label}</Typography>
+                </Box>
+                <Typography variant="body2" color="text.secondary">
+                  {Math.round(estimate.pKnown * 100)}% · {estimate.correct}/{estimate.attempts} correct
+                </Typography>
+              </Box>
+              <LinearProgress variant="determinate" value={estimate.pKnown * 100} color="error" />
+            </Box>
+          ))}
+
+          {weakestTechnology && (
+            <Button
+              variant="outlined"
+              size="small"
+              onClick={() => router.push(`/random?technology=${encodeURIComponent(weakestTechnology.label)}`)}
+            >
+              Practice {weakestTechnology.label}
+            </Button>
+          )}
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default WeakAreasCard;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { 
+  Box, 
+  Typography, 
+  Chip, 
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Alert,
+  Divider
+} from '@mui/material';
+import type { CodeTraceGrade, CodeTraceRun, TraceLineResult } from '@/types';
+
+interface CodeTraceResultProps {
+  run: CodeTraceRun;
+  grade: CodeTraceGrade;
+}
+
+const STATUS_COLORS: Record<TraceLineResult['status'], 'success' | 'error' | 'warning'> = {
+  match: 'success',
+  mismatch: 'error',
+  missing: 'warning',
+  extra: 'warning'
+};
+
+// Line-by-line comparison of a code-trace prediction with the real output
+const CodeTraceResult: React.FC<CodeTraceResultProps> = ({ run, grade }) => {
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Divider sx={{ mb: 2 }} />
+      <Typography variant="h6" gutterBottom>
+        {run.source === 'value' ? 'Final value' : 'Console output'}: {grade.matched}/{grade.total} lines correct
+      </Typography>
+      
+      {run.truncated && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          The snippet kept scheduling timers, so output was captured for the first few seconds only.
+        </Alert>
+      )}
+      
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>#</TableCell>
+            <TableCell>Actual</TableCell>
+            <TableCell>Your prediction</TableCell>
+            <TableCell />
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {grade.lines.map((line) => (
+            <TableRow key={line.line}>
+              <TableCell>{line.line}</TableCell>
+              <TableCell sx={{ fontFamily: 'monospace' }}>{line.expected ?? '—'}</TableCell>
+              <TableCell sx={{ fontFamily: 'monospace' }}>{line.predicted ?? '—'}</TableCell>
+              <TableCell>
+                <Chip label={line.status} color={STATUS_COLORS[line.status]} size="small" />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+export default CodeTraceResult;
@@ -10,13 +10,22 @@ import {
   FormControlLabel,
   Checkbox,
   Collapse,
-  CircularProgress
+  CircularProgress,
+  Alert
 } from '@mui/material';
 import { QuestionItem } from '../../../index';
+import type { AIReviewResponse, CodeTraceGrade, CodeTraceRun, RubricGrade } from '@/types';
 import { useUserStore, useProgressStore } from '@/store';
-import { updateItemProgress, saveSubmission, getItemProgress } from '@/services/firestoreService';
-import { reviewCode } from '@/services/aiService';
+import { updateItemProgress, saveSubmission, getItemProgress, recordReview, recordMasteryAttempt } from '@/services/firestoreService';
+import { isAbortError } from '@/services/aiService';
+import { formatRubricFeedback, gradeAnswer } from '@/services/rubricGrader';
+import { formatTraceFeedback, gradeTracePrediction, isCodeTraceQuestion, runCodeTrace } from '@/services/codeTraceService';
 import QuizCardContent from './QuizCardContent';
+import RubricBreakdown from './RubricBreakdown';
+import CodeTraceResult from './CodeTraceResult';
+import ReviewStreamPanel from '@/components/review/ReviewStreamPanel';
+import ReviewerComparison from '@/components/review/ReviewerComparison';
+import { useReviewStream } from '@/components/review/useReviewStream';
 
 interface QuizCardProps {
   question: QuestionItem;
@@ -33,7 +42,12 @@ const QuizCard: React.FC<QuizCardProps> = ({ question }) => {
   const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
   const [aiFeedback, setAiFeedback] = useState<string>('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState('');
   const [isIrrelevant, setIsIrrelevant] = useState(false);
+  const [review, setReview] = useState<AIReviewResponse | null>(null);
+  const [rubricGrade, setRubricGrade] = useState<RubricGrade | null>(null);
+  const [trace, setTrace] = useState<{ run: CodeTraceRun; grade: CodeTraceGrade } | null>(null);
+  const { stream, isStreaming, startReview, cancelReview } = useReviewStream();
   
   // Check if this item is marked as irrelevant in user progress
   useEffect(() => {
@@ -70,36 +84,81 @@ const QuizCard: React.FC<QuizCardProps> = ({ question }) => {
     
     // Check if answer is correct
     let correct = false;
+    let score: number | undefined;
     if (question.type === 'mcq') {
       const correctOptionIndex = parseInt(question.answer);
       correct = question.options[correctOptionIndex] === selectedOption;
     } else {
-      // For open-ended questions, we'll use AI to evaluate
       setIsSubmitting(true);
+      setSubmitError('');
+      setReview(null);
       
       try {
-        const aiResponse = await reviewCode({
-          itemId: question.id,
-          type: 'question',
-          prompt: question.question,
-          userCode: userAnswer
-        }, settings.aiReviewer);
+        // Code-trace predictions are checked against the snippet's real output.
+        // A snippet that can't run falls back to the AI reviewer.
+        const traceRun = isCodeTraceQuestion(question) ? await runCodeTrace(question.example) : null;
+        const traceGrade = traceRun && !traceRun.error ? gradeTracePrediction(userAnswer, traceRun) : null;
+        setTrace(traceRun && traceGrade ? { run: traceRun, grade: traceGrade } : null);
         
-        correct = aiResponse.isCorrect;
-        setAiFeedback(aiResponse.feedback);
+        // Open and flashcard answers are graded against the rubric first; only
+        // borderline answers go to the AI reviewer, with the rubric attached
+        const grade = question.type === 'open' || question.type === 'flashcard'
+          ? gradeAnswer(question, userAnswer)
+          : null;
+        setRubricGrade(grade);
         
-        // Save submission to Firebase if authenticated
+        let feedback = grade ? formatRubricFeedback(grade) : '';
+        let aiResponse: AIReviewResponse | null = null;
+        
+        if (traceRun && traceGrade) {
+          correct = traceGrade.isCorrect;
+          score = traceGrade.score;
+          feedback = formatTraceFeedback(traceGrade, traceRun);
+        } else if (grade && grade.verdict !== 'borderline') {
+          correct = grade.verdict === 'pass';
+          score = grade.score;
+        } else {
+          aiResponse = await startReview({
+            itemId: question.id,
+            type: 'question',
+            prompt: question.example ? `${question.question}\n\n${question.example}` : question.question,
+            userCode: userAnswer,
+            ...(grade ? { referenceAnswer: question.answer, rubric: grade.items } : {})
+          }, settings.aiReviewer, settings.reviewPolicy);
+          
+          correct = aiResponse.isCorrect;
+          score = aiResponse.score;
+          feedback = feedback ? `${feedback}\n\n${aiResponse.feedback}` : aiResponse.feedback;
+          setReview(aiResponse);
+        }
+        
+        setAiFeedback(feedback);
+        
+        // Save submission to Firebase if authenticated; the answer is graded
+        // either way, so a failed write doesn't undo that
         if (isAuthenticated && uid) {
-          await saveSubmission(
-            uid,
-            question.id,
-            userAnswer,
-            correct ? 'pass' : 'fail',
-            aiResponse.feedback
-          );
+          try {
+            await saveSubmission(
+              uid,
+              question.id,
+              userAnswer,
+              correct ? 'pass' : 'fail',
+              feedback,
+              aiResponse
+            );
+          } catch (error) {
+            console.error('Error saving submission:', error);
+          }
         }
-      } catch (error) {
+      } catch (error: any) {
+        if (isAbortError(error)) {
+          // Cancelled mid-review: leave the question open for another attempt
+          return;
+        }
+        // The answer wasn't graded, so it mustn't count as wrong
         console.error('Error submitting answer:', error);
+        setSubmitError(error.message || 'Failed to review your answer');
+        return;
       } finally {
         setIsSubmitting(false);
       }
@@ -115,12 +174,14 @@ const QuizCard: React.FC<QuizCardProps> = ({ question }) => {
         setIncorrect(question.id, true);
       }
       
-      await updateItemProgress(
-        uid,
-        question.id,
-        'question',
-        'complete'
-      );
+      // Schedules the next spaced-repetition review. Only reached once the
+      // answer was graded; failed reviews return above.
+      try {
+        await recordReview(uid, question.id, 'question', correct, score);
+        await recordMasteryAttempt(uid, question, correct);
+      } catch (error) {
+        console.error('Error recording review:', error);
+      }
     }
   };
 
@@ -202,6 +263,28 @@ const QuizCard: React.FC<QuizCardProps> = ({ question }) => {
             onOptionChange={handleOptionChange}
             onAnswerChange={handleAnswerChange}
           />
+          
+          {submitError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {submitError}
+            </Alert>
+          )}
+          
+          {isStreaming && (
+            <ReviewStreamPanel stream={stream} onCancel={cancelReview} />
+          )}
+          
+          {trace && showAnswer && (
+            <CodeTraceResult run={trace.run} grade={trace.grade} />
+          )}
+          
+          {rubricGrade && showAnswer && (
+            <RubricBreakdown grade={rubricGrade} />
+          )}
+          
+          {review && !isStreaming && (
+            <ReviewerComparison review={review} />
+          )}
         </Collapse>
       </CardContent>
       
@@ -223,7 +306,7 @@ const QuizCard: React.FC<QuizCardProps> = ({ question }) => {
               disabled={
                 isSubmitting || 
                 (question.type === 'mcq' && !selectedOption) ||
-                ((question.type === 'open' || question.type === 'code') && !userAnswer)
+                ((question.type === 'open' || question.type === 'code' || question.type === 'flashcard') && !userAnswer)
               }
               startIcon={isSubmitting ? <CircularProgress size={16} /> : null}
             >
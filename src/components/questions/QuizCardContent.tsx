@@ -9,6 +9,7 @@ import {
   Button
 } from '@mui/material';
 import { QuestionItem } from '../../../index';
+import { isCodeTraceQuestion } from '@/services/codeTraceService';
 
 interface QuizCardContentProps {
   question: QuestionItem;
@@ -79,6 +80,24 @@ const QuizCardContent: React.FC<QuizCardContentProps> = ({
             {question.question}
           </Typography>
           
+          <TextField
+            fullWidth
+            multiline
+            rows={3}
+            variant="outlined"
+            placeholder="Write what you remember, then submit to have it graded..."
+            value={userAnswer}
+            onChange={onAnswerChange}
+            disabled={showAnswer}
+            sx={{ mt: 2 }}
+          />
+          
+          {showAnswer && aiFeedback && (
+            <Typography variant="body2" sx={{ mt: 2, whiteSpace: 'pre-wrap' }}>
+              {aiFeedback}
+            </Typography>
+          )}
+          
           {showAnswer && (
             <Box 
               sx={{ 
@@ -104,12 +123,32 @@ const QuizCardContent: React.FC<QuizCardContentProps> = ({
             {question.question}
           </Typography>
           
+          {isCodeTraceQuestion(question) && (
+            <Box 
+              component="pre"
+              sx={{ 
+                mt: 2, 
+                p: 2, 
+                bgcolor: 'grey.900',
+                color: 'grey.100',
+                borderRadius: 1,
+                overflowX: 'auto',
+                fontFamily: 'monospace',
+                fontSize: '0.875rem'
+              }}
+            >
+              {question.example}
+            </Box>
+          )}
+          
           <TextField
             fullWidth
             multiline
             rows={6}
             variant="outlined"
-            placeholder="Type your answer here..."
+            placeholder={isCodeTraceQuestion(question)
+              ? 'Predict the output: one line per console.log, or the final value if nothing is logged...'
+              : 'Type your answer here...'}
             value={userAnswer}
             onChange={onAnswerChange}
             disabled={showAnswer}
@@ -132,9 +171,9 @@ const QuizCardContent: React.FC<QuizCardContentProps> = ({
               </Box>
               
               <Typography variant="subtitle1" gutterBottom>
-                AI Feedback:
+                Feedback:
               </Typography>
-              <Typography variant="body2">
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
                 {aiFeedback}
               </Typography>
             </Box>
@@ -0,0 +1,61 @@
+import React from 'react';
+import { 
+  Box, 
+  Typography, 
+  Chip, 
+  LinearProgress,
+  Divider
+} from '@mui/material';
+import type { RubricGrade, RubricItemResult } from '@/types';
+
+interface RubricBreakdownProps {
+  grade: RubricGrade;
+}
+
+const statusColor = (status: RubricItemResult['status']): 'success' | 'warning' | 'error' | 'default' => {
+  switch (status) {
+    case 'met':
+      return 'success';
+    case 'partial':
+      return 'warning';
+    case 'missed':
+      return 'error';
+    default:
+      return 'default';
+  }
+};
+
+// Per-criterion result of the local rubric grader
+const RubricBreakdown: React.FC<RubricBreakdownProps> = ({ grade }) => {
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Divider sx={{ mb: 2 }} />
+      <Typography variant="h6" gutterBottom>
+        Rubric: {grade.score}/100{grade.verdict === 'borderline' ? ' (borderline, sent to AI review)' : ''}
+      </Typography>
+      <LinearProgress 
+        variant="determinate" 
+        value={grade.score} 
+        color={grade.verdict === 'pass' ? 'success' : grade.verdict === 'fail' ? 'error' : 'warning'}
+        sx={{ mb: 2, height: 8, borderRadius: 1 }}
+      />
+      {grade.items.map((item, index) => (
+        <Box key={index} sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mb: 1 }}>
+          <Chip label={item.status} color={statusColor(item.status)} size="small" />
+          <Box>
+            <Typography variant="body2">
+              {item.criterion}
+            </Typography>
+            {item.missingTerms.length > 0 && (
+              <Typography variant="caption" color="text.secondary">
+                Not mentioned: {item.missingTerms.join(', ')}
+              </Typography>
+            )}
+          </Box>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default RubricBreakdown;
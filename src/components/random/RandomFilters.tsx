@@ -15,6 +15,7 @@ interface RandomFiltersProps {
   technology: string;
   difficulty: string;
   technologies: string[];
+  weakestTechnology?: string | null;
   onTechnologyChange: (event: SelectChangeEvent) => void;
   onDifficultyChange: (event: SelectChangeEvent) => void;
 }
@@ -23,6 +24,7 @@ const RandomFilters: React.FC<RandomFiltersProps> = ({
   technology,
   difficulty,
   technologies,
+  weakestTechnology,
   onTechnologyChange,
   onDifficultyChange
 }) => {
@@ -37,6 +39,9 @@ const RandomFilters: React.FC<RandomFiltersProps> = ({
             onChange={onTechnologyChange}
           >
             <MenuItem value="all">All Technologies</MenuItem>
+            {weakestTechnology && (
+              <MenuItem value="weakest">My weakest ({weakestTechnology})</MenuItem>
+            )}
             {technologies.map((tech) => (
               <MenuItem key={tech} value={tech}>{tech}</MenuItem>
             ))}
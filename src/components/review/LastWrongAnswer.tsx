@@ -0,0 +1,50 @@
+import React from 'react';
+import { Box, Typography, Chip } from '@mui/material';
+import type { IncorrectItem } from '@/types';
+
+interface LastWrongAnswerProps {
+  entry: IncorrectItem;
+}
+
+// Where the item comes from, when it was last failed and, when it was saved,
+// what the learner answered and what the reviewer said about it
+const LastWrongAnswer: React.FC<LastWrongAnswerProps> = ({ entry }) => {
+  const submission = entry.lastWrongAnswer;
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+        <Chip label={entry.technology} size="small" />
+        <Typography variant="caption" color="text.secondary">
+          {entry.moduleTitle}
+          {entry.failedAt && ` · last wrong on ${new Date(entry.failedAt).toLocaleDateString()}`}
+          {entry.attempts > 1 && ` · ${entry.attempts} attempts`}
+        </Typography>
+      </Box>
+
+      {submission && (
+        <Box sx={{ p: 2, bgcolor: 'action.hover', borderRadius: 1 }}>
+          <Typography variant="subtitle2" gutterBottom>
+            Your last wrong answer
+          </Typography>
+          <Typography variant="body2" component="pre" sx={{ m: 0, whiteSpace: 'pre-wrap', fontFamily: entry.itemType === 'task' ? 'monospace' : undefined }}>
+            {submission.content || '(no answer)'}
+          </Typography>
+
+          {submission.feedback && (
+            <>
+              <Typography variant="subtitle2" sx={{ mt: 2 }} gutterBottom>
+                Feedback
+              </Typography>
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                {submission.feedback}
+              </Typography>
+            </>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default LastWrongAnswer;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { 
+  Box, 
+  Typography, 
+  Button, 
+  LinearProgress,
+  Divider
+} from '@mui/material';
+import type { ReviewStreamState } from './useReviewStream';
+
+interface ReviewStreamPanelProps {
+  stream: ReviewStreamState;
+  onCancel: () => void;
+}
+
+// Live output of the AI reviewer(s) while a review is being generated
+const ReviewStreamPanel: React.FC<ReviewStreamPanelProps> = ({ stream, onCancel }) => {
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Divider sx={{ mb: 2 }} />
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h6">
+          AI Review in progress...
+        </Typography>
+        <Button size="small" color="warning" variant="outlined" onClick={onCancel}>
+          Cancel
+        </Button>
+      </Box>
+      <LinearProgress sx={{ mb: 2 }} />
+      
+      {stream.reviewers.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          Waiting for the reviewer to respond...
+        </Typography>
+      )}
+      
+      {stream.reviewers.map((reviewer) => (
+        <Box key={reviewer.id} sx={{ mb: 2 }}>
+          <Typography variant="subtitle2" gutterBottom>
+            {reviewer.label}
+          </Typography>
+          <Box 
+            sx={{ 
+              p: 2, 
+              bgcolor: 'background.paper', 
+              borderRadius: 1,
+              border: 1,
+              borderColor: 'divider',
+              maxHeight: 240,
+              overflow: 'auto'
+            }}
+          >
+            <Typography variant="body2" component="pre" sx={{ m: 0, whiteSpace: 'pre-wrap', fontFamily: 'monospace' }}>
+              {stream.output[reviewer.id] || '...'}
+            </Typography>
+          </Box>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default ReviewStreamPanel;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { 
+  Box, 
+  Typography, 
+  Chip, 
+  Grid,
+  Alert,
+  Divider
+} from '@mui/material';
+import type { AIReviewResponse } from '@/types';
+
+interface ReviewerComparisonProps {
+  review: AIReviewResponse;
+}
+
+const verdictColor = (verdict: string): 'success' | 'error' | 'default' =>
+  verdict === 'pass' ? 'success' : verdict === 'fail' ? 'error' : 'default';
+
+// Each reviewer's verdict side by side, with the points they disagree on
+const ReviewerComparison: React.FC<ReviewerComparisonProps> = ({ review }) => {
+  const opinions = review.opinions || [];
+  const disagreements = review.disagreements || [];
+  
+  if (opinions.length < 2) {
+    return null;
+  }
+  
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Divider sx={{ mb: 2 }} />
+      <Typography variant="h6" gutterBottom>
+        Reviewer Comparison
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Final verdict: {review.verdict?.toUpperCase()} using the {review.policy} policy
+        {review.score !== undefined ? ` (weighted score ${review.score}/100)` : ''}
+      </Typography>
+      
+      {disagreements.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          <Typography variant="subtitle2" gutterBottom>
+            The reviewers disagree on {disagreements.length} point{disagreements.length === 1 ? '' : 's'}:
+          </Typography>
+          {disagreements.map((disagreement, index) => (
+            <Box key={index} sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 0.5 }}>
+              <Typography variant="body2" sx={{ fontFamily: disagreement.subject === 'verdict' ? undefined : 'monospace' }}>
+                {disagreement.subject === 'verdict' ? 'Overall verdict' : disagreement.subject}
+              </Typography>
+              {Object.entries(disagreement.verdicts).map(([reviewer, verdict]) => (
+                <Chip key={reviewer} label={`${reviewer}: ${verdict}`} color={verdictColor(verdict)} size="small" />
+              ))}
+            </Box>
+          ))}
+        </Alert>
+      )}
+      
+      <Grid container spacing={2}>
+        {opinions.map((opinion) => (
+          <Grid item xs={12} md={12 / Math.min(opinions.length, 3)} key={opinion.reviewer}>
+            <Box sx={{ p: 2, height: '100%', bgcolor: 'background.paper', borderRadius: 1, border: 1, borderColor: 'divider' }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                <Typography variant="subtitle2">{opinion.label}</Typography>
+                <Chip label={`${opinion.verdict} · ${opinion.score}`} color={verdictColor(opinion.verdict)} size="small" />
+              </Box>
+              <Typography variant="body2" sx={{ mb: 1 }}>
+                {opinion.summary}
+              </Typography>
+              {opinion.testCaseVerdicts.map((testCase, index) => (
+                <Box key={index} sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mb: 0.5 }}>
+                  <Chip label={testCase.verdict} color={verdictColor(testCase.verdict)} size="small" variant="outlined" />
+                  <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>
+                    {testCase.testCase}
+                  </Typography>
+                </Box>
+              ))}
+            </Box>
+          </Grid>
+        ))}
+      </Grid>
+    </Box>
+  );
+};
+
+export default ReviewerComparison;
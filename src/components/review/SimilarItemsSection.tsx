@@ -1,52 +1,57 @@
 import React from 'react';
-import { 
-  Box, 
-  Typography, 
-  Button, 
+import {
+  Box,
+  Typography,
+  Button,
   CircularProgress,
-  Divider
+  Divider,
+  Alert
 } from '@mui/material';
 import QuizCard from '@/components/questions/QuizCard';
 import TaskRunner from '@/components/tasks/TaskRunner';
-import { QuestionItem, TaskItem, QuestionType } from '../../../index';
+import { isQuestionItem } from '@/services/similarItemService';
+import type { GeneratedItem, QuestionItem, TaskItem } from '@/types';
 
 interface SimilarItemsSectionProps {
   item: QuestionItem | TaskItem;
-  similarItems: QuestionItem[] | TaskItem[];
-  selectedItemId: string | null;
-  generatingSimilar: boolean;
+  generatedItems: GeneratedItem[]; // Generated from this item, newest first
+  generating: boolean;
+  error: string;
   onGenerateSimilar: (item: QuestionItem | TaskItem) => void;
 }
 
-// Type guard to check if an item is a QuestionItem
-function isQuestionItem(item: QuestionItem | TaskItem): item is QuestionItem {
-  return 'type' in item && (item as QuestionItem).type !== undefined;
-}
+const MODEL_LABELS: Record<GeneratedItem['model'], string> = {
+  deepseek: 'DeepSeek',
+  gemini: 'Gemini',
+  both: 'Gemini'
+};
 
 const SimilarItemsSection: React.FC<SimilarItemsSectionProps> = ({
   item,
-  similarItems,
-  selectedItemId,
-  generatingSimilar,
+  generatedItems,
+  generating,
+  error,
   onGenerateSimilar
 }) => {
+  const isQuestion = isQuestionItem(item);
+
   return (
     <>
       <Divider sx={{ my: 2 }} />
-      
+
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
         <Typography variant="body2" color="text.secondary">
-          Practice with similar {isQuestionItem(item) ? 'questions' : 'tasks'}
+          Practice with similar {isQuestion ? 'questions' : 'tasks'}
         </Typography>
-        
+
         <Button
           variant="outlined"
           color="primary"
           size="small"
           onClick={() => onGenerateSimilar(item)}
-          disabled={generatingSimilar && selectedItemId === item.id}
+          disabled={generating}
         >
-          {generatingSimilar && selectedItemId === item.id ? (
+          {generating ? (
             <>
               <CircularProgress size={16} sx={{ mr: 1 }} />
               Generating...
@@ -56,19 +61,32 @@ const SimilarItemsSection: React.FC<SimilarItemsSectionProps> = ({
           )}
         </Button>
       </Box>
-      
-      {selectedItemId === item.id && similarItems.length > 0 && (
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {generatedItems.length > 0 && (
         <Box sx={{ mt: 3 }}>
           <Typography variant="subtitle1" gutterBottom>
-            Similar {isQuestionItem(item) ? 'Questions' : 'Tasks'}:
+            Similar {isQuestion ? 'Questions' : 'Tasks'}:
           </Typography>
-          
-          {similarItems.map((similar: QuestionItem | TaskItem) => (
-            <Box key={similar.id} sx={{ mt: 2 }}>
-              {isQuestionItem(item) ? (
-                <QuizCard question={similar as QuestionItem} />
+
+          {generatedItems.map(generated => (
+            <Box key={generated.id} sx={{ mt: 2 }}>
+              <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 1 }}>
+                Generated by {MODEL_LABELS[generated.model]}
+                {generated.createdAt && ` on ${new Date(generated.createdAt).toLocaleDateString()}`}
+                {' '}from &ldquo;{generated.sourceTitle}&rdquo;
+                {generated.quality?.testsExecuted !== undefined &&
+                  ` · reference solution passed ${generated.quality.testsPassed}/${generated.quality.testsExecuted} tests`}
+              </Typography>
+              {isQuestionItem(generated.item) ? (
+                <QuizCard question={generated.item} />
               ) : (
-                <TaskRunner task={similar as TaskItem} />
+                <TaskRunner task={generated.item} />
               )}
             </Box>
           ))}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { streamReviewCode } from '@/services/aiService';
+import type { AIReviewRequest, AIReviewResponse, ReviewPolicy, ReviewStreamEvent } from '@/types';
+
+export interface ReviewStreamState {
+  reviewers: { id: string; label: string }[];
+  output: Record<string, string>;
+}
+
+const EMPTY_STREAM: ReviewStreamState = { reviewers: [], output: {} };
+
+const applyEvent = (state: ReviewStreamState, event: ReviewStreamEvent): ReviewStreamState => {
+  switch (event.type) {
+    case 'start':
+      return { reviewers: event.reviewers, output: {} };
+    case 'delta':
+      return { ...state, output: { ...state.output, [event.reviewer]: (state.output[event.reviewer] || '') + event.text } };
+    case 'retry':
+      // The reviewer starts over after an invalid response
+      return { ...state, output: { ...state.output, [event.reviewer]: '' } };
+    default:
+      return state;
+  }
+};
+
+// Runs a streaming AI review and keeps each reviewer's partial output for rendering
+export const useReviewStream = () => {
+  const [stream, setStream] = useState<ReviewStreamState>(EMPTY_STREAM);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Don't keep a request running for an unmounted card
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const startReview = useCallback(async (
+    request: AIReviewRequest,
+    aiReviewer: 'deepseek' | 'gemini' | 'both',
+    policy?: ReviewPolicy
+  ): Promise<AIReviewResponse> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setStream(EMPTY_STREAM);
+    setIsStreaming(true);
+    try {
+      return await streamReviewCode(
+        request,
+        aiReviewer,
+        event => setStream(previous => applyEvent(previous, event)),
+        { signal: controller.signal, policy }
+      );
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  }, []);
+
+  const cancelReview = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { stream, isStreaming, startReview, cancelReview };
+};
@@ -1,38 +1,115 @@
-import React from 'react';
+import React, { useEffect, useId, useRef } from 'react';
 import { 
   Box, 
   Typography, 
   Button, 
   Collapse,
-  Divider
+  Divider,
+  Chip
 } from '@mui/material';
-import Editor from '@monaco-editor/react';
+import Editor, { BeforeMount, Monaco, OnMount } from '@monaco-editor/react';
+import type { TestCaseStatus, TestRunSummary, TypeDiagnostic } from '@/types';
 
 interface TaskContentProps {
   description: string;
   code: string;
+  language: 'javascript' | 'typescript';
   hints: string[];
   showHints: boolean;
   currentHintIndex: number;
   aiResponse: string;
   isCorrect: boolean | null;
+  testRun: TestRunSummary | null;
+  diagnostics: TypeDiagnostic[] | null;
   onCodeChange: (value: string | undefined) => void;
   onShowHintsToggle: () => void;
   onNextHint: () => void;
+  strictMode?: boolean; // Exam strict mode: pastes are undone and drag-and-drop is off
+  onPaste?: (chars: number, blocked: boolean) => void;
 }
 
+const statusColor = (status: TestCaseStatus) => {
+  switch (status) {
+    case 'pass':
+      return 'success';
+    case 'skipped':
+      return 'default';
+    case 'timeout':
+      return 'warning';
+    default:
+      return 'error';
+  }
+};
+
 const TaskContent: React.FC<TaskContentProps> = ({
   description,
   code,
+  language,
   hints,
   showHints,
   currentHintIndex,
   aiResponse,
   isCorrect,
+  testRun,
+  diagnostics,
   onCodeChange,
   onShowHintsToggle,
-  onNextHint
+  onNextHint,
+  strictMode = false,
+  onPaste
 }) => {
+  // Each editor needs its own model path, the extension enables JSX parsing
+  const modelId = useId().replace(/:/g, '');
+  const monacoRef = useRef<Monaco | null>(null);
+  const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
+  // The paste listener is registered once on mount and reads the latest props
+  const pasteRef = useRef({ strictMode, onPaste });
+  pasteRef.current = { strictMode, onPaste };
+  
+  // Server-side diagnostics are the source of truth, so hide Monaco's own semantic errors
+  const handleBeforeMount: BeforeMount = (monaco) => {
+    monaco.languages.typescript.typescriptDefaults.setDiagnosticsOptions({
+      noSemanticValidation: true,
+      noSyntaxValidation: false
+    });
+  };
+  
+  const handleMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    
+    // Covers keyboard and context-menu pastes alike; the latter reads the
+    // clipboard API and never fires a DOM paste event
+    editor.onDidPaste(event => {
+      const { strictMode: blocked, onPaste: recordPaste } = pasteRef.current;
+      const model = editor.getModel();
+      if (!recordPaste || !model) return;
+      
+      recordPaste(model.getValueInRange(event.range).length, blocked);
+      if (blocked) {
+        editor.trigger('strict-mode', 'undo', null);
+      }
+    });
+  };
+  
+  // Show type-check diagnostics as inline markers
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model) return;
+    
+    monaco.editor.setModelMarkers(model, 'type-check', (diagnostics || []).map(diagnostic => ({
+      startLineNumber: diagnostic.line,
+      startColumn: diagnostic.column,
+      endLineNumber: diagnostic.endLine,
+      endColumn: diagnostic.endColumn,
+      message: `TS${diagnostic.code}: ${diagnostic.message}`,
+      severity: diagnostic.category === 'error' ? monaco.MarkerSeverity.Error :
+                diagnostic.category === 'warning' ? monaco.MarkerSeverity.Warning :
+                monaco.MarkerSeverity.Info
+    })));
+  }, [diagnostics]);
+  
   return (
     <Box>
       <Box sx={{ mb: 3 }}>
@@ -56,19 +133,42 @@ const TaskContent: React.FC<TaskContentProps> = ({
         </Typography>
         <Editor
           height="300px"
-          defaultLanguage="javascript"
+          language={language}
+          path={`submission-${modelId}.${language === 'typescript' ? 'tsx' : 'jsx'}`}
           value={code}
           onChange={onCodeChange}
+          beforeMount={handleBeforeMount}
+          onMount={handleMount}
           theme="vs-dark"
           options={{
             minimap: { enabled: false },
             scrollBeyondLastLine: false,
             fontSize: 14,
-            tabSize: 2
+            tabSize: 2,
+            dragAndDrop: !strictMode,
+            dropIntoEditor: { enabled: !strictMode }
           }}
         />
       </Box>
       
+      {diagnostics && (
+        <Box sx={{ mb: 3 }}>
+          <Typography variant="subtitle1" gutterBottom>
+            Type Check: {diagnostics.length === 0 ? '✅ No problems found' : `${diagnostics.length} problem(s)`}
+          </Typography>
+          {diagnostics.map((diagnostic, index) => (
+            <Typography 
+              key={index} 
+              variant="body2" 
+              color={diagnostic.category === 'error' ? 'error.main' : 'warning.main'}
+              sx={{ fontFamily: 'monospace' }}
+            >
+              {diagnostic.line}:{diagnostic.column} TS{diagnostic.code}: {diagnostic.message}
+            </Typography>
+          ))}
+        </Box>
+      )}
+      
       {hints.length > 0 && (
         <Box sx={{ mb: 3 }}>
           <Button 
@@ -104,6 +204,54 @@ const TaskContent: React.FC<TaskContentProps> = ({
         </Box>
       )}
       
+      {testRun && (
+        <Box sx={{ mt: 3 }}>
+          <Divider sx={{ mb: 2 }} />
+          <Typography variant="h6" gutterBottom>
+            Test Results: {testRun.executed > 0 
+              ? `${testRun.passed}/${testRun.executed} passed` 
+              : 'no executable test cases'}
+          </Typography>
+          {testRun.results.map((result, index) => (
+            <Box 
+              key={index} 
+              sx={{ 
+                display: 'flex', 
+                alignItems: 'flex-start', 
+                gap: 1, 
+                mb: 1 
+              }}
+            >
+              <Chip 
+                label={result.status} 
+                color={statusColor(result.status)} 
+                size="small" 
+              />
+              <Box>
+                <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                  {result.testCase}
+                </Typography>
+                {result.message && result.status !== 'pass' && (
+                  <Typography variant="caption" color="text.secondary">
+                    {result.message}
+                  </Typography>
+                )}
+                {result.logs.length > 0 && (
+                  <Typography 
+                    variant="caption" 
+                    component="pre" 
+                    color="text.secondary" 
+                    sx={{ m: 0, whiteSpace: 'pre-wrap' }}
+                  >
+                    {result.logs.join('\n')}
+                  </Typography>
+                )}
+              </Box>
+            </Box>
+          ))}
+        </Box>
+      )}
+      
       {aiResponse && (
         <Box sx={{ mt: 3 }}>
           <Divider sx={{ mb: 2 }} />
@@ -14,9 +14,16 @@ import {
 } from '@mui/material';
 import { TaskItem } from '../../../index';
 import { useUserStore, useProgressStore } from '@/store';
-import { updateItemProgress, saveSubmission, getItemProgress } from '@/services/firestoreService';
-import { reviewCode } from '@/services/aiService';
+import { updateItemProgress, saveSubmission, getItemProgress, recordReview, recordMasteryAttempt } from '@/services/firestoreService';
+import { isAbortError } from '@/services/aiService';
+import { runTestCases } from '@/services/testRunnerService';
+import { runComponentTests } from '@/services/componentTestService';
+import { checkTypes, requiresTypeCheck } from '@/services/typeCheckService';
+import type { AIReviewResponse, TestRunSummary, TypeCheckResult } from '@/types';
 import TaskContent from './TaskContent';
+import ReviewStreamPanel from '@/components/review/ReviewStreamPanel';
+import ReviewerComparison from '@/components/review/ReviewerComparison';
+import { useReviewStream } from '@/components/review/useReviewStream';
 
 interface TaskRunnerProps {
   task: TaskItem;
@@ -33,8 +40,14 @@ const TaskRunner: React.FC<TaskRunnerProps> = ({ task }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [aiResponse, setAiResponse] = useState<string>('');
   const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
+  const [testRun, setTestRun] = useState<TestRunSummary | null>(null);
+  const [isRunningTests, setIsRunningTests] = useState(false);
+  const [typeCheck, setTypeCheck] = useState<TypeCheckResult | null>(null);
+  const [isTypeChecking, setIsTypeChecking] = useState(false);
   // Initialize with false since TaskItem doesn't have irrelevant property
   const [isIrrelevant, setIsIrrelevant] = useState(false);
+  const [review, setReview] = useState<AIReviewResponse | null>(null);
+  const { stream, isStreaming, startReview, cancelReview } = useReviewStream();
   
   // Check if this item is marked as irrelevant in user progress
   useEffect(() => {
@@ -70,44 +83,145 @@ const TaskRunner: React.FC<TaskRunnerProps> = ({ task }) => {
     }
   };
 
+  // Component tasks render the submission and replay interactions instead of calling functions
+  const isComponentTask = !!task.componentTests && task.componentTests.length > 0;
+  const hasTests = isComponentTask || task.testCases.length > 0;
+
+  const executeTests = async (): Promise<TestRunSummary | null> => {
+    if (!hasTests) {
+      return null;
+    }
+    
+    setIsRunningTests(true);
+    try {
+      const summary = isComponentTask
+        ? await runComponentTests(code, task.componentTests!)
+        : await runTestCases(code, task.testCases);
+      setTestRun(summary);
+      return summary;
+    } catch (error) {
+      console.error('Error running tests:', error);
+      return null;
+    } finally {
+      setIsRunningTests(false);
+    }
+  };
+
+  const handleRunTests = async () => {
+    await executeTests();
+  };
+
+  const needsTypeCheck = requiresTypeCheck(task);
+
+  const executeTypeCheck = async (): Promise<TypeCheckResult | null> => {
+    if (!needsTypeCheck) {
+      return null;
+    }
+    
+    setIsTypeChecking(true);
+    try {
+      const result = await checkTypes(code, true);
+      setTypeCheck(result);
+      return result;
+    } catch (error) {
+      console.error('Error checking types:', error);
+      return null;
+    } finally {
+      setIsTypeChecking(false);
+    }
+  };
+
+  const handleCheckTypes = async () => {
+    await executeTypeCheck();
+  };
+
   const handleSubmit = async () => {
     setIsSubmitting(true);
+    setReview(null);
     
     try {
-      const response = await reviewCode({
-        itemId: task.id,
-        type: 'task',
-        prompt: task.description,
-        userCode: code,
-        testCases: task.testCases
-      }, settings.aiReviewer);
+      const typeCheckResult = await executeTypeCheck();
+      
+      // Strict compile is a hard gate: don't spend an AI review on code that doesn't type-check
+      if (task.requireStrictCompile && (!typeCheckResult || !typeCheckResult.success)) {
+        setIsCorrect(false);
+        setAiResponse(typeCheckResult
+          ? 'This task requires the code to compile under strict mode. Fix the type errors above and submit again.'
+          : 'Type check could not be completed. Please try again.');
+        return;
+      }
+      
+      // Executable test cases grade the submission deterministically;
+      // the AI verdict is only used when there is nothing to execute
+      const summary = await executeTests();
+      const gradedByTests = summary !== null && summary.executed > 0;
       
-      setAiResponse(response.feedback);
-      setIsCorrect(response.isCorrect);
+      let correct = gradedByTests ? summary.allPassed : false;
+      let feedback = '';
+      let response: AIReviewResponse | null = null;
+      
+      try {
+        response = await startReview({
+          itemId: task.id,
+          type: 'task',
+          prompt: task.description,
+          userCode: code,
+          testCases: task.testCases
+        }, settings.aiReviewer, settings.reviewPolicy);
+        
+        feedback = response.feedback;
+        setReview(response);
+        if (!gradedByTests) {
+          correct = response.isCorrect;
+        }
+      } catch (error) {
+        if (!gradedByTests || isAbortError(error)) {
+          throw error;
+        }
+        console.error('AI review failed, using test results only:', error);
+        feedback = 'AI review is unavailable. This submission was graded by test execution only.';
+      }
+      
+      if (gradedByTests) {
+        feedback = `Tests passed: ${summary.passed}/${summary.executed}\n\n${feedback}`;
+      }
+      
+      setAiResponse(feedback);
+      setIsCorrect(correct);
       
       // Update progress in store and Firebase
       if (isAuthenticated && uid) {
         setCompleted(task.id, true);
-        if (!response.isCorrect) {
+        if (!correct) {
           setIncorrect(task.id, true);
         }
         
-        await updateItemProgress(
+        // Schedules the next spaced-repetition review
+        await recordReview(
           uid,
           task.id,
           'task',
-          'complete'
+          correct,
+          gradedByTests ? Math.round((summary.passed / summary.executed) * 100) : response?.score
         );
+        await recordMasteryAttempt(uid, task, correct);
         
         await saveSubmission(
           uid,
           task.id,
           code,
-          response.isCorrect ? 'pass' : 'fail',
-          response.feedback
+          correct ? 'pass' : 'fail',
+          feedback,
+          response
         );
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        // Cancelled mid-review: nothing is graded or saved
+        setIsCorrect(null);
+        setAiResponse('');
+        return;
+      }
       console.error('Error submitting code:', error);
     } finally {
       setIsSubmitting(false);
@@ -185,15 +299,26 @@ const TaskRunner: React.FC<TaskRunnerProps> = ({ task }) => {
           <TaskContent
             description={task.description}
             code={code}
+            language={needsTypeCheck ? 'typescript' : 'javascript'}
             hints={task.hints}
             showHints={showHints}
             currentHintIndex={currentHintIndex}
             aiResponse={aiResponse}
             isCorrect={isCorrect}
+            testRun={testRun}
+            diagnostics={typeCheck ? typeCheck.diagnostics : null}
             onCodeChange={handleCodeChange}
             onShowHintsToggle={() => setShowHints(!showHints)}
             onNextHint={handleShowNextHint}
           />
+          
+          {isStreaming && (
+            <ReviewStreamPanel stream={stream} onCancel={cancelReview} />
+          )}
+          
+          {review && !isStreaming && (
+            <ReviewerComparison review={review} />
+          )}
         </Collapse>
       </CardContent>
       
@@ -207,6 +332,30 @@ const TaskRunner: React.FC<TaskRunnerProps> = ({ task }) => {
             {expanded ? 'Collapse' : 'Expand'}
           </Button>
           
+          {expanded && needsTypeCheck && (
+            <Button 
+              size="small" 
+              color="info" 
+              onClick={handleCheckTypes}
+              disabled={isTypeChecking || isSubmitting || !code.trim()}
+              startIcon={isTypeChecking ? <CircularProgress size={16} /> : null}
+            >
+              {isTypeChecking ? 'Checking...' : 'Check Types'}
+            </Button>
+          )}
+          
+          {expanded && hasTests && (
+            <Button 
+              size="small" 
+              color="info" 
+              onClick={handleRunTests}
+              disabled={isRunningTests || isSubmitting || !code.trim()}
+              startIcon={isRunningTests ? <CircularProgress size={16} /> : null}
+            >
+              {isRunningTests ? 'Running...' : 'Run Tests'}
+            </Button>
+          )}
+          
           {expanded && (
             <Button 
               size="small" 
@@ -0,0 +1,254 @@
+/**
+ * ProgressAdapter Component for Runtime Adaptation
+ *
+ * Responsible for:
+ * - Relating a user's question/task results to curriculum items through the
+ *   dependency graph and the related items recorded in metadata
+ * - Moving weak prerequisites of failed items to the front
+ * - Compressing clusters (modules) the user has already mastered
+ */
+
+import fs from 'fs';
+import { DependencyGraph } from '../graphs/graphBuilder';
+import { ItemScore } from '../scoring/scoreCalculator';
+import type {
+  AdaptedCurriculum,
+  AdaptedCurriculumItem,
+  CompressedCluster,
+  LearningHistoryEntry
+} from '../../types';
+
+// Items need this many graded results before they count as mastered
+const MIN_MASTERY_EVIDENCE = 2;
+
+// Share of failed attempts a mastered item may still have
+const MAX_MASTERY_FAILURE_RATE = 0.2;
+
+// Share of a module's items that must be mastered to compress it
+const MASTERED_CLUSTER_RATIO = 0.7;
+
+// How far up the prerequisite chain a weakness propagates
+const MAX_PREREQUISITE_DEPTH = 2;
+
+interface CurriculumItem {
+  index: number;
+  id: string;
+  type: string;
+  moduleId?: string;
+  complexity?: number;
+  title: string;
+}
+
+interface RelatedItems {
+  id: string;
+  relatedQuestions?: string[];
+  relatedTasks?: string[];
+}
+
+type ItemState = 'weak' | 'mastered' | 'unknown';
+
+// Parsed files are reused until they change on disk
+const fileCache = new Map<string, { mtimeMs: number; data: any }>();
+
+const readJsonCached = async (filePath: string): Promise<any> => {
+  const stats = await fs.promises.stat(filePath);
+  const cached = fileCache.get(filePath);
+  if (cached && cached.mtimeMs === stats.mtimeMs) {
+    return cached.data;
+  }
+
+  const data = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+  fileCache.set(filePath, { mtimeMs: stats.mtimeMs, data });
+  return data;
+};
+
+export class ProgressAdapter {
+  private curriculumPath: string;
+  private scoresPath: string;
+  private dependencyGraphPath: string;
+  private metadataPath: string;
+
+  constructor(config: {
+    curriculumPath: string;
+    scoresPath: string;
+    dependencyGraphPath: string;
+    metadataPath: string;
+  }) {
+    this.curriculumPath = config.curriculumPath;
+    this.scoresPath = config.scoresPath;
+    this.dependencyGraphPath = config.dependencyGraphPath;
+    this.metadataPath = config.metadataPath;
+  }
+
+  /**
+   * Produce a personalized ordering of curriculum.json
+   */
+  public async adapt(history: LearningHistoryEntry[]): Promise<AdaptedCurriculum> {
+    // Before the pipeline has run there is nothing to order
+    const curriculum: CurriculumItem[] = fs.existsSync(this.curriculumPath)
+      ? await readJsonCached(this.curriculumPath)
+      : [];
+    const scores = await this.loadScores();
+    const graph = await this.loadDependencyGraph();
+    const related = await this.loadRelatedItems();
+
+    const historyById = new Map(history.map(entry => [entry.itemId, entry]));
+    const curriculumIds = new Set(curriculum.map(item => item.id));
+
+    // Prerequisite edges in both directions
+    const dependents = new Map<string, Set<string>>();
+    const prerequisites = new Map<string, Set<string>>();
+    for (const edge of graph.edges) {
+      if (!dependents.has(edge.source)) dependents.set(edge.source, new Set());
+      if (!prerequisites.has(edge.target)) prerequisites.set(edge.target, new Set());
+      dependents.get(edge.source)!.add(edge.target);
+      prerequisites.get(edge.target)!.add(edge.source);
+    }
+    related.forEach((relatedIds, id) => {
+      if (!dependents.has(id)) dependents.set(id, new Set());
+      relatedIds.forEach(relatedId => dependents.get(id)!.add(relatedId));
+    });
+
+    // Classify each curriculum item from its own results and its dependents'
+    const states = new Map<string, ItemState>();
+    const failedDependents = new Map<string, string[]>();
+
+    for (const item of curriculum) {
+      const evidence = [item.id, ...Array.from(dependents.get(item.id) || [])]
+        .map(id => historyById.get(id))
+        .filter((entry): entry is LearningHistoryEntry => !!entry && entry.attempts > 0 && !entry.irrelevant);
+
+      const failed = evidence.filter(entry => entry.lastResult === 'fail');
+      const attempts = evidence.reduce((sum, entry) => sum + entry.attempts, 0);
+      const failures = evidence.reduce((sum, entry) => sum + entry.failures, 0);
+
+      if (failed.length > 0) {
+        states.set(item.id, 'weak');
+        failedDependents.set(item.id, failed.map(entry => entry.itemId));
+      } else if (attempts >= MIN_MASTERY_EVIDENCE && failures / attempts <= MAX_MASTERY_FAILURE_RATE) {
+        states.set(item.id, 'mastered');
+      } else {
+        states.set(item.id, 'unknown');
+      }
+    }
+
+    // Weakness spreads to prerequisites the user hasn't shown mastery of
+    let frontier = curriculum.filter(item => states.get(item.id) === 'weak').map(item => item.id);
+    for (let depth = 0; depth < MAX_PREREQUISITE_DEPTH && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        prerequisites.get(id)?.forEach(prerequisiteId => {
+          if (curriculumIds.has(prerequisiteId) && states.get(prerequisiteId) === 'unknown') {
+            states.set(prerequisiteId, 'weak');
+            next.push(prerequisiteId);
+          }
+        });
+      }
+      frontier = next;
+    }
+
+    const toAdapted = (item: CurriculumItem, reason: AdaptedCurriculumItem['reason']): AdaptedCurriculumItem => ({
+      id: item.id,
+      index: item.index,
+      title: item.title,
+      type: item.type,
+      moduleId: item.moduleId || 'general',
+      complexity: item.complexity || 0,
+      reason,
+      ...(failedDependents.has(item.id) ? { failedItemIds: failedDependents.get(item.id) } : {})
+    });
+
+    // Foundations first: shallow prerequisite depth, then higher composite score
+    const weakItems = curriculum
+      .filter(item => states.get(item.id) === 'weak')
+      .sort((a, b) => {
+        const scoreA = scores.get(a.id);
+        const scoreB = scores.get(b.id);
+        return (scoreA?.prerequisiteDepth ?? 0) - (scoreB?.prerequisiteDepth ?? 0) ||
+               (scoreB?.compositeScore ?? 0) - (scoreA?.compositeScore ?? 0) ||
+               a.index - b.index;
+      });
+
+    const compressedClusters = this.findMasteredClusters(curriculum, states, scores);
+    const compressedIds = new Set(compressedClusters.flatMap(cluster => cluster.itemIds));
+    const refresherIds = new Set(compressedClusters.map(cluster => cluster.keptItemId));
+
+    const remaining = curriculum
+      .filter(item => states.get(item.id) !== 'weak' && !compressedIds.has(item.id))
+      .map(item => toAdapted(item, refresherIds.has(item.id) ? 'mastered-refresher' : 'in-order'));
+
+    return {
+      items: [...weakItems.map(item => toAdapted(item, 'weak-prerequisite')), ...remaining],
+      weakItemIds: weakItems.map(item => item.id),
+      compressedClusters,
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Modules that are mostly mastered and have no weak items collapse to
+   * their highest scoring item, kept as a refresher
+   */
+  private findMasteredClusters(
+    curriculum: CurriculumItem[],
+    states: Map<string, ItemState>,
+    scores: Map<string, ItemScore>
+  ): CompressedCluster[] {
+    const modules = new Map<string, CurriculumItem[]>();
+    for (const item of curriculum) {
+      const moduleId = item.moduleId || 'general';
+      if (!modules.has(moduleId)) modules.set(moduleId, []);
+      modules.get(moduleId)!.push(item);
+    }
+
+    const clusters: CompressedCluster[] = [];
+    modules.forEach((items, moduleId) => {
+      const mastered = items.filter(item => states.get(item.id) === 'mastered');
+      const hasWeak = items.some(item => states.get(item.id) === 'weak');
+      if (items.length < 2 || hasWeak || mastered.length / items.length < MASTERED_CLUSTER_RATIO) {
+        return;
+      }
+
+      const kept = [...items].sort((a, b) =>
+        (scores.get(b.id)?.compositeScore ?? 0) - (scores.get(a.id)?.compositeScore ?? 0)
+      )[0];
+
+      clusters.push({
+        moduleId,
+        keptItemId: kept.id,
+        itemIds: items.filter(item => item.id !== kept.id).map(item => item.id)
+      });
+    });
+
+    return clusters;
+  }
+
+  private async loadScores(): Promise<Map<string, ItemScore>> {
+    if (!fs.existsSync(this.scoresPath)) {
+      console.warn(`ProgressAdapter: Scores file not found at ${this.scoresPath}`);
+      return new Map();
+    }
+    const data = await readJsonCached(this.scoresPath);
+    const scores: ItemScore[] = Array.isArray(data.scores) ? data.scores : Object.values(data.scores || data);
+    return new Map(scores.map(score => [score.id, score]));
+  }
+
+  private async loadDependencyGraph(): Promise<DependencyGraph> {
+    if (!fs.existsSync(this.dependencyGraphPath)) {
+      console.warn(`ProgressAdapter: Dependency graph not found at ${this.dependencyGraphPath}`);
+      return { nodes: [], edges: [] };
+    }
+    return readJsonCached(this.dependencyGraphPath);
+  }
+
+  private async loadRelatedItems(): Promise<Map<string, string[]>> {
+    if (!fs.existsSync(this.metadataPath)) {
+      return new Map();
+    }
+    const metadata = await readJsonCached(this.metadataPath);
+    const items: RelatedItems[] = metadata.items || [];
+    return new Map(items
+      .filter(item => item.relatedQuestions?.length || item.relatedTasks?.length)
+      .map(item => [item.id, [...(item.relatedQuestions || []), ...(item.relatedTasks || [])]]));
+  }
+}
@@ -11,6 +11,8 @@ import fs from 'fs';
 import path from 'path';
 import { AggregatedItem } from './aggregator';
 import { CurriculumPaths } from '../utils/curriculumPaths';
+import { TestCaseMigrator } from '../metadata/testCaseMigrator';
+import { TestCase } from '../../../index';
 
 // Interface for database item structure
 interface DatabaseItem {
@@ -34,6 +36,7 @@ interface DatabaseItem {
     content: string;
     solution?: string;
     tests?: string[];
+    testCases?: TestCase[];
     constraints?: string[];
     hints?: string[];
   }>;
@@ -132,6 +135,8 @@ export class CurriculumWriter {
         
         // Transform to lookup by ID format
         const databaseMap: Record<string, DatabaseItem> = {};
+        let convertedTestCases = 0;
+        let fallbackTestCases = 0;
         
         // Process items and extract all theory/question/task elements
         rawData.forEach((item: any) => {
@@ -178,6 +183,11 @@ export class CurriculumWriter {
           if (item?.content?.tasks && Array.isArray(item.content.tasks)) {
             item.content.tasks.forEach((taskItem: any) => {
               if (taskItem?.id) {
+                // Convert legacy string test cases into executable ones where possible
+                const migration = TestCaseMigrator.migrateAll(taskItem.testCases || taskItem.tests);
+                convertedTestCases += migration.converted;
+                fallbackTestCases += migration.fallback;
+                
                 databaseMap[taskItem.id] = {
                   id: taskItem.id,
                   title: taskItem.title || 'Task',
@@ -186,6 +196,7 @@ export class CurriculumWriter {
                   content: taskItem.content,
                   solution: taskItem.solution,
                   tests: taskItem.tests,
+                  testCases: migration.testCases,
                   constraints: taskItem.constraints,
                   hints: taskItem.hints,
                   complexity: taskItem.complexity,
@@ -198,6 +209,7 @@ export class CurriculumWriter {
         
         const itemCount = Object.keys(databaseMap).length;
         console.log(`CurriculumWriter: Transformed database with ${itemCount} items`);
+        console.log(`CurriculumWriter: Migrated test cases - ${convertedTestCases} structured, ${fallbackTestCases} kept as text`);
         return databaseMap;
       }
       
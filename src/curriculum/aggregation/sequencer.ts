@@ -3,13 +3,13 @@
  * 
  * Responsible for:
  * - Optional final AI pass to refine the overall sequence
- * - Uses Gemini AI to improve the final curriculum flow
+ * - Uses the configured LLM provider to improve the final curriculum flow
  */
 
 import path from 'path';
 import fs from 'fs';
 import { AggregatedItem } from './aggregator';
-import { callGeminiAPI } from '@/services/aiService';
+import { resolveProvider } from '@/services/llm';
 
 export class Sequencer {
   private aggregatedItemsPath: string;
@@ -88,7 +88,7 @@ export class Sequencer {
       
       // Call the AI service
       console.log('Sequencer: Calling AI to refine curriculum sequence');
-      const response = await callGeminiAPI(prompt);
+      const response = await resolveProvider('pipeline').generate(prompt);
       
       // Parse the AI response
       return this.parseAIResponse(response, items);
@@ -1,17 +1,18 @@
 /**
  * AIClient
  * 
- * Handles communication with Gemini API for curriculum generation
+ * Handles communication with the configured LLM provider for curriculum generation
  */
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
-import axios from 'axios';
+import { LLMProvider, resolveProvider } from '@/services/llm';
 
 /**
  * Configuration for AI client
  */
 export interface AIClientConfig {
+  provider?: string; // LLM_PIPELINE_PROVIDER overrides it; defaults to LLM_PROVIDER, then Gemini
   apiKey: string;
   model: string;
+  baseUrl?: string;
   maxRetries: number;
   retryDelayMs: number;
   timeoutMs: number;
@@ -21,21 +22,21 @@ export interface AIClientConfig {
  * Default configuration
  */
 const DEFAULT_CONFIG: AIClientConfig = {
-  apiKey: process.env.NEXT_PUBLIC_GEMINI_API_KEY || '',
-  model: 'gemini-2.5-flash-preview-05-20',
+  apiKey: '',
+  model: '',
   maxRetries: 3,
   retryDelayMs: 1000,
-  timeoutMs: 120000 // 2 minutes
+  timeoutMs: 600000 // 10 minutes
 };
 
 /**
  * AIClient class
  * 
- * Handles authentication, rate-limits, and retries for Gemini API calls
+ * Handles retries and JSON extraction on top of an LLM provider
  */
 export class AIClient {
   private config: AIClientConfig;
-  private genAI: GoogleGenerativeAI;
+  private provider: LLMProvider;
   
   /**
    * Constructor
@@ -43,80 +44,41 @@ export class AIClient {
    */
   constructor(config: Partial<AIClientConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.provider = this.createProvider();
     
-    if (!this.config.apiKey) {
-      throw new Error('AIClient: Gemini API key is required');
-    }
-    
-    this.genAI = new GoogleGenerativeAI(this.config.apiKey);
-    
-    console.log(`AIClient: Initialized with model ${this.config.model}`);
+    console.log(`AIClient: Initialized with provider ${this.provider.name} and model ${this.provider.model}`);
   }
   
   /**
-   * Send a prompt to the Gemini API
+   * Resolve the provider from configuration, falling back to environment settings
+   */
+  private createProvider(): LLMProvider {
+    return resolveProvider('pipeline', this.config.provider, {
+      apiKey: this.config.apiKey,
+      model: this.config.model,
+      baseUrl: this.config.baseUrl,
+      timeoutMs: this.config.timeoutMs
+    });
+  }
+  
+  /**
+   * Send a prompt to the LLM provider
    * @param prompt The prompt to send
    * @returns The response from the API
    */
   async sendPrompt(prompt: string): Promise<any> {
     try {
-      console.log(`AIClient: Sending prompt to Gemini API (direct axios call)`);
+      console.log(`AIClient: Sending prompt to ${this.provider.name} (${this.provider.model})`);
       console.log('AIClient: Full prompt:', prompt);
-      
-      // Define the Gemini API URL
-      const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-05-20:generateContent`;
-      
-      // Build the request payload
-      const requestPayload = {
-        contents: [
-          { 
-            role: "user",
-            parts: [
-              {
-                text: prompt
-              }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: 1.0,
-          maxOutputTokens: 62000,
-          topP: 0.95,
-        },
-      };
-      
       console.log('AIClient: Starting API request at:', new Date().toISOString());
-      console.log('AIClient: Request URL:', `${GEMINI_API_URL}?key=[API_KEY_REDACTED]`);
-      console.log('AIClient: Request payload:', JSON.stringify(requestPayload, null, 2));
       
-      // Send the request via axios
-      const response = await axios.post(
-        `${GEMINI_API_URL}?key=${this.config.apiKey}`,
-        requestPayload,
-        {
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          timeout: 600000 // 10 minute timeout
-        }
-      );
+      const text = await this.provider.generate(prompt, {
+        temperature: 1.0,
+        maxTokens: 62000
+      });
       
       console.log('AIClient: Completed API request at:', new Date().toISOString());
-      console.log('AIClient: Response status:', response.status);
-      
-      // Extract the text from the response
-      const responseData = response.data;
-      let text = '';
-      
-      // Extract text from the Gemini response format
-      if (responseData.candidates && 
-          responseData.candidates[0] && 
-          responseData.candidates[0].content && 
-          responseData.candidates[0].content.parts) {
-        text = responseData.candidates[0].content.parts[0].text || '';
-      }
-      
-      console.log('AIClient: Received response from Gemini API');
+      console.log(`AIClient: Received response from ${this.provider.name}`);
       console.log('AIClient: Raw response:', text.substring(0, 500) + '...' + (text.length > 1000 ? text.substring(text.length - 500) : ''));
       
       // Try to extract JSON from a code block in the response if direct parsing fails
@@ -160,24 +122,17 @@ export class AIClient {
       }
     } catch (error) {
       console.error('AIClient: Error sending prompt:', error);
-      if (axios.isAxiosError(error)) {
-        console.error('AIClient: Axios error details:', {
-          status: error.response?.status,
-          statusText: error.response?.statusText,
-          data: error.response?.data
-        });
-      }
       throw error;
     }
   }
   
   /**
-   * Process a prompt with Gemini
-   * @param prompt Prompt to send to Gemini
-   * @returns JSON response from Gemini
+   * Process a prompt with the configured provider
+   * @param prompt Prompt to send to the provider
+   * @returns JSON response from the provider
    */
   public async processPrompt(prompt: string): Promise<any> {
-    console.log('AIClient: Processing prompt with Gemini');
+    console.log(`AIClient: Processing prompt with ${this.provider.name}`);
     
     let attempt = 0;
     let lastError: Error | null = null;
@@ -215,9 +170,9 @@ export class AIClient {
   public updateConfig(config: Partial<AIClientConfig>): void {
     this.config = { ...this.config, ...config };
     
-    // Reinitialize the client if the API key or model changed
-    if (config.apiKey || config.model) {
-      this.genAI = new GoogleGenerativeAI(this.config.apiKey);
+    // Recreate the provider if its settings changed
+    if (config.provider || config.apiKey || config.model || config.baseUrl || config.timeoutMs) {
+      this.provider = this.createProvider();
     }
   }
 }
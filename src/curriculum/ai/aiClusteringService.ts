@@ -19,6 +19,7 @@ export interface AIClusteringConfig {
   chunksOutputDir: string;
   resultsOutputDir: string;
   chunkPrefix: string;
+  provider?: string; // LLM provider name, see src/services/llm
   apiKey: string;
   model: string;
 }
@@ -31,8 +32,8 @@ const DEFAULT_CONFIG: AIClusteringConfig = {
   chunksOutputDir: CurriculumPaths.getChunksDir(),
   resultsOutputDir: path.join(CurriculumPaths.getCurriculumDir(), 'results'),
   chunkPrefix: 'chunk',
-  apiKey: process.env.NEXT_PUBLIC_GEMINI_API_KEY || '',
-  model: 'gemini-2.5-flash-preview-05-20'
+  apiKey: '', // Empty values fall back to the provider's environment config
+  model: ''
 };
 
 /**
@@ -64,6 +65,7 @@ export class AIClusteringService {
     this.promptBuilder = new PromptBuilder();
     
     this.aiClient = new AIClient({
+      provider: this.config.provider,
       apiKey: this.config.apiKey,
       model: this.config.model
     });
@@ -106,8 +108,9 @@ export class AIClusteringService {
       
       // Step 2: Process each chunk with AI
       console.log('AIClusteringService: Processing chunks with AI at', new Date().toISOString());
-      console.log('AIClusteringService: Using API key:', this.config.apiKey ? '****' + this.config.apiKey.substring(this.config.apiKey.length - 4) : 'undefined');
-      console.log('AIClusteringService: Using model:', this.config.model);
+      console.log('AIClusteringService: Using API key:', this.config.apiKey ? '****' + this.config.apiKey.substring(this.config.apiKey.length - 4) : 'from environment');
+      console.log('AIClusteringService: Using provider:', this.config.provider || 'from environment');
+      console.log('AIClusteringService: Using model:', this.config.model || 'provider default');
       
       const chunkResults: ProcessedChunkResult[] = [];
       let totalItems = 0;
@@ -292,8 +295,9 @@ export class AIClusteringService {
       );
     }
     
-    if (config.apiKey || config.model) {
+    if (config.provider || config.apiKey || config.model) {
       this.aiClient.updateConfig({
+        provider: this.config.provider,
         apiKey: this.config.apiKey,
         model: this.config.model
       });
@@ -17,6 +17,8 @@ import { GraphBuilder } from './graphs/graphBuilder';
 import { ScoreCalculator } from './scoring/scoreCalculator';
 import { ExtractedMetadata } from './types/metadata';
 import { CurriculumPaths } from './utils/curriculumPaths';
+import { ProgressAdapter } from './adaptation/progressAdapter';
+import type { AdaptedCurriculum, LearningHistoryEntry } from '../types';
 
 /**
  * Main class for curriculum generation
@@ -211,12 +213,25 @@ export class CurriculumGenerator {
   
   /**
    * Phase 4: Runtime adaptation
-   * - Not implemented yet
-   * - Will track user performance and adapt curriculum
+   * - Relate the user's results to curriculum items via the dependency graph
+   * - Move weak prerequisites of failed items earlier
+   * - Compress clusters the user has already mastered
+   * Without history the curriculum order is returned unchanged
    */
-  public static async adaptToUserProgress(): Promise<void> {
-    console.log('Phase 4: Runtime adaptation not yet implemented');
-    // This will be implemented in a future update
+  public static async adaptToUserProgress(history: LearningHistoryEntry[] = []): Promise<AdaptedCurriculum> {
+    try {
+      const adapter = new ProgressAdapter({
+        curriculumPath: CurriculumPaths.getCurriculumPath(),
+        scoresPath: CurriculumPaths.getScoresPath(),
+        dependencyGraphPath: CurriculumPaths.getDependencyGraphPath(),
+        metadataPath: CurriculumPaths.getMetadataPath()
+      });
+      
+      return await adapter.adapt(history);
+    } catch (error) {
+      console.error('CurriculumGenerator: Error adapting curriculum to user progress:', error);
+      throw error;
+    }
   }
   
   /**
@@ -249,9 +264,10 @@ export class CurriculumGenerator {
       await this.aggregateAndAssemble();
       console.log('Step 5 placeholder complete');
       
-      // Step 6: Runtime adaptation (placeholder)
-      await this.adaptToUserProgress();
-      console.log('Step 6 placeholder complete');
+      // Step 6: Runtime adaptation happens per user through /api/curriculum/adapt;
+      // without history this just checks the assembled curriculum can be read
+      const adapted = await this.adaptToUserProgress();
+      console.log('Step 6 complete:', adapted.items.length, 'items in default order');
       
       console.log('Curriculum generation complete');
       
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { TestCaseMigrator } from '../testCaseMigrator';
+
+describe('TestCaseMigrator.migrate', () => {
+  it('maps toBe to strict equality and toEqual to deep equality', () => {
+    expect(TestCaseMigrator.migrate('expect(sum(1, 2)).toBe(3);')).toEqual({
+      description: 'expect(sum(1, 2)).toBe(3);',
+      input: 'sum(1, 2)',
+      expected: '3',
+      comparator: 'strict-equal'
+    });
+    expect(TestCaseMigrator.migrate('expect(pair(1)).toEqual([1, 1])')).toMatchObject({
+      input: 'pair(1)',
+      expected: '[1, 1]',
+      comparator: 'deep-equal'
+    });
+  });
+
+  it('unwraps toThrow callbacks and keeps the message', () => {
+    expect(TestCaseMigrator.migrate('expect(() => parse("")).toThrow("Empty input")')).toMatchObject({
+      input: 'parse("")',
+      expected: '"Empty input"',
+      comparator: 'throws'
+    });
+  });
+
+  it('maps toBeCloseTo to an approximate comparison', () => {
+    expect(TestCaseMigrator.migrate('expect(average([1, 2])).toBeCloseTo(1.5)')).toMatchObject({ comparator: 'approx' });
+  });
+
+  it('converts prose and comparisons that call the submission', () => {
+    expect(TestCaseMigrator.migrate('sum(1, 2) should return 3')).toMatchObject({ input: 'sum(1, 2)', expected: '3', comparator: 'deep-equal' });
+    expect(TestCaseMigrator.migrate('`reverse("ab")` returns `"ba"`')).toMatchObject({ input: 'reverse("ab")', expected: '"ba"' });
+    expect(TestCaseMigrator.migrate('add(1, 2) === 3')).toMatchObject({ input: 'add(1, 2)', expected: '3' });
+    expect(TestCaseMigrator.migrate('divide(1, 0) should throw "Division by zero"')).toMatchObject({ comparator: 'throws', expected: '"Division by zero"' });
+  });
+
+  it('keeps prose whose subject is a bare word', () => {
+    expect(TestCaseMigrator.migrate('Output should be 5')).toBe('Output should be 5');
+    expect(TestCaseMigrator.migrate('It returns true')).toBe('It returns true');
+    expect(TestCaseMigrator.migrate('result === 3')).toBe('result === 3');
+  });
+
+  it('keeps strings that are not valid expressions', () => {
+    expect(TestCaseMigrator.migrate('sum(1, 2 should return 3')).toBe('sum(1, 2 should return 3');
+    expect(TestCaseMigrator.migrate('Handles empty arrays gracefully')).toBe('Handles empty arrays gracefully');
+  });
+
+  it('leaves structured test cases untouched', () => {
+    const structured = { description: 'd', input: 'f()', comparator: 'deep-equal' as const };
+    expect(TestCaseMigrator.migrate(structured)).toBe(structured);
+  });
+});
+
+describe('TestCaseMigrator.migrateAll', () => {
+  it('counts converted and fallback cases and skips non-test values', () => {
+    const result = TestCaseMigrator.migrateAll(['sum(1, 2) === 3', 'Works for large inputs', 42, null]);
+    expect(result.converted).toBe(1);
+    expect(result.fallback).toBe(1);
+    expect(result.testCases).toHaveLength(2);
+  });
+
+  it('returns nothing for a non-array', () => {
+    expect(TestCaseMigrator.migrateAll('sum(1, 2) === 3')).toEqual({ testCases: [], converted: 0, fallback: 0 });
+  });
+});
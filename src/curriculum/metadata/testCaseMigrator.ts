@@ -0,0 +1,190 @@
+/**
+ * Test Case Migrator
+ *
+ * Converts legacy free-form test case strings into structured test cases
+ * that the in-browser test runner can execute. Strings that can't be
+ * converted reliably are kept as-is so the AI reviewer can still use them.
+ */
+import { transform } from 'sucrase';
+import { StructuredTestCase, TestCase } from '../../../index';
+
+/**
+ * Result of migrating a list of test cases
+ */
+export interface TestCaseMigrationResult {
+  testCases: TestCase[];
+  converted: number;
+  fallback: number;
+}
+
+/**
+ * Patterns for assertion-style test cases, e.g. "expect(sum(1, 2)).toBe(3)"
+ */
+const EXPECT_PATTERN = /^expect\(([\s\S]+)\)\.(toBe|toEqual|toStrictEqual|toBeCloseTo|toThrow)\(([\s\S]*)\);?$/;
+
+/**
+ * Patterns for comparison-style test cases, e.g. "sum(1, 2) === 3"
+ */
+const COMPARISON_PATTERN = /^([\s\S]+?)\s*={2,3}\s*([\s\S]+?);?$/;
+
+/**
+ * Patterns for prose test cases, e.g. "sum(1, 2) should return 3"
+ */
+const PROSE_RETURN_PATTERN = /^(?:calling\s+)?`?([\s\S]+?)`?\s+(?:should\s+(?:return|equal|be)|returns|=>|->|→)\s+`?([\s\S]+?)`?\.?$/i;
+const PROSE_THROW_PATTERN = /^(?:calling\s+)?`?([\s\S]+?)`?\s+(?:should\s+throw|throws)(?:\s+(?:an?\s+)?(?:error)?)?(?:\s+["'`]([^"'`]+)["'`])?\.?$/i;
+
+/**
+ * Something the submission has to compute: a call, member access or operator.
+ * Prose subjects such as "Output" or "It" parse as identifiers but would only
+ * throw a ReferenceError at runtime.
+ */
+const COMPUTATION_PATTERN = /[A-Za-z_$][\w$]*\s*(?:\(|\.|\[)|[+\-*/%<>!&|^~?]/;
+
+/**
+ * TestCaseMigrator class
+ */
+export class TestCaseMigrator {
+  /**
+   * Check whether a snippet is a syntactically valid JavaScript expression.
+   * The snippet is only parsed, never compiled or executed.
+   */
+  private static isExpression(source: string): boolean {
+    if (!source.trim()) {
+      return false;
+    }
+
+    try {
+      transform(`(${source}\n);`, { transforms: [] });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Build a structured test case from prose or a bare comparison, only when
+   * the input actually exercises the submission
+   */
+  private static buildFromProse(
+    original: string,
+    input: string,
+    expected: string | undefined,
+    comparator: StructuredTestCase['comparator']
+  ): StructuredTestCase | null {
+    return COMPUTATION_PATTERN.test(input) ? this.build(original, input, expected, comparator) : null;
+  }
+
+  /**
+   * Build a structured test case when both sides are valid expressions
+   */
+  private static build(
+    original: string,
+    input: string,
+    expected: string | undefined,
+    comparator: StructuredTestCase['comparator']
+  ): StructuredTestCase | null {
+    const trimmedInput = input.trim();
+    const trimmedExpected = expected?.trim();
+
+    if (!this.isExpression(trimmedInput)) {
+      return null;
+    }
+
+    if (trimmedExpected !== undefined && trimmedExpected !== '' && !this.isExpression(trimmedExpected)) {
+      return null;
+    }
+
+    const testCase: StructuredTestCase = {
+      description: original,
+      input: trimmedInput,
+      comparator
+    };
+
+    if (trimmedExpected) {
+      testCase.expected = trimmedExpected;
+    }
+
+    return testCase;
+  }
+
+  /**
+   * Convert a single test case. Returns the original string if it can't be converted.
+   */
+  public static migrate(testCase: TestCase): TestCase {
+    if (typeof testCase !== 'string') {
+      return testCase;
+    }
+
+    const source = testCase.trim();
+
+    const expectMatch = source.match(EXPECT_PATTERN);
+    if (expectMatch) {
+      const [, actual, matcher, expected] = expectMatch;
+
+      if (matcher === 'toThrow') {
+        // expect(() => fn()).toThrow() - unwrap the arrow function to get the input
+        const input = actual.replace(/^\(\s*\)\s*=>\s*/, '');
+        const message = expected.trim().match(/^["'`]([\s\S]*)["'`]$/);
+        return this.build(source, input, message ? JSON.stringify(message[1]) : undefined, 'throws') || testCase;
+      }
+
+      if (matcher === 'toBeCloseTo') {
+        return this.build(source, actual, expected, 'approx') || testCase;
+      }
+
+      return this.build(source, actual, expected, matcher === 'toBe' ? 'strict-equal' : 'deep-equal') || testCase;
+    }
+
+    const throwMatch = source.match(PROSE_THROW_PATTERN);
+    if (throwMatch) {
+      const [, input, message] = throwMatch;
+      return this.buildFromProse(source, input, message ? JSON.stringify(message) : undefined, 'throws') || testCase;
+    }
+
+    const proseMatch = source.match(PROSE_RETURN_PATTERN);
+    if (proseMatch) {
+      const [, input, expected] = proseMatch;
+      return this.buildFromProse(source, input, expected, 'deep-equal') || testCase;
+    }
+
+    const comparisonMatch = source.match(COMPARISON_PATTERN);
+    if (comparisonMatch) {
+      const [, input, expected] = comparisonMatch;
+      return this.buildFromProse(source, input, expected, 'deep-equal') || testCase;
+    }
+
+    return testCase;
+  }
+
+  /**
+   * Convert a list of test cases, keeping count of what could be converted
+   */
+  public static migrateAll(testCases: unknown): TestCaseMigrationResult {
+    const result: TestCaseMigrationResult = {
+      testCases: [],
+      converted: 0,
+      fallback: 0
+    };
+
+    if (!Array.isArray(testCases)) {
+      return result;
+    }
+
+    for (const testCase of testCases) {
+      if (typeof testCase !== 'string' && (typeof testCase !== 'object' || testCase === null)) {
+        continue;
+      }
+
+      const migrated = this.migrate(testCase as TestCase);
+      result.testCases.push(migrated);
+
+      if (typeof migrated === 'string') {
+        result.fallback++;
+      } else {
+        result.converted++;
+      }
+    }
+
+    return result;
+  }
+}
@@ -32,6 +32,12 @@ export class CurriculumPaths {
     return path.join(this.getCurriculumDir(), 'graphs.json');
   }
   
+  // The graphs.json index stores absolute paths from the machine that built it,
+  // so runtime readers resolve the graph files next to it instead
+  static getDependencyGraphPath(): string {
+    return path.join(this.getCurriculumDir(), 'graphs-dependency.json');
+  }
+  
   // Scores paths
   static getScoresPath(): string {
     return path.join(this.getCurriculumDir(), 'scores.json');
@@ -329,9 +329,6 @@ export class MetadataService {
       console.log('MetadataService: Processing chunks with AI at', new Date().toISOString());
       console.log('MetadataService: Sending POST request to /api/curriculum/process-chunks');
       
-      // Log environment variable availability (not the actual value for security)
-      console.log('MetadataService: NEXT_PUBLIC_GEMINI_API_KEY exists:', !!process.env.NEXT_PUBLIC_GEMINI_API_KEY);
-      
       // Create request object for logging
       const requestOptions = {
         method: 'POST',
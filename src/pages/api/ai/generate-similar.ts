@@ -0,0 +1,61 @@
+/**
+ * API endpoint for generating practice items similar to ones the user got wrong
+ */
+import { NextApiRequest, NextApiResponse } from 'next';
+import type { QuestionItem, TaskItem } from '@/types';
+import { requireUser } from '@/services/server/firebaseAuth';
+import { enforceQuota, refundQuota } from '@/services/server/aiQuota';
+import { generateSimilarWithProvider } from '@/services/server/aiProviderService';
+
+// Items generated per request; each one is a separate provider call
+const MAX_ITEMS = 10;
+
+const MODELS = ['deepseek', 'gemini', 'both'] as const;
+
+const inferItemType = (item: QuestionItem | TaskItem): 'question' | 'task' =>
+  'type' in item || 'options' in item ? 'question' : 'task';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireUser(req, res);
+  if (!user) {
+    return;
+  }
+
+  const { items, itemType, aiModel = 'gemini' } = req.body || {};
+
+  if (!Array.isArray(items) || items.length === 0 || items.some(item => !item || typeof item !== 'object')) {
+    return res.status(400).json({ error: 'Request body must include a non-empty items array' });
+  }
+
+  if (items.length > MAX_ITEMS) {
+    return res.status(413).json({ error: `At most ${MAX_ITEMS} items can be generated per request` });
+  }
+
+  if (!MODELS.includes(aiModel) || (itemType !== undefined && itemType !== 'question' && itemType !== 'task')) {
+    return res.status(400).json({ error: 'Invalid aiModel or itemType' });
+  }
+
+  if (!enforceQuota(res, user.uid, 'generate', items.length)) {
+    return;
+  }
+
+  const generated: (QuestionItem | TaskItem)[] = [];
+  try {
+    for (const item of items as (QuestionItem | TaskItem)[]) {
+      generated.push(await generateSimilarWithProvider(itemType || inferItemType(item), item, aiModel));
+    }
+    return res.status(200).json({ items: generated });
+  } catch (error: any) {
+    console.error('Error generating similar items:', error);
+    // Items generated before the failure were provider calls that went through
+    refundQuota(user.uid, 'generate', items.length - generated.length);
+    return res.status(502).json({ error: error.message || 'Failed to generate similar items' });
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * API endpoint for the AI interviewer: follow-up probes and the final scorecard
+ */
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '@/services/server/firebaseAuth';
+import { enforceQuota, refundQuota } from '@/services/server/aiQuota';
+import { requestFollowUp, requestScorecard } from '@/services/server/interviewService';
+
+// Upper bound for the questions and transcript sent in one request
+const MAX_INTERVIEW_INPUT_LENGTH = 100000;
+
+const MODELS = ['deepseek', 'gemini', 'both'] as const;
+
+const isQuestion = (question: any): boolean =>
+  !!question && typeof question.id === 'string' && typeof question.question === 'string' &&
+  Array.isArray(question.keyConcepts) && Array.isArray(question.analysisPoints);
+
+const isTranscript = (turns: any): boolean =>
+  Array.isArray(turns) && turns.every(turn =>
+    (turn?.role === 'interviewer' || turn?.role === 'candidate') && typeof turn.text === 'string');
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireUser(req, res);
+  if (!user) {
+    return;
+  }
+
+  const { action, question, questions, transcript, aiModel = 'gemini' } = req.body || {};
+
+  const isFollowUp = action === 'follow-up' && isQuestion(question);
+  const isScorecard = action === 'scorecard' && Array.isArray(questions) && questions.length > 0 && questions.every(isQuestion);
+  if ((!isFollowUp && !isScorecard) || !isTranscript(transcript) || !MODELS.includes(aiModel)) {
+    return res.status(400).json({ error: 'Request body must include an action, its question(s), a transcript and a valid aiModel' });
+  }
+
+  if (JSON.stringify(req.body).length > MAX_INTERVIEW_INPUT_LENGTH) {
+    return res.status(413).json({ error: `Interview input exceeds ${MAX_INTERVIEW_INPUT_LENGTH} characters` });
+  }
+
+  if (!enforceQuota(res, user.uid, 'interview')) {
+    return;
+  }
+
+  try {
+    if (isFollowUp) {
+      return res.status(200).json(await requestFollowUp(question, transcript, aiModel));
+    }
+    return res.status(200).json(await requestScorecard(questions, transcript, aiModel));
+  } catch (error: any) {
+    console.error('Error running AI interviewer:', error);
+    refundQuota(user.uid, 'interview');
+    return res.status(502).json({ error: error.message || 'AI interviewer is unavailable' });
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * API endpoint for AI review that streams the reviewers' output as it is generated.
+ * Responds with newline-delimited JSON ReviewStreamEvents.
+ */
+import { NextApiRequest, NextApiResponse } from 'next';
+import type { ReviewStreamEvent } from '@/types';
+import { requireUser } from '@/services/server/firebaseAuth';
+import { enforceQuota, refundQuota } from '@/services/server/aiQuota';
+import { parseReviewBody, reviewWithProviders } from '@/services/server/aiProviderService';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireUser(req, res);
+  if (!user) {
+    return;
+  }
+
+  const body = parseReviewBody(req.body);
+  if (typeof body === 'string') {
+    return res.status(400).json({ error: body });
+  }
+
+  const cost = body.aiReviewer === 'both' ? 2 : 1;
+  if (!enforceQuota(res, user.uid, 'review', cost)) {
+    return;
+  }
+
+  // Stop the provider requests when the client cancels or disconnects
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+
+  res.status(200);
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  // no-transform keeps the compression middleware from buffering the stream
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const send = (event: ReviewStreamEvent) => {
+    if (!controller.signal.aborted) {
+      res.write(`${JSON.stringify(event)}\n`);
+    }
+  };
+
+  try {
+    const review = await reviewWithProviders(body.request, body.aiReviewer, {
+      signal: controller.signal,
+      onEvent: send
+    }, body.policy);
+    send({ type: 'result', review });
+  } catch (error: any) {
+    if (controller.signal.aborted) {
+      console.log('Review stream cancelled by the client');
+    } else {
+      console.error('Error streaming review:', error);
+      refundQuota(user.uid, 'review', cost);
+      send({ type: 'error', error: error.message || 'Failed to review submission' });
+    }
+  } finally {
+    res.end();
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * API endpoint for AI review of task solutions and question answers
+ */
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '@/services/server/firebaseAuth';
+import { enforceQuota, refundQuota } from '@/services/server/aiQuota';
+import { parseReviewBody, reviewWithProviders } from '@/services/server/aiProviderService';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireUser(req, res);
+  if (!user) {
+    return;
+  }
+
+  const body = parseReviewBody(req.body);
+  if (typeof body === 'string') {
+    return res.status(400).json({ error: body });
+  }
+
+  // A "both" review calls two providers
+  const cost = body.aiReviewer === 'both' ? 2 : 1;
+  if (!enforceQuota(res, user.uid, 'review', cost)) {
+    return;
+  }
+
+  try {
+    const review = await reviewWithProviders(body.request, body.aiReviewer, {}, body.policy);
+    return res.status(200).json(review);
+  } catch (error: any) {
+    console.error('Error reviewing submission:', error);
+    refundQuota(user.uid, 'review', cost);
+    return res.status(502).json({ error: error.message || 'Failed to review submission' });
+  }
+}
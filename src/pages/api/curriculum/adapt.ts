@@ -0,0 +1,60 @@
+/**
+ * API endpoint for ordering the curriculum around the signed-in user's progress
+ */
+import { NextApiRequest, NextApiResponse } from 'next';
+import type { LearningHistoryEntry } from '@/types';
+import { CurriculumGenerator } from '@/curriculum';
+import { requireUser } from '@/services/server/firebaseAuth';
+
+// Upper bound for history entries, well above the number of curriculum items
+const MAX_HISTORY_ENTRIES = 20000;
+
+const toHistoryEntry = (entry: any): LearningHistoryEntry | null => {
+  if (!entry || typeof entry.itemId !== 'string') {
+    return null;
+  }
+  const attempts = Number(entry.attempts) || 0;
+  return {
+    itemId: entry.itemId,
+    attempts: Math.max(0, attempts),
+    failures: Math.min(Math.max(0, Number(entry.failures) || 0), attempts),
+    lastResult: entry.lastResult === 'pass' || entry.lastResult === 'fail' ? entry.lastResult : null,
+    irrelevant: entry.irrelevant === true
+  };
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireUser(req, res);
+  if (!user) {
+    return;
+  }
+
+  const { history = [] } = req.body || {};
+
+  if (!Array.isArray(history)) {
+    return res.status(400).json({ error: 'history must be an array' });
+  }
+
+  if (history.length > MAX_HISTORY_ENTRIES) {
+    return res.status(413).json({ error: `history exceeds ${MAX_HISTORY_ENTRIES} entries` });
+  }
+
+  try {
+    const entries = history
+      .map(toHistoryEntry)
+      .filter((entry): entry is LearningHistoryEntry => entry !== null);
+
+    const adapted = await CurriculumGenerator.adaptToUserProgress(entries);
+    return res.status(200).json(adapted);
+  } catch (error: any) {
+    console.error('Error adapting curriculum:', error);
+    return res.status(500).json({ error: error.message || 'Failed to adapt curriculum' });
+  }
+}
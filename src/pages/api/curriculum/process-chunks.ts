@@ -6,6 +6,7 @@ import path from 'path';
 import fs from 'fs';
 import { CurriculumPaths } from '@/curriculum/utils/curriculumPaths';
 import { AIClusteringService } from '@/curriculum/ai/aiClusteringService';
+import { readProviderConfig, resolveProviderName } from '@/services/llm';
 
 /**
  * Process chunks with AI
@@ -25,19 +26,14 @@ export default async function handler(
   try {
     console.log('API: Starting AI-assisted chunk processing at', new Date().toISOString());
     
-    // Get API key from environment variables - try both server and client-side env vars
-    const apiKey = process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+    // Resolve the LLM provider; only hosted providers need an API key
+    const providerName = resolveProviderName('pipeline', req.body.provider);
+    console.log('API: LLM provider:', providerName);
     
-    // Log environment variables (safely)
-    console.log('API: Environment variables check:');
-    console.log('- GEMINI_API_KEY exists:', !!process.env.GEMINI_API_KEY);
-    console.log('- NEXT_PUBLIC_GEMINI_API_KEY exists:', !!process.env.NEXT_PUBLIC_GEMINI_API_KEY);
-    console.log('- Using API key:', apiKey ? '****' + apiKey.substring(apiKey.length - 4) : 'undefined');
-    
-    if (!apiKey) {
+    if (providerName === 'gemini' && !readProviderConfig('gemini').apiKey) {
       console.error('API: Missing Gemini API key in environment variables');
       return res.status(400).json({ 
-        error: 'Gemini API key is required. Set NEXT_PUBLIC_GEMINI_API_KEY environment variable.' 
+        error: 'Gemini API key is required. Set GEMINI_API_KEY or choose another provider with LLM_PIPELINE_PROVIDER.' 
       });
     }
     
@@ -68,8 +64,8 @@ export default async function handler(
       databasePath,
       chunksOutputDir,
       resultsOutputDir,
-      apiKey,
-      model: req.body.model || 'gemini-2.5-flash-preview-05-20'
+      provider: providerName,
+      model: req.body.model
     });
     
     // Run clustering process
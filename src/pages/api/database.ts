@@ -0,0 +1,71 @@
+/**
+ * API endpoint serving the curriculum content the data store loads, as chunks
+ * with parsed content. Optional filters, each a comma-separated list:
+ * ?technology=React,CSS&learningPath=beginner&type=question,task
+ */
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  ContentFilters,
+  ContentItemType,
+  contentEtag,
+  filterContent,
+  loadContentSnapshot
+} from '@/services/server/contentService';
+
+const ITEM_TYPES: ContentItemType[] = ['theory', 'question', 'task'];
+const LEARNING_PATHS = ['beginner', 'intermediate', 'advanced', 'expert'];
+
+// Sorted so the same filters always produce the same ETag
+const listParam = (value: string | string[] | undefined): string[] =>
+  Array.from(new Set((Array.isArray(value) ? value.join(',') : value || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)))
+    .sort();
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const filters: ContentFilters = {
+    technologies: listParam(req.query.technology),
+    learningPaths: listParam(req.query.learningPath),
+    types: listParam(req.query.type) as ContentItemType[]
+  };
+
+  const unknownType = filters.types.find(type => !ITEM_TYPES.includes(type));
+  if (unknownType) {
+    return res.status(400).json({ error: `type must be one of ${ITEM_TYPES.join(', ')}` });
+  }
+  const unknownPath = filters.learningPaths.find(learningPath => !LEARNING_PATHS.includes(learningPath));
+  if (unknownPath) {
+    return res.status(400).json({ error: `learningPath must be one of ${LEARNING_PATHS.join(', ')}` });
+  }
+
+  try {
+    const snapshot = await loadContentSnapshot();
+    if (!snapshot) {
+      return res.status(404).json({ error: 'No curriculum.json or database.json found in the curriculum directory' });
+    }
+
+    // Browsers revalidate on every load and get a 304 while the file is unchanged
+    const etag = contentEtag(snapshot, filters);
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('X-Content-Source', snapshot.source);
+
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (ifNoneMatch && ifNoneMatch.split(',').map(tag => tag.trim().replace(/^W\//, '')).includes(etag)) {
+      return res.status(304).end();
+    }
+
+    return res.status(200).json(filterContent(snapshot.chunks, filters));
+  } catch (error: any) {
+    console.error('Error serving content:', error);
+    return res.status(500).json({ error: error.message || 'Failed to load content' });
+  }
+}
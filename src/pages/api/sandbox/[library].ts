@@ -0,0 +1,45 @@
+/**
+ * API endpoint serving the React UMD builds the component test harness loads,
+ * from the app's own node_modules so component tests don't depend on a CDN
+ */
+import { NextApiRequest, NextApiResponse } from 'next';
+import fs from 'fs';
+import path from 'path';
+
+const LIBRARIES: Record<string, string[]> = {
+  react: ['react', 'umd', 'react.development.js'],
+  'react-dom': ['react-dom', 'umd', 'react-dom.development.js']
+};
+
+// The builds only change with a reinstall, so they are read once per server instance
+const sources = new Map<string, string>();
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const library = String(req.query.library || '');
+  const segments = LIBRARIES[library];
+  if (!segments) {
+    return res.status(404).json({ error: `Unknown library, expected one of ${Object.keys(LIBRARIES).join(', ')}` });
+  }
+
+  try {
+    if (!sources.has(library)) {
+      sources.set(library, await fs.promises.readFile(path.join(process.cwd(), 'node_modules', ...segments), 'utf-8'));
+    }
+
+    // The harness iframe has an opaque origin; CORS keeps React's errors readable there
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Content-Type', 'application/javascript; charset=utf-8');
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    return res.status(200).send(sources.get(library));
+  } catch (error: any) {
+    console.error('Error serving sandbox library:', error);
+    return res.status(500).json({ error: error.message || 'Failed to load library' });
+  }
+}
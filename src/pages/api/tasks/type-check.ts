@@ -0,0 +1,131 @@
+/**
+ * API endpoint for type-checking task submissions with the TypeScript compiler
+ */
+import { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import ts from 'typescript';
+import type { TypeCheckResult, TypeDiagnostic } from '@/types';
+import { requireUser } from '@/services/server/firebaseAuth';
+
+// Virtual file placed inside the project so `react` types resolve from node_modules
+const SUBMISSION_PATH = path.join(process.cwd(), '__submission__', 'submission.tsx');
+
+// Upper bound for the submitted source, to keep compile times predictable
+const MAX_CODE_LENGTH = 50000;
+
+// Parsed lib and @types files are reused across requests
+const sourceFileCache = new Map<string, ts.SourceFile>();
+
+const buildCompilerOptions = (strict: boolean): ts.CompilerOptions => ({
+  strict,
+  noEmit: true,
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  jsx: ts.JsxEmit.ReactJSX,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+  types: []
+});
+
+const createHost = (options: ts.CompilerOptions, code: string): ts.CompilerHost => {
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    if (fileName === SUBMISSION_PATH) {
+      return ts.createSourceFile(fileName, code, languageVersion, true, ts.ScriptKind.TSX);
+    }
+
+    const cached = sourceFileCache.get(fileName);
+    if (cached) {
+      return cached;
+    }
+
+    const sourceFile = getSourceFile(fileName, languageVersion, onError, shouldCreate);
+    if (sourceFile) {
+      sourceFileCache.set(fileName, sourceFile);
+    }
+    return sourceFile;
+  };
+
+  const fileExists = host.fileExists;
+  host.fileExists = (fileName) => fileName === SUBMISSION_PATH || fileExists(fileName);
+
+  const readFile = host.readFile;
+  host.readFile = (fileName) => fileName === SUBMISSION_PATH ? code : readFile(fileName);
+
+  return host;
+};
+
+const toDiagnostic = (diagnostic: ts.Diagnostic): TypeDiagnostic => {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  const category = diagnostic.category === ts.DiagnosticCategory.Error ? 'error' :
+                   diagnostic.category === ts.DiagnosticCategory.Warning ? 'warning' : 'info';
+
+  if (!diagnostic.file || diagnostic.start === undefined) {
+    return { message, code: diagnostic.code, category, line: 1, column: 1, endLine: 1, endColumn: 1 };
+  }
+
+  const start = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  const end = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start + (diagnostic.length || 0));
+
+  // Monaco markers are 1-based
+  return {
+    message,
+    code: diagnostic.code,
+    category,
+    line: start.line + 1,
+    column: start.character + 1,
+    endLine: end.line + 1,
+    endColumn: end.character + 1
+  };
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = await requireUser(req, res);
+  if (!user) {
+    return;
+  }
+
+  const { code, strict = true } = req.body || {};
+
+  if (typeof code !== 'string') {
+    return res.status(400).json({ error: 'Request body must include code as a string' });
+  }
+
+  if (code.length > MAX_CODE_LENGTH) {
+    return res.status(413).json({ error: `Code exceeds ${MAX_CODE_LENGTH} characters` });
+  }
+
+  try {
+    const options = buildCompilerOptions(strict !== false);
+    const program = ts.createProgram([SUBMISSION_PATH], options, createHost(options, code));
+    const sourceFile = program.getSourceFile(SUBMISSION_PATH);
+
+    // Only report problems in the submission, not in lib or @types files
+    const diagnostics = [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile)
+    ].map(toDiagnostic);
+
+    const result: TypeCheckResult = {
+      success: diagnostics.every(diagnostic => diagnostic.category !== 'error'),
+      strict: options.strict === true,
+      diagnostics
+    };
+
+    return res.status(200).json(result);
+  } catch (error: any) {
+    console.error('Error type-checking submission:', error);
+    return res.status(500).json({ error: error.message || 'Failed to type-check submission' });
+  }
+}
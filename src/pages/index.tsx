@@ -15,6 +15,7 @@ import {
 import { useRouter } from 'next/router';
 import { useUserStore, useDataStore, useProgressStore } from '@/store';
 import Link from 'next/link';
+import WeakAreasCard from '@/components/mastery/WeakAreasCard';
 
 const HomePage = () => {
   const router = useRouter();
@@ -132,6 +133,8 @@ const HomePage = () => {
             </Paper>
           )}
           
+          {isAuthenticated && uid && <WeakAreasCard uid={uid} />}
+          
           {/* Main Features */}
           <Box sx={{ mb: 4 }}>
             <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
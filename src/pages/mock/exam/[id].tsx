@@ -1,12 +1,10 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { 
-  Box, 
-  Typography, 
-  Paper, 
-  Button, 
-  Stepper, 
-  Step, 
-  StepLabel,
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  Chip,
   CircularProgress,
   Alert,
   Dialog,
@@ -18,213 +16,68 @@ import {
 } from '@mui/material';
 import { useRouter } from 'next/router';
 import Layout from '@/components/layout/Layout';
-import QuizCard from '@/components/questions/QuizCard';
-import TaskRunner from '@/components/tasks/TaskRunner';
+import ExamItemView from '@/components/exam/ExamItemView';
+import { useExamSession } from '@/components/exam/useExamSession';
 import { useUserStore } from '@/store';
-import { getMockExam, updateMockExam, submitMockExam } from '@/services/firestoreService';
-import { MockExam, QuestionItem, TaskItem } from '../../../../index';
+import { isExamFinished } from '@/services/examEngine';
+import { hasMoreItems } from '@/services/adaptiveExam';
+
+// Format milliseconds as MM:SS
+const formatTime = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
 
 const ExamPage = () => {
   const router = useRouter();
   const { id } = router.query;
   const { isAuthenticated, uid } = useUserStore();
-  
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
-  const [exam, setExam] = useState<MockExam | null>(null);
-  const [activeStep, setActiveStep] = useState(0);
-  const [timeRemaining, setTimeRemaining] = useState(0);
-  const [submitting, setSubmitting] = useState(false);
+  const {
+    exam,
+    loading,
+    error,
+    remainingMs,
+    advancing,
+    start,
+    pause,
+    resume,
+    submit,
+    setAnswer,
+    toggleMarkedForReview,
+    goToItem,
+    advance,
+    recordPaste
+  } = useExamSession(uid, typeof id === 'string' ? id : null);
+
   const [confirmSubmit, setConfirmSubmit] = useState(false);
-  const [confirmExit, setConfirmExit] = useState(false);
-  
+
   // Redirect if not authenticated
   useEffect(() => {
     if (!isAuthenticated) {
       router.push('/login');
     }
   }, [isAuthenticated, router]);
-  
-  // Load exam data
-  useEffect(() => {
-    if (isAuthenticated && uid && id && typeof id === 'string') {
-      loadExam(id);
-    }
-  }, [isAuthenticated, uid, id]);
-  
-  // Timer effect
+
+  // Submitted exams are shown on the results page
   useEffect(() => {
-    if (!exam || exam.completed) return;
-    
-    // Calculate time remaining
-    const startTime = exam.startedAt ? new Date(exam.startedAt).getTime() : Date.now();
-    const endTime = startTime + (exam.duration * 60 * 1000);
-    const remaining = Math.max(0, endTime - Date.now());
-    setTimeRemaining(remaining);
-    
-    // Update exam start time if not set
-    if (!exam.startedAt) {
-      updateExamStartTime();
-    }
-    
-    // Set up timer
-    const timer = setInterval(() => {
-      const newRemaining = Math.max(0, endTime - Date.now());
-      setTimeRemaining(newRemaining);
-      
-      // Auto-submit when time runs out
-      if (newRemaining === 0) {
-        handleSubmitExam();
-        clearInterval(timer);
-      }
-    }, 1000);
-    
-    return () => clearInterval(timer);
-  }, [exam]);
-  
-  const loadExam = async (examId: string) => {
-    setLoading(true);
-    setError('');
-    
-    try {
-      if (!uid) {
-        throw new Error('User not authenticated');
-      }
-      
-      const examData = await getMockExam(uid, examId);
-      
-      if (!examData) {
-        throw new Error('Exam not found');
-      }
-      
-      // If exam is completed, redirect to results page
-      if (examData.completed) {
-        router.push(`/mock/results/${examId}`);
-        return;
-      }
-      
-      setExam(examData);
-      
-      // Set active step based on progress
-      if (examData.currentItemIndex !== undefined) {
-        setActiveStep(examData.currentItemIndex);
-      }
-    } catch (err: any) {
-      setError(err.message || 'Failed to load exam');
-    } finally {
-      setLoading(false);
-    }
-  };
-  
-  const updateExamStartTime = async () => {
-    try {
-      if (!uid || !id || !exam) return;
-      
-      const updatedExam = {
-        ...exam,
-        startedAt: new Date().toISOString()
-      };
-      
-      await updateMockExam(uid, updatedExam);
-      setExam(updatedExam);
-    } catch (err) {
-      console.error('Failed to update exam start time:', err);
-    }
-  };
-  
-  const updateExamProgress = async (index: number) => {
-    try {
-      if (!uid || !id || !exam) return;
-      
-      const updatedExam = {
-        ...exam,
-        currentItemIndex: index
-      };
-      
-      await updateMockExam(uid, updatedExam);
-      setExam(updatedExam);
-    } catch (err) {
-      console.error('Failed to update exam progress:', err);
-    }
-  };
-  
-  const handleNext = () => {
-    const nextStep = activeStep + 1;
-    setActiveStep(nextStep);
-    updateExamProgress(nextStep);
-  };
-  
-  const handleBack = () => {
-    const prevStep = activeStep - 1;
-    setActiveStep(prevStep);
-    updateExamProgress(prevStep);
-  };
-  
-  const handleSubmitExam = async () => {
-    setSubmitting(true);
-    setConfirmSubmit(false);
-    
-    try {
-      if (!uid || !id || !exam) {
-        throw new Error('Missing required data');
-      }
-      
-      await submitMockExam(uid, exam.id);
+    if (exam && isExamFinished(exam.status)) {
       router.push(`/mock/results/${exam.id}`);
-    } catch (err: any) {
-      setError(err.message || 'Failed to submit exam');
-      setSubmitting(false);
     }
-  };
-  
-  const handleConfirmSubmit = () => {
-    setConfirmSubmit(true);
-  };
-  
-  const handleCancelSubmit = () => {
-    setConfirmSubmit(false);
-  };
-  
-  const handleExitExam = () => {
-    setConfirmExit(true);
-  };
-  
-  const handleConfirmExit = () => {
+  }, [exam?.status]);
+
+  const handleExit = async () => {
+    if (exam?.status === 'in-progress') {
+      await pause();
+    }
     router.push('/mock');
   };
-  
-  const handleCancelExit = () => {
-    setConfirmExit(false);
-  };
-  
-  // Format time remaining as MM:SS
-  const formatTimeRemaining = () => {
-    const minutes = Math.floor(timeRemaining / 60000);
-    const seconds = Math.floor((timeRemaining % 60000) / 1000);
-    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  };
-  
-  // Get current item (question or task)
-  const getCurrentItem = () => {
-    if (!exam) return null;
-    
-    const allItems = [...exam.questions, ...exam.tasks];
-    return allItems[activeStep] || null;
-  };
-  
-  // Calculate progress percentage
-  const getProgressPercentage = () => {
-    if (!exam) return 0;
-    
-    const totalItems = exam.questions.length + exam.tasks.length;
-    return (activeStep / totalItems) * 100;
-  };
-  
+
   if (!isAuthenticated) {
     return null; // Will redirect in useEffect
   }
-  
-  if (loading) {
+
+  if (loading || (exam && isExamFinished(exam.status))) {
     return (
       <Layout>
         <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
@@ -233,13 +86,13 @@ const ExamPage = () => {
       </Layout>
     );
   }
-  
-  if (error) {
+
+  if (error || !exam) {
     return (
       <Layout>
         <Box sx={{ py: 4 }}>
           <Alert severity="error" sx={{ mb: 3 }}>
-            {error}
+            {error || 'Exam not found'}
           </Alert>
           <Button variant="contained" onClick={() => router.push('/mock')}>
             Back to Mock Exams
@@ -248,25 +101,55 @@ const ExamPage = () => {
       </Layout>
     );
   }
-  
-  if (!exam) {
+
+  const items = [...exam.questions, ...exam.tasks];
+  const activeStep = Math.min(exam.currentItemIndex || 0, items.length - 1);
+  const currentItem = items[activeStep];
+  const answeredCount = items.filter(item => exam.answers[item.id]?.trim()).length;
+  // Adaptive exams only hold the items served so far
+  const adaptive = exam.adaptive;
+  const totalCount = adaptive
+    ? items.length + adaptive.remaining.mcq + adaptive.remaining.open + adaptive.remaining.coding
+    : items.length;
+
+  if (exam.status === 'configured' || exam.status === 'paused') {
+    const notStarted = exam.status === 'configured';
     return (
       <Layout>
         <Box sx={{ py: 4 }}>
-          <Typography variant="h5" component="h1" gutterBottom>
-            Exam not found
-          </Typography>
-          <Button variant="contained" onClick={() => router.push('/mock')}>
-            Back to Mock Exams
-          </Button>
+          <Paper sx={{ p: 4, textAlign: 'center' }}>
+            <Typography variant="h4" component="h1" gutterBottom>
+              {exam.title}
+            </Typography>
+            <Typography variant="body1" color="text.secondary" paragraph>
+              {notStarted
+                ? adaptive
+                  ? `${totalCount} items, each chosen from how you answered the ones before, so you can't go back to earlier items. You have ${exam.duration} minutes; the clock stops while the exam is paused.`
+                  : `${exam.questions.length} questions and ${exam.tasks.length} coding tasks. You have ${exam.duration} minutes; the clock stops while the exam is paused.`
+                : `Paused with ${formatTime(remainingMs)} remaining. ${answeredCount} of ${totalCount} items answered.`}
+            </Typography>
+            {notStarted && (
+              <Typography variant="body2" color="text.secondary" paragraph>
+                Tab switches, pastes and long idle gaps are recorded and shown with your results.
+                {exam.strictMode && ' Strict mode is on, so pasting into answers is disabled.'}
+              </Typography>
+            )}
+            <Box sx={{ display: 'flex', justifyContent: 'center', gap: 2 }}>
+              <Button variant="outlined" onClick={() => router.push('/mock')}>
+                Back to Mock Exams
+              </Button>
+              <Button variant="contained" color="primary" onClick={notStarted ? start : resume}>
+                {notStarted ? 'Start Exam' : 'Resume Exam'}
+              </Button>
+            </Box>
+          </Paper>
         </Box>
       </Layout>
     );
   }
-  
-  const currentItem = getCurrentItem();
-  const totalItems = exam.questions.length + exam.tasks.length;
-  
+
+  const isMarked = exam.markedForReview.includes(currentItem.id);
+
   return (
     <Layout>
       <Box sx={{ py: 4 }}>
@@ -274,122 +157,129 @@ const ExamPage = () => {
           <Typography variant="h4" component="h1">
             {exam.title}
           </Typography>
-          
+
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            {exam.strictMode && (
+              <Chip label="Strict mode: paste disabled" color="warning" size="small" />
+            )}
             <Paper sx={{ px: 2, py: 1, display: 'flex', alignItems: 'center' }}>
               <Typography variant="body2" color="text.secondary" sx={{ mr: 1 }}>
                 Time Remaining:
               </Typography>
-              <Typography 
-                variant="h6" 
-                color={timeRemaining < 300000 ? 'error' : 'inherit'}
+              <Typography
+                variant="h6"
+                color={remainingMs < 300000 ? 'error' : 'inherit'}
                 sx={{ fontFamily: 'monospace' }}
               >
-                {formatTimeRemaining()}
+                {formatTime(remainingMs)}
               </Typography>
             </Paper>
-            
-            <Button 
-              variant="outlined" 
-              color="error"
-              onClick={handleExitExam}
-            >
+
+            <Button variant="outlined" onClick={pause}>
+              Pause
+            </Button>
+            <Button variant="outlined" color="error" onClick={handleExit}>
               Exit
             </Button>
           </Box>
         </Box>
-        
-        <LinearProgress 
-          variant="determinate" 
-          value={getProgressPercentage()} 
-          sx={{ mb: 3, height: 8, borderRadius: 4 }}
+
+        <LinearProgress
+          variant="determinate"
+          value={(answeredCount / totalCount) * 100}
+          sx={{ mb: 2, height: 8, borderRadius: 4 }}
         />
-        
-        <Box sx={{ mb: 3 }}>
-          <Typography variant="body2" color="text.secondary">
-            Question {activeStep + 1} of {totalItems}
-          </Typography>
+
+        {/* Jump to any item; answered items are filled, flagged ones orange */}
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 3 }}>
+          {items.map((item, index) => (
+            <Chip
+              key={item.id}
+              label={index + 1}
+              size="small"
+              onClick={adaptive ? undefined : () => goToItem(index)}
+              color={exam.markedForReview.includes(item.id) ? 'warning' : index === activeStep ? 'primary' : 'default'}
+              variant={exam.answers[item.id]?.trim() ? 'filled' : 'outlined'}
+            />
+          ))}
         </Box>
-        
+
         <Paper sx={{ p: 3, mb: 3 }}>
-          {currentItem && (
-            currentItem.type === 'question' ? (
-              <QuizCard question={currentItem as QuestionItem} />
-            ) : (
-              <TaskRunner task={currentItem as TaskItem} />
-            )
-          )}
+          <ExamItemView
+            key={currentItem.id}
+            item={currentItem}
+            answer={exam.answers[currentItem.id]}
+            onAnswerChange={answer => setAnswer(currentItem.id, answer)}
+            strictMode={exam.strictMode}
+            onPaste={recordPaste}
+          />
         </Paper>
-        
+
         <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 3 }}>
           <Button
             variant="outlined"
-            onClick={handleBack}
-            disabled={activeStep === 0}
+            onClick={() => goToItem(activeStep - 1)}
+            disabled={activeStep === 0 || !!adaptive}
           >
             Previous
           </Button>
-          
+
           <Box>
-            {activeStep === totalItems - 1 ? (
-              <Button
-                variant="contained"
-                color="primary"
-                onClick={handleConfirmSubmit}
-                disabled={submitting}
-              >
-                {submitting ? <CircularProgress size={24} /> : 'Submit Exam'}
-              </Button>
-            ) : (
+            {!adaptive && (
               <Button
-                variant="contained"
-                color="primary"
-                onClick={handleNext}
+                variant="outlined"
+                color="warning"
+                onClick={() => toggleMarkedForReview(currentItem.id)}
+                sx={{ mr: 1 }}
               >
-                Next
+                {isMarked ? 'Unmark for Review' : 'Mark for Review'}
               </Button>
             )}
+            <Button variant="contained" color="primary" onClick={() => setConfirmSubmit(true)}>
+              Submit Exam
+            </Button>
           </Box>
+
+          {adaptive ? (
+            <Button
+              variant="outlined"
+              onClick={advance}
+              disabled={advancing || !hasMoreItems(adaptive)}
+            >
+              {advancing ? <CircularProgress size={24} /> : 'Next'}
+            </Button>
+          ) : (
+            <Button
+              variant="outlined"
+              onClick={() => goToItem(activeStep + 1)}
+              disabled={activeStep === items.length - 1}
+            >
+              Next
+            </Button>
+          )}
         </Box>
       </Box>
-      
+
       {/* Confirm Submit Dialog */}
       <Dialog
         open={confirmSubmit}
-        onClose={handleCancelSubmit}
+        onClose={() => setConfirmSubmit(false)}
       >
         <DialogTitle>Submit Exam?</DialogTitle>
         <DialogContent>
           <DialogContentText>
-            Are you sure you want to submit your exam? You won't be able to make any changes after submission.
+            You answered {answeredCount} of {totalCount} items
+            {exam.markedForReview.length > 0 ? ` and ${exam.markedForReview.length} are still marked for review` : ''}.
+            You won't be able to make any changes after submission.
           </DialogContentText>
         </DialogContent>
         <DialogActions>
-          <Button onClick={handleCancelSubmit}>Cancel</Button>
-          <Button onClick={handleSubmitExam} color="primary" autoFocus>
+          <Button onClick={() => setConfirmSubmit(false)}>Cancel</Button>
+          <Button onClick={submit} color="primary" autoFocus>
             Submit
           </Button>
         </DialogActions>
       </Dialog>
-      
-      {/* Confirm Exit Dialog */}
-      <Dialog
-        open={confirmExit}
-        onClose={handleCancelExit}
-      >
-        <DialogTitle>Exit Exam?</DialogTitle>
-        <DialogContent>
-          <DialogContentText>
-            Are you sure you want to exit the exam? Your progress will be saved, but the timer will continue running.
-          </DialogContentText>
-        </DialogContent>
-        <DialogActions>
-          <Button onClick={handleCancelExit}>Cancel</Button>
-          <Button onClick={handleConfirmExit} color="primary" autoFocus>
-            Exit
-          </Button>
-        </DialogActions>
-      </Dialog>
     </Layout>
   );
 };
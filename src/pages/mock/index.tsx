@@ -2,7 +2,6 @@ import React, { useState, useEffect } from 'react';
 import { 
   Box, 
   Typography, 
-  Paper, 
   Button, 
   Grid, 
   Card, 
@@ -15,20 +14,29 @@ import {
 } from '@mui/material';
 import { useRouter } from 'next/router';
 import Layout from '@/components/layout/Layout';
-import { useUserStore, useDataStore } from '@/store';
-import { getMockExams } from '@/services/firestoreService';
-import { generateMockExam } from '@/services/dataService';
-import { MockExam } from '../../../index';
+import ExamConfigForm from '@/components/exam/ExamConfigForm';
+import InterviewConfigForm from '@/components/exam/InterviewConfigForm';
+import { useUserStore } from '@/store';
+import { getInterviews, getMockExams } from '@/services/firestoreService';
+import { isExamFinished } from '@/services/examEngine';
+import type { ExamStatus, InterviewSession, MockExam } from '@/types';
+
+const STATUS_LABELS: Record<ExamStatus, { label: string; color: 'default' | 'primary' | 'warning' | 'success' }> = {
+  configured: { label: 'Not Started', color: 'default' },
+  'in-progress': { label: 'In Progress', color: 'primary' },
+  paused: { label: 'Paused', color: 'warning' },
+  submitted: { label: 'Submitted', color: 'success' },
+  graded: { label: 'Graded', color: 'success' }
+};
 
 const MockExamsPage = () => {
   const router = useRouter();
   const { isAuthenticated, uid } = useUserStore();
-  const { technologies } = useDataStore();
   
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [mockExams, setMockExams] = useState<MockExam[]>([]);
-  const [generatingExam, setGeneratingExam] = useState(false);
+  const [interviews, setInterviews] = useState<InterviewSession[]>([]);
   
   // Redirect if not authenticated
   useEffect(() => {
@@ -53,8 +61,9 @@ const MockExamsPage = () => {
         throw new Error('User not authenticated');
       }
       
-      const exams = await getMockExams(uid);
+      const [exams, pastInterviews] = await Promise.all([getMockExams(uid), getInterviews(uid)]);
       setMockExams(exams);
+      setInterviews(pastInterviews);
     } catch (err: any) {
       setError(err.message || 'Failed to load mock exams');
     } finally {
@@ -62,25 +71,6 @@ const MockExamsPage = () => {
     }
   };
   
-  const handleCreateExam = async (technology: string) => {
-    setGeneratingExam(true);
-    setError('');
-    
-    try {
-      if (!uid) {
-        throw new Error('User not authenticated');
-      }
-      
-      const newExam = await generateMockExam(technology);
-      
-      // Navigate to the exam page
-      router.push(`/mock/exam/${newExam.id}`);
-    } catch (err: any) {
-      setError(err.message || 'Failed to create mock exam');
-      setGeneratingExam(false);
-    }
-  };
-  
   const handleStartExam = (examId: string) => {
     router.push(`/mock/exam/${examId}`);
   };
@@ -110,49 +100,9 @@ const MockExamsPage = () => {
           </Alert>
         )}
         
-        <Paper sx={{ p: 3, mb: 4 }}>
-          <Typography variant="h6" gutterBottom>
-            Create New Mock Exam
-          </Typography>
-          
-          <Typography variant="body2" color="text.secondary" paragraph>
-            Select a technology to create a new mock exam. The exam will contain questions and tasks related to that technology.
-          </Typography>
-          
-          <Grid container spacing={2}>
-            {technologies.map((tech) => (
-              <Grid item key={tech}>
-                <Button
-                  variant="outlined"
-                  color="primary"
-                  onClick={() => handleCreateExam(tech)}
-                  disabled={generatingExam}
-                >
-                  {tech}
-                </Button>
-              </Grid>
-            ))}
-            <Grid item>
-              <Button
-                variant="contained"
-                color="primary"
-                onClick={() => handleCreateExam('mixed')}
-                disabled={generatingExam}
-              >
-                Mixed Topics
-              </Button>
-            </Grid>
-          </Grid>
-          
-          {generatingExam && (
-            <Box sx={{ display: 'flex', alignItems: 'center', mt: 2 }}>
-              <CircularProgress size={20} sx={{ mr: 1 }} />
-              <Typography variant="body2">
-                Generating exam... This may take a moment.
-              </Typography>
-            </Box>
-          )}
-        </Paper>
+        {uid && <ExamConfigForm uid={uid} recentExams={mockExams} />}
+        
+        {uid && <InterviewConfigForm uid={uid} recentExams={mockExams} />}
         
         <Typography variant="h5" gutterBottom sx={{ mt: 4 }}>
           Your Mock Exams
@@ -188,8 +138,8 @@ const MockExamsPage = () => {
                         size="small" 
                       />
                       <Chip 
-                        label={exam.completed ? 'Completed' : 'Not Started'} 
-                        color={exam.completed ? 'success' : 'default'} 
+                        label={STATUS_LABELS[exam.status].label} 
+                        color={STATUS_LABELS[exam.status].color} 
                         size="small" 
                       />
                     </Box>
@@ -201,21 +151,23 @@ const MockExamsPage = () => {
                       Tasks: {exam.tasks.length}
                     </Typography>
                     
-                    {exam.completed && (
+                    {exam.status === 'graded' && (
                       <>
                         <Divider sx={{ my: 2 }} />
                         <Typography variant="body2">
-                          Score: {exam.score}/{exam.totalPoints} ({Math.round((exam.score / exam.totalPoints) * 100)}%)
+                          {exam.proficiency
+                            ? `Level: ${exam.proficiency.map(estimate => `${estimate.technology} ${estimate.level}`).join(', ')}`
+                            : `Score: ${exam.score}/${exam.totalPoints} (${Math.round((exam.score / exam.totalPoints) * 100)}%)`}
                         </Typography>
                         <Typography variant="body2" color="text.secondary">
-                          Completed on: {new Date(exam.completedAt).toLocaleDateString()}
+                          Completed on: {exam.completedAt && new Date(exam.completedAt).toLocaleDateString()}
                         </Typography>
                       </>
                     )}
                   </CardContent>
                   
                   <CardActions>
-                    {exam.completed ? (
+                    {isExamFinished(exam.status) ? (
                       <Button 
                         size="small" 
                         color="primary"
@@ -229,7 +181,7 @@ const MockExamsPage = () => {
                         color="primary"
                         onClick={() => handleStartExam(exam.id)}
                       >
-                        {exam.startedAt ? 'Continue Exam' : 'Start Exam'}
+                        {exam.status === 'configured' ? 'Start Exam' : 'Continue Exam'}
                       </Button>
                     )}
                   </CardActions>
@@ -238,6 +190,41 @@ const MockExamsPage = () => {
             ))}
           </Grid>
         )}
+        
+        {interviews.length > 0 && (
+          <>
+            <Typography variant="h5" gutterBottom sx={{ mt: 4 }}>
+              Your Interviews
+            </Typography>
+            
+            <Grid container spacing={3}>
+              {interviews.map((interview) => (
+                <Grid item xs={12} sm={6} md={4} key={interview.id}>
+                  <Card>
+                    <CardContent>
+                      <Typography variant="h6" gutterBottom>
+                        {interview.title}
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        Questions: {interview.questions.length}
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {interview.scorecard
+                          ? `Score: ${interview.scorecard.overallScore}/100`
+                          : interview.status === 'scoring' ? 'Waiting for scorecard' : 'In progress'}
+                      </Typography>
+                    </CardContent>
+                    <CardActions>
+                      <Button size="small" color="primary" onClick={() => router.push(`/mock/interview/${interview.id}`)}>
+                        {interview.status === 'completed' ? 'View Scorecard' : 'Continue Interview'}
+                      </Button>
+                    </CardActions>
+                  </Card>
+                </Grid>
+              ))}
+            </Grid>
+          </>
+        )}
       </Box>
     </Layout>
   );
@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  TextField,
+  CircularProgress,
+  Alert,
+  Chip
+} from '@mui/material';
+import { useRouter } from 'next/router';
+import Layout from '@/components/layout/Layout';
+import InterviewScorecardView from '@/components/exam/InterviewScorecardView';
+import { useInterviewSession } from '@/components/exam/useInterviewSession';
+import { useUserStore } from '@/store';
+
+const InterviewPage = () => {
+  const router = useRouter();
+  const { id } = router.query;
+  const { isAuthenticated, uid } = useUserStore();
+  const { interview, loading, thinking, error, answer, score } = useInterviewSession(uid, typeof id === 'string' ? id : null);
+
+  const [draft, setDraft] = useState('');
+  const transcriptEndRef = useRef<HTMLDivElement | null>(null);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, router]);
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [interview?.transcript.length, thinking]);
+
+  const handleSend = async () => {
+    const text = draft;
+    setDraft('');
+    await answer(text);
+  };
+
+  if (!isAuthenticated) {
+    return null; // Will redirect in useEffect
+  }
+
+  if (loading) {
+    return (
+      <Layout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+          <CircularProgress />
+        </Box>
+      </Layout>
+    );
+  }
+
+  if (!interview) {
+    return (
+      <Layout>
+        <Box sx={{ py: 4 }}>
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {error || 'Interview not found'}
+          </Alert>
+          <Button variant="contained" onClick={() => router.push('/mock')}>
+            Back to Mock Exams
+          </Button>
+        </Box>
+      </Layout>
+    );
+  }
+
+  const questionNumber = Math.min(interview.currentQuestionIndex + 1, interview.questions.length);
+
+  return (
+    <Layout>
+      <Box sx={{ py: 4 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <Typography variant="h4" component="h1">
+              {interview.title}
+            </Typography>
+            {interview.status === 'in-progress' && (
+              <Chip label={`Question ${questionNumber} of ${interview.questions.length}`} color="primary" size="small" />
+            )}
+          </Box>
+          <Button variant="outlined" onClick={() => router.push('/mock')}>
+            Back to Mock Exams
+          </Button>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {error}
+          </Alert>
+        )}
+
+        {interview.scorecard && (
+          <InterviewScorecardView scorecard={interview.scorecard} questions={interview.questions} />
+        )}
+
+        {interview.status === 'scoring' && !thinking && (
+          <Alert
+            severity="info"
+            sx={{ mb: 3 }}
+            action={<Button color="inherit" size="small" onClick={score}>Score Now</Button>}
+          >
+            The interview is finished but hasn't been scored yet.
+          </Alert>
+        )}
+
+        <Typography variant="h6" gutterBottom>
+          Transcript
+        </Typography>
+
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mb: 3 }}>
+          {interview.transcript.map((turn, index) => {
+            const isInterviewer = turn.role === 'interviewer';
+            return (
+              <Paper
+                key={index}
+                sx={{
+                  p: 2,
+                  maxWidth: '80%',
+                  alignSelf: isInterviewer ? 'flex-start' : 'flex-end',
+                  bgcolor: isInterviewer ? 'background.paper' : 'action.selected'
+                }}
+              >
+                <Typography variant="caption" color="text.secondary">
+                  {isInterviewer ? (turn.followUp ? 'Interviewer (follow-up)' : 'Interviewer') : 'You'}
+                </Typography>
+                <Typography variant="body1" sx={{ whiteSpace: 'pre-wrap' }}>
+                  {turn.text}
+                </Typography>
+              </Paper>
+            );
+          })}
+          {thinking && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <CircularProgress size={20} />
+              <Typography variant="body2" color="text.secondary">
+                {interview.status === 'in-progress' ? 'The interviewer is reading your answer...' : 'Writing your scorecard...'}
+              </Typography>
+            </Box>
+          )}
+          <div ref={transcriptEndRef} />
+        </Box>
+
+        {interview.status === 'in-progress' && (
+          <Paper sx={{ p: 2 }}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={4}
+              placeholder="Answer as you would in the interview"
+              value={draft}
+              onChange={event => setDraft(event.target.value)}
+              disabled={thinking}
+            />
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+              <Button variant="contained" onClick={handleSend} disabled={thinking || !draft.trim()}>
+                Send Answer
+              </Button>
+            </Box>
+          </Paper>
+        )}
+      </Box>
+    </Layout>
+  );
+};
+
+export default InterviewPage;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   Box, 
   Typography, 
@@ -11,23 +11,41 @@ import {
   Accordion,
   AccordionSummary,
   AccordionDetails,
-  Chip
+  Chip,
+  LinearProgress
 } from '@mui/material';
 import { ExpandMore as ExpandMoreIcon } from '@mui/icons-material';
 import { useRouter } from 'next/router';
 import Layout from '@/components/layout/Layout';
-import { useUserStore } from '@/store';
-import { getMockExam } from '@/services/firestoreService';
-import { MockExam, QuestionItem, TaskItem } from '../../../../index';
+import ExamAnalytics from '@/components/exam/ExamAnalytics';
+import ExamIntegrityTimeline from '@/components/exam/ExamIntegrityTimeline';
+import { useUserStore, useProgressStore, useDataStore } from '@/store';
+import { getExamResults, getMockExam } from '@/services/firestoreService';
+import { isExamFinished } from '@/services/examEngine';
+import { gradeAndSaveExam } from '@/services/examGrader';
+import type { MockExam } from '@/types';
+
+// How often a window waiting on grading elsewhere checks the exam again
+const GRADING_POLL_MS = 5000;
 
 const ExamResultsPage = () => {
   const router = useRouter();
   const { id } = router.query;
-  const { isAuthenticated, uid } = useUserStore();
+  const { isAuthenticated, uid, settings } = useUserStore();
+  const { setCompleted, setIncorrect } = useProgressStore();
+  const { modules, loadData } = useDataStore();
   
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [exam, setExam] = useState<MockExam | null>(null);
+  const [gradingProgress, setGradingProgress] = useState<{ graded: number; total: number } | null>(null);
+  const [gradingElsewhere, setGradingElsewhere] = useState(false);
+  const [pastExams, setPastExams] = useState<MockExam[]>([]);
+  const mountedRef = useRef(true);
+  
+  useEffect(() => () => {
+    mountedRef.current = false;
+  }, []);
   
   // Redirect if not authenticated
   useEffect(() => {
@@ -43,6 +61,25 @@ const ExamResultsPage = () => {
     }
   }, [isAuthenticated, uid, id]);
   
+  // Earlier attempts and the curriculum for the analytics, once the exam is graded
+  const isGraded = exam?.status === 'graded';
+  useEffect(() => {
+    if (!uid || !isGraded) return;
+    
+    const loadAnalytics = async () => {
+      try {
+        if (useDataStore.getState().modules.length === 0) {
+          await loadData();
+        }
+        setPastExams(await getExamResults(uid));
+      } catch (err) {
+        console.error('Failed to load exam analytics:', err);
+      }
+    };
+    
+    loadAnalytics();
+  }, [uid, isGraded, loadData]);
+  
   const loadExam = async (examId: string) => {
     setLoading(true);
     setError('');
@@ -58,13 +95,19 @@ const ExamResultsPage = () => {
         throw new Error('Exam not found');
       }
       
-      // If exam is not completed, redirect to exam page
-      if (!examData.completed) {
+      // If exam is not submitted yet, redirect to exam page
+      if (!isExamFinished(examData.status)) {
         router.push(`/mock/exam/${examId}`);
         return;
       }
       
       setExam(examData);
+      
+      // Submitted exams are graded here, so grading interrupted by leaving the page resumes
+      if (examData.status === 'submitted') {
+        setLoading(false);
+        await gradeSubmittedExam(examData);
+      }
     } catch (err: any) {
       setError(err.message || 'Failed to load exam results');
     } finally {
@@ -72,15 +115,68 @@ const ExamResultsPage = () => {
     }
   };
   
+  const gradeSubmittedExam = async (submitted: MockExam) => {
+    if (!uid) return;
+    
+    setGradingElsewhere(false);
+    setGradingProgress({ graded: 0, total: submitted.questions.length + submitted.tasks.length });
+    try {
+      const result = await gradeAndSaveExam(
+        uid,
+        submitted,
+        settings.aiReviewer,
+        settings.reviewPolicy,
+        (graded, total) => setGradingProgress({ graded, total })
+      );
+      
+      if (!result) {
+        await waitForGrading(submitted);
+        return;
+      }
+      
+      [...result.questions, ...result.tasks].filter(item => !item.ungraded).forEach(item => {
+        setCompleted(item.id, true);
+        if (!item.correct) {
+          setIncorrect(item.id, true);
+        }
+      });
+      
+      setExam({ ...submitted, ...result, status: 'graded' });
+    } catch (err: any) {
+      setError(err.message || 'Failed to grade exam');
+    } finally {
+      setGradingProgress(null);
+    }
+  };
+  
+  // Another window (or an interrupted run) holds the grading claim: wait for it
+  // to finish, and take over once its claim has expired
+  const waitForGrading = async (submitted: MockExam) => {
+    setGradingElsewhere(true);
+    setGradingProgress(null);
+    await new Promise(resolve => setTimeout(resolve, GRADING_POLL_MS));
+    if (!uid || !mountedRef.current) return;
+    
+    const latest = await getMockExam(uid, submitted.id);
+    if (!mountedRef.current) return;
+    if (latest && latest.status !== 'submitted') {
+      setGradingElsewhere(false);
+      setExam(latest);
+      return;
+    }
+    
+    await gradeSubmittedExam(submitted);
+  };
+  
   const getScoreColor = (score: number, total: number) => {
-    const percentage = (score / total) * 100;
+    const percentage = total > 0 ? (score / total) * 100 : 0;
     if (percentage >= 80) return 'success';
     if (percentage >= 60) return 'warning';
     return 'error';
   };
   
   const getLetterGrade = (score: number, total: number) => {
-    const percentage = (score / total) * 100;
+    const percentage = total > 0 ? (score / total) * 100 : 0;
     if (percentage >= 90) return 'A';
     if (percentage >= 80) return 'B';
     if (percentage >= 70) return 'C';
@@ -117,6 +213,27 @@ const ExamResultsPage = () => {
     );
   }
   
+  if (exam && exam.status === 'submitted') {
+    return (
+      <Layout>
+        <Box sx={{ py: 8, maxWidth: 480, mx: 'auto', textAlign: 'center' }}>
+          <Typography variant="h5" component="h1" gutterBottom>
+            Grading your exam...
+          </Typography>
+          <Typography variant="body2" color="text.secondary" paragraph>
+            {gradingElsewhere
+              ? 'This exam is being graded in another window. The results will show here when it is done.'
+              : `Running tests and reviewing answers${gradingProgress ? ` (${gradingProgress.graded} of ${gradingProgress.total} items)` : ''}.`}
+          </Typography>
+          <LinearProgress
+            variant={gradingProgress ? 'determinate' : 'indeterminate'}
+            value={gradingProgress && gradingProgress.total > 0 ? (gradingProgress.graded / gradingProgress.total) * 100 : 0}
+          />
+        </Box>
+      </Layout>
+    );
+  }
+  
   if (!exam) {
     return (
       <Layout>
@@ -134,7 +251,7 @@ const ExamResultsPage = () => {
   
   const scoreColor = getScoreColor(exam.score, exam.totalPoints);
   const letterGrade = getLetterGrade(exam.score, exam.totalPoints);
-  const scorePercentage = Math.round((exam.score / exam.totalPoints) * 100);
+  const scorePercentage = exam.totalPoints > 0 ? Math.round((exam.score / exam.totalPoints) * 100) : 0;
   
   return (
     <Layout>
@@ -155,26 +272,44 @@ const ExamResultsPage = () => {
         <Paper sx={{ p: 3, mb: 4 }}>
           <Grid container spacing={3}>
             <Grid item xs={12} md={4}>
-              <Box sx={{ textAlign: 'center', p: 2 }}>
-                <Typography variant="h6" color="text.secondary" gutterBottom>
-                  Final Score
-                </Typography>
-                <Typography 
-                  variant="h2" 
-                  color={`${scoreColor}.main`}
-                  sx={{ fontWeight: 'bold' }}
-                >
-                  {scorePercentage}%
-                </Typography>
-                <Typography variant="h4" color={`${scoreColor}.main`}>
-                  {exam.score}/{exam.totalPoints} points
-                </Typography>
-                <Chip 
-                  label={`Grade: ${letterGrade}`} 
-                  color={scoreColor}
-                  sx={{ mt: 1, fontSize: '1.2rem', fontWeight: 'bold', height: 32 }}
-                />
-              </Box>
+              {exam.proficiency ? (
+                <Box sx={{ textAlign: 'center', p: 2 }}>
+                  <Typography variant="h6" color="text.secondary" gutterBottom>
+                    Estimated Proficiency
+                  </Typography>
+                  {exam.proficiency.map(estimate => (
+                    <Box key={estimate.technology} sx={{ mb: 1 }}>
+                      <Typography variant="h5" sx={{ fontWeight: 'bold', textTransform: 'capitalize' }}>
+                        {estimate.level}
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {estimate.technology}: {estimate.ability.toFixed(1)}/10 from {estimate.items} items
+                      </Typography>
+                    </Box>
+                  ))}
+                </Box>
+              ) : (
+                <Box sx={{ textAlign: 'center', p: 2 }}>
+                  <Typography variant="h6" color="text.secondary" gutterBottom>
+                    Final Score
+                  </Typography>
+                  <Typography 
+                    variant="h2" 
+                    color={`${scoreColor}.main`}
+                    sx={{ fontWeight: 'bold' }}
+                  >
+                    {scorePercentage}%
+                  </Typography>
+                  <Typography variant="h4" color={`${scoreColor}.main`}>
+                    {exam.score}/{exam.totalPoints} points
+                  </Typography>
+                  <Chip 
+                    label={`Grade: ${letterGrade}`} 
+                    color={scoreColor}
+                    sx={{ mt: 1, fontSize: '1.2rem', fontWeight: 'bold', height: 32 }}
+                  />
+                </Box>
+              )}
             </Grid>
             
             <Grid item xs={12} md={8}>
@@ -203,7 +338,7 @@ const ExamResultsPage = () => {
                       Completed On:
                     </Typography>
                     <Typography variant="body1" fontWeight="medium">
-                      {new Date(exam.completedAt).toLocaleDateString()} at {new Date(exam.completedAt).toLocaleTimeString()}
+                      {exam.completedAt && `${new Date(exam.completedAt).toLocaleDateString()} at ${new Date(exam.completedAt).toLocaleTimeString()}`}
                     </Typography>
                   </Grid>
                   
@@ -221,6 +356,16 @@ const ExamResultsPage = () => {
           </Grid>
         </Paper>
         
+        <ExamIntegrityTimeline exam={exam} />
+        
+        {exam.status === 'graded' && (
+          <ExamAnalytics
+            exam={exam}
+            exams={pastExams.map(past => past.id === exam.id ? exam : past)}
+            modules={modules}
+          />
+        )}
+        
         <Typography variant="h5" gutterBottom>
           Detailed Results
         </Typography>
@@ -230,99 +375,102 @@ const ExamResultsPage = () => {
             Questions
           </Typography>
           
-          {exam.questions.map((question: QuestionItem & { correct?: boolean, userAnswer?: string, feedback?: string }, index) => (
-            <Accordion key={question.id} sx={{ mb: 2 }}>
-              <AccordionSummary expandIcon={<ExpandMoreIcon />}>
-                <Box sx={{ display: 'flex', alignItems: 'center', width: '100%', justifyContent: 'space-between' }}>
-                  <Typography>
-                    Question {index + 1}: {question.topic}
-                  </Typography>
-                  <Chip 
-                    label={question.correct ? 'Correct' : 'Incorrect'} 
-                    color={question.correct ? 'success' : 'error'}
-                    size="small"
-                    sx={{ ml: 2 }}
-                  />
-                </Box>
-              </AccordionSummary>
-              <AccordionDetails>
-                <Box>
-                  <Typography variant="subtitle1" gutterBottom>
-                    {question.question}
-                  </Typography>
+          {exam.questions.map((question, index) => {
+            const correctOption = question.type === 'mcq' ? question.options[parseInt(question.answer)] : undefined;
+            return (
+              <Accordion key={question.id} sx={{ mb: 2 }}>
+                <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', width: '100%', justifyContent: 'space-between' }}>
+                    <Typography>
+                      Question {index + 1}: {question.topic}
+                    </Typography>
+                    <Chip 
+                      label={`${question.ungraded ? 'Not graded' : question.correct ? 'Correct' : 'Incorrect'} · ${question.points ?? 0}/${question.maxPoints ?? 0}`} 
+                      color={question.ungraded ? 'default' : question.correct ? 'success' : 'error'}
+                      size="small"
+                      sx={{ ml: 2 }}
+                    />
+                  </Box>
+                </AccordionSummary>
+                <AccordionDetails>
+                  <Box>
+                    <Typography variant="subtitle1" gutterBottom>
+                      {question.question}
+                    </Typography>
                   
-                  {question.type === 'mcq' && (
-                    <Box sx={{ mt: 2 }}>
-                      <Typography variant="body2" color="text.secondary">
-                        Options:
-                      </Typography>
-                      <Box sx={{ pl: 2 }}>
-                        {question.options.map((option, i) => (
-                          <Typography 
-                            key={i} 
-                            variant="body1"
-                            sx={{ 
-                              color: option === question.correctAnswer ? 'success.main' : 
-                                    option === question.userAnswer && option !== question.correctAnswer ? 'error.main' : 
-                                    'text.primary',
-                              fontWeight: option === question.correctAnswer || option === question.userAnswer ? 'bold' : 'normal'
-                            }}
-                          >
-                            {String.fromCharCode(65 + i)}. {option}
-                            {option === question.correctAnswer && ' ✓'}
-                            {option === question.userAnswer && option !== question.correctAnswer && ' ✗'}
-                          </Typography>
-                        ))}
+                    {question.type === 'mcq' && (
+                      <Box sx={{ mt: 2 }}>
+                        <Typography variant="body2" color="text.secondary">
+                          Options:
+                        </Typography>
+                        <Box sx={{ pl: 2 }}>
+                          {question.options.map((option, i) => (
+                            <Typography 
+                              key={i} 
+                              variant="body1"
+                              sx={{ 
+                                color: option === correctOption ? 'success.main' : 
+                                      option === question.userAnswer && option !== correctOption ? 'error.main' : 
+                                      'text.primary',
+                                fontWeight: option === correctOption || option === question.userAnswer ? 'bold' : 'normal'
+                              }}
+                            >
+                              {String.fromCharCode(65 + i)}. {option}
+                              {option === correctOption && ' ✓'}
+                              {option === question.userAnswer && option !== correctOption && ' ✗'}
+                            </Typography>
+                          ))}
+                        </Box>
                       </Box>
-                    </Box>
-                  )}
+                    )}
                   
-                  {question.type === 'open' && (
-                    <Box sx={{ mt: 2 }}>
-                      <Typography variant="body2" color="text.secondary">
-                        Your Answer:
-                      </Typography>
-                      <Paper variant="outlined" sx={{ p: 2, mt: 1, bgcolor: 'background.paper' }}>
-                        <Typography variant="body1">
-                          {question.userAnswer || 'No answer provided'}
+                    {question.type !== 'mcq' && (
+                      <Box sx={{ mt: 2 }}>
+                        <Typography variant="body2" color="text.secondary">
+                          Your Answer:
                         </Typography>
-                      </Paper>
+                        <Paper variant="outlined" sx={{ p: 2, mt: 1, bgcolor: 'background.paper' }}>
+                          <Typography variant="body1">
+                            {question.userAnswer || 'No answer provided'}
+                          </Typography>
+                        </Paper>
                       
-                      <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
-                        Correct Answer:
-                      </Typography>
-                      <Paper variant="outlined" sx={{ p: 2, mt: 1, bgcolor: 'background.paper' }}>
-                        <Typography variant="body1">
-                          {question.correctAnswer}
+                        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                          Reference Answer:
                         </Typography>
-                      </Paper>
-                    </Box>
-                  )}
+                        <Paper variant="outlined" sx={{ p: 2, mt: 1, bgcolor: 'background.paper' }}>
+                          <Typography variant="body1">
+                            {question.answer}
+                          </Typography>
+                        </Paper>
+                      </Box>
+                    )}
                   
-                  {question.feedback && (
-                    <Box sx={{ mt: 2 }}>
-                      <Typography variant="body2" color="text.secondary">
-                        AI Feedback:
-                      </Typography>
-                      <Paper 
-                        variant="outlined" 
-                        sx={{ 
-                          p: 2, 
-                          mt: 1, 
-                          bgcolor: 'background.paper',
-                          borderColor: question.correct ? 'success.main' : 'error.main'
-                        }}
-                      >
-                        <Typography variant="body2">
-                          {question.feedback}
+                    {question.feedback && (
+                      <Box sx={{ mt: 2 }}>
+                        <Typography variant="body2" color="text.secondary">
+                          Feedback:
                         </Typography>
-                      </Paper>
-                    </Box>
-                  )}
-                </Box>
-              </AccordionDetails>
-            </Accordion>
-          ))}
+                        <Paper 
+                          variant="outlined" 
+                          sx={{ 
+                            p: 2, 
+                            mt: 1, 
+                            bgcolor: 'background.paper',
+                            borderColor: question.correct ? 'success.main' : 'error.main'
+                          }}
+                        >
+                          <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                            {question.feedback}
+                          </Typography>
+                        </Paper>
+                      </Box>
+                    )}
+                  </Box>
+                </AccordionDetails>
+              </Accordion>
+            );
+          })}
         </Box>
         
         <Box sx={{ mb: 4 }}>
@@ -330,7 +478,7 @@ const ExamResultsPage = () => {
             Tasks
           </Typography>
           
-          {exam.tasks.map((task: TaskItem & { correct?: boolean, userCode?: string, feedback?: string }, index) => (
+          {exam.tasks.map((task, index) => (
             <Accordion key={task.id} sx={{ mb: 2 }}>
               <AccordionSummary expandIcon={<ExpandMoreIcon />}>
                 <Box sx={{ display: 'flex', alignItems: 'center', width: '100%', justifyContent: 'space-between' }}>
@@ -338,8 +486,8 @@ const ExamResultsPage = () => {
                     Task {index + 1}: {task.title}
                   </Typography>
                   <Chip 
-                    label={task.correct ? 'Correct' : 'Incorrect'} 
-                    color={task.correct ? 'success' : 'error'}
+                    label={`${task.ungraded ? 'Not graded' : task.correct ? 'Correct' : 'Incorrect'} · ${task.points ?? 0}/${task.maxPoints ?? 0}`} 
+                    color={task.ungraded ? 'default' : task.correct ? 'success' : 'error'}
                     size="small"
                     sx={{ ml: 2 }}
                   />
@@ -374,7 +522,7 @@ const ExamResultsPage = () => {
                   {task.feedback && (
                     <Box sx={{ mt: 2 }}>
                       <Typography variant="body2" color="text.secondary">
-                        AI Feedback:
+                        Feedback:
                       </Typography>
                       <Paper 
                         variant="outlined" 
@@ -385,7 +533,7 @@ const ExamResultsPage = () => {
                           borderColor: task.correct ? 'success.main' : 'error.main'
                         }}
                       >
-                        <Typography variant="body2">
+                        <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
                           {task.feedback}
                         </Typography>
                       </Paper>
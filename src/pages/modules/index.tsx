@@ -15,7 +15,11 @@ import {
   Grid
 } from '@mui/material';
 import Layout from '@/components/layout/Layout';
+import AdaptedCurriculumView from '@/components/curriculum/AdaptedCurriculumView';
 import { useRouter } from 'next/router';
+import { useUserStore } from '@/store';
+import { getAdaptedCurriculum } from '@/services/curriculumService';
+import type { AdaptedCurriculum } from '@/types';
 
 /**
  * ModulesPage component that guides users through the curriculum creation process
@@ -26,15 +30,22 @@ const ModulesIndexPage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasModules, setHasModules] = useState(false);
+  const [curriculum, setCurriculum] = useState<AdaptedCurriculum | null>(null);
+  const { isAuthenticated, uid } = useUserStore();
 
   // Check if curriculum modules exist
   useEffect(() => {
     const checkForModules = async () => {
       try {
         setLoading(true);
-        // Here we would normally check if modules exist in the database or local storage
-        // For now, we'll assume they don't exist
-        setHasModules(false);
+        if (!isAuthenticated || !uid) {
+          setHasModules(false);
+          return;
+        }
+        // Ordered around the user's progress; empty until the pipeline has run
+        const adapted = await getAdaptedCurriculum(uid);
+        setCurriculum(adapted);
+        setHasModules(adapted.items.length > 0);
       } catch (err) {
         setError('Failed to check for existing modules');
         console.error(err);
@@ -44,7 +55,7 @@ const ModulesIndexPage: React.FC = () => {
     };
 
     checkForModules();
-  }, []);
+  }, [isAuthenticated, uid]);
 
   const steps = [
     'Extract Metadata',
@@ -159,10 +170,8 @@ const ModulesIndexPage: React.FC = () => {
               Start Curriculum Generation
             </Button>
           </Paper>
-        ) : (
-          <Typography variant="body1">
-            Curriculum modules will be displayed here once they are loaded.
-          </Typography>
+        ) : curriculum && (
+          <AdaptedCurriculumView curriculum={curriculum} />
         )}
       </Box>
     </Layout>
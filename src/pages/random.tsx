@@ -5,16 +5,20 @@ import {
   Button
 } from '@mui/material';
 import { Refresh as RefreshIcon } from '@mui/icons-material';
+import { useRouter } from 'next/router';
 import Layout from '@/components/layout/Layout';
 import RandomFilters from '@/components/random/RandomFilters';
 import RandomContent from '@/components/random/RandomContent';
-import { useDataStore } from '@/store';
+import { useDataStore, useUserStore } from '@/store';
+import { getMastery } from '@/services/firestoreService';
+import { getWeakAreas } from '@/services/masteryModel';
 import { TheoryItem, QuestionItem, TaskItem } from '../../index';
 import { SelectChangeEvent } from '@mui/material';
 
 
 
 const RandomPage = () => {
+  const router = useRouter();
   const [tabValue, setTabValue] = useState(0);
   const [loading, setLoading] = useState(true);
   const [technology, setTechnology] = useState<string>('all');
@@ -24,25 +28,42 @@ const RandomPage = () => {
   const [randomQuestion, setRandomQuestion] = useState<QuestionItem | null>(null);
   const [randomTask, setRandomTask] = useState<TaskItem | null>(null);
   const [viewFullTheory, setViewFullTheory] = useState(false);
+  const [weakestTechnology, setWeakestTechnology] = useState<string | null>(null);
   
   const { getRandomTheory, getRandomQuestion, getRandomTask, technologies } = useDataStore();
+  const { isAuthenticated, uid } = useUserStore();
   
-  // Load random items on initial render
+  // Load random items on initial render, honouring ?technology= from the dashboard
   useEffect(() => {
-    loadRandomItems();
-  }, []);
+    if (!router.isReady) return;
+    const requested = typeof router.query.technology === 'string' ? router.query.technology : undefined;
+    if (requested) {
+      setTechnology(requested);
+    }
+    loadRandomItems(requested);
+  }, [router.isReady]);
   
-  const loadRandomItems = () => {
+  // Offer the technology with the lowest mastery estimate as a filter
+  useEffect(() => {
+    if (!isAuthenticated || !uid) return;
+    getMastery(uid, 'technology')
+      .then(estimates => setWeakestTechnology(getWeakAreas(estimates, { limit: 1 })[0]?.label || null))
+      .catch(error => console.error('Error loading mastery:', error));
+  }, [isAuthenticated, uid]);
+  
+  const loadRandomItems = (technologyOverride?: string) => {
     setLoading(true);
     
+    const selected = technologyOverride || (technology === 'weakest' ? weakestTechnology || 'all' : technology);
+    
     // Get random items based on filters
-    const theoryItem = getRandomTheory(technology === 'all' ? undefined : technology);
+    const theoryItem = getRandomTheory(selected === 'all' ? undefined : selected);
     const questionItem = getRandomQuestion(
-      technology === 'all' ? undefined : technology,
+      selected === 'all' ? undefined : selected,
       difficulty === 'all' ? undefined : difficulty
     );
     const taskItem = getRandomTask(
-      technology === 'all' ? undefined : technology,
+      selected === 'all' ? undefined : selected,
       difficulty === 'all' ? undefined : difficulty
     );
     
@@ -85,7 +106,7 @@ const RandomPage = () => {
             variant="contained"
             color="primary"
             startIcon={<RefreshIcon />}
-            onClick={loadRandomItems}
+            onClick={() => loadRandomItems()}
           >
             New Random Items
           </Button>
@@ -95,6 +116,7 @@ const RandomPage = () => {
           technology={technology}
           difficulty={difficulty}
           technologies={technologies}
+          weakestTechnology={weakestTechnology}
           onTechnologyChange={handleTechnologyChange}
           onDifficultyChange={handleDifficultyChange}
         />
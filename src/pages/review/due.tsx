@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Alert,
+  Chip,
+  Paper,
+  Grid
+} from '@mui/material';
+import { useRouter } from 'next/router';
+import Layout from '@/components/layout/Layout';
+import QuizCard from '@/components/questions/QuizCard';
+import TaskRunner from '@/components/tasks/TaskRunner';
+import { useUserStore, useDataStore } from '@/store';
+import { getDueItems, getGeneratedItems } from '@/services/firestoreService';
+import { isVisibleGeneratedItem } from '@/services/similarItemService';
+import type { DueReviewItem, GeneratedItem, ReviewSchedule } from '@/types';
+import { QuestionItem, TaskItem } from '../../../index';
+
+interface DueEntry<T> {
+  item: T;
+  schedule: ReviewSchedule;
+}
+
+const describeDue = (schedule: ReviewSchedule): string => {
+  const days = Math.floor((Date.now() - new Date(schedule.dueAt).getTime()) / (24 * 60 * 60 * 1000));
+  return days >= 1 ? `Overdue by ${days} day${days === 1 ? '' : 's'}` : 'Due today';
+};
+
+const DueReviewPage = () => {
+  const router = useRouter();
+  const { isAuthenticated, uid } = useUserStore();
+  const { modules, loadData } = useDataStore();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [dueItems, setDueItems] = useState<DueReviewItem[]>([]);
+  const [generatedItems, setGeneratedItems] = useState<GeneratedItem[]>([]);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, router]);
+
+  useEffect(() => {
+    const loadQueue = async () => {
+      if (!isAuthenticated || !uid) {
+        return;
+      }
+
+      setLoading(true);
+      setError('');
+
+      try {
+        // Due items only store ids, the content comes from the curriculum or,
+        // for practice items generated for the user, from users/{uid}/generated
+        if (useDataStore.getState().modules.length === 0) {
+          await loadData();
+        }
+        const [due, generated] = await Promise.all([getDueItems(uid), getGeneratedItems(uid)]);
+        setDueItems(due);
+        setGeneratedItems(generated.filter(isVisibleGeneratedItem));
+      } catch (err: any) {
+        setError(err.message || 'Failed to load the review queue');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadQueue();
+  }, [isAuthenticated, uid, loadData]);
+
+  const questionsById = new Map([
+    ...generatedItems.filter(generated => generated.itemType === 'question').map(generated => generated.item as QuestionItem),
+    ...modules.flatMap(module => module.questions)
+  ].map(item => [item.id, item]));
+  const tasksById = new Map([
+    ...generatedItems.filter(generated => generated.itemType === 'task').map(generated => generated.item as TaskItem),
+    ...modules.flatMap(module => module.tasks)
+  ].map(item => [item.id, item]));
+
+  const dueQuestions: DueEntry<QuestionItem>[] = [];
+  const dueTasks: DueEntry<TaskItem>[] = [];
+
+  dueItems.forEach(({ itemId, itemType, schedule }) => {
+    const question = itemType === 'question' ? questionsById.get(itemId) : undefined;
+    const task = itemType === 'task' ? tasksById.get(itemId) : undefined;
+    if (question) {
+      dueQuestions.push({ item: question, schedule });
+    } else if (task) {
+      dueTasks.push({ item: task, schedule });
+    }
+  });
+
+  if (!isAuthenticated) {
+    return null; // Will redirect in useEffect
+  }
+
+  return (
+    <Layout>
+      <Box sx={{ py: 4 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Due Today
+        </Typography>
+
+        <Typography variant="body1" color="text.secondary" paragraph>
+          Questions and tasks scheduled for review. Answering an item schedules its next review: sooner if you got it wrong, later each time you get it right.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+            <CircularProgress />
+          </Box>
+        ) : dueQuestions.length === 0 && dueTasks.length === 0 ? (
+          <Typography variant="body1" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+            Nothing is due today. Come back tomorrow!
+          </Typography>
+        ) : (
+          <Grid container spacing={3}>
+            {dueQuestions.map(({ item, schedule }) => (
+              <Grid item xs={12} key={item.id}>
+                <Paper sx={{ p: 2 }}>
+                  <Chip label={describeDue(schedule)} size="small" color="warning" sx={{ mb: 1 }} />
+                  <QuizCard question={item} />
+                </Paper>
+              </Grid>
+            ))}
+
+            {dueTasks.map(({ item, schedule }) => (
+              <Grid item xs={12} key={item.id}>
+                <Paper sx={{ p: 2 }}>
+                  <Chip label={describeDue(schedule)} size="small" color="warning" sx={{ mb: 1 }} />
+                  <TaskRunner task={item} />
+                </Paper>
+              </Grid>
+            ))}
+          </Grid>
+        )}
+      </Box>
+    </Layout>
+  );
+};
+
+export default DueReviewPage;
@@ -7,17 +7,25 @@ import {
   CircularProgress, 
   Alert,
   Paper,
-  Grid
+  Grid,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  LinearProgress
 } from '@mui/material';
 import { useRouter } from 'next/router';
 import Layout from '@/components/layout/Layout';
 import QuizCard from '@/components/questions/QuizCard';
 import TaskRunner from '@/components/tasks/TaskRunner';
 import SimilarItemsSection from '@/components/review/SimilarItemsSection';
-import { useUserStore, useProgressStore } from '@/store';
-// Using the available functions from firestoreService
-import { getSubmissions, getAllProgress } from '@/services/firestoreService';
-import { generateSimilarItems } from '@/services/aiService';
+import LastWrongAnswer from '@/components/review/LastWrongAnswer';
+import { useUserStore, useDataStore } from '@/store';
+import { getGeneratedItems } from '@/services/firestoreService';
+import { generateAndSaveSimilarItem, isVisibleGeneratedItem } from '@/services/similarItemService';
+import { filterIncorrectItems, getIncorrectItems, getIncorrectTechnologies } from '@/services/incorrectItemsService';
+import type { GeneratedItem, IncorrectItem, IncorrectItemFilters } from '@/types';
 import { QuestionItem, TaskItem } from '../../../index';
 
 interface TabPanelProps {
@@ -46,21 +54,30 @@ const TabPanel = (props: TabPanelProps) => {
   );
 };
 
+const DATE_RANGES: { label: string; sinceDays: number | null }[] = [
+  { label: 'Any time', sinceDays: null },
+  { label: 'Last 7 days', sinceDays: 7 },
+  { label: 'Last 30 days', sinceDays: 30 },
+  { label: 'Last 90 days', sinceDays: 90 }
+];
+
 const IncorrectItemsPage = () => {
   const router = useRouter();
   const { isAuthenticated, uid, settings } = useUserStore();
-  const { incorrectItems } = useProgressStore();
+  const { loadData } = useDataStore();
   
   const [tabValue, setTabValue] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   
-  const [incorrectQuestions, setIncorrectQuestions] = useState<QuestionItem[]>([]);
-  const [incorrectTasks, setIncorrectTasks] = useState<TaskItem[]>([]);
-  const [similarQuestions, setSimilarQuestions] = useState<QuestionItem[]>([]);
-  const [similarTasks, setSimilarTasks] = useState<TaskItem[]>([]);
-  const [generatingSimilar, setGeneratingSimilar] = useState(false);
-  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const [incorrectItems, setIncorrectItems] = useState<IncorrectItem[]>([]);
+  const [filters, setFilters] = useState<IncorrectItemFilters>({ technology: 'all', sinceDays: null });
+  // Retry all: the filtered items at the time it started, one at a time
+  const [retryItems, setRetryItems] = useState<IncorrectItem[] | null>(null);
+  const [retryIndex, setRetryIndex] = useState(0);
+  const [generatedItems, setGeneratedItems] = useState<GeneratedItem[]>([]);
+  const [generatingItemIds, setGeneratingItemIds] = useState<string[]>([]);
+  const [generateErrors, setGenerateErrors] = useState<Record<string, string>>({});
   
   // Redirect if not authenticated
   useEffect(() => {
@@ -76,11 +93,7 @@ const IncorrectItemsPage = () => {
     }
   }, [isAuthenticated, uid]);
   
-  // Type guard to check if an item is a QuestionItem
-  const isQuestionItem = (item: any): item is QuestionItem => {
-    return 'type' in item && item.type !== undefined;
-  };
-
+  // Progress only stores ids, the content comes from the curriculum
   const loadIncorrectItems = async () => {
     setLoading(true);
     setError('');
@@ -90,64 +103,17 @@ const IncorrectItemsPage = () => {
         throw new Error('User not authenticated');
       }
       
-      // Get user progress from Firestore
-      // This will give us the incorrectItems to display
-      const progress = await getAllProgress(uid);
-      
-      // Get the actual items from the incorrectItems in the store
-      const items: (QuestionItem | TaskItem)[] = [];
-      
-      // In a real implementation, we would fetch the actual items
-      // For now, we'll just use mock data
-      const mockQuestions: QuestionItem[] = [
-        {
-          id: 'q1',
-          topic: 'React Hooks',
-          level: 'medium',
-          type: 'mcq',
-          question: 'What is the correct way to update state in React?',
-          answer: '1',
-          example: '',
-          tags: ['React', 'Hooks'],
-          options: [
-            'Using setState', 
-            'Directly modifying the state object', 
-            'Using refs', 
-            'None of the above'
-          ],
-          analysisPoints: [],
-          keyConcepts: [],
-          evaluationCriteria: [],
-          prerequisites: [],
-          complexity: 3,
-          interviewFrequency: 8,
-          learningPath: 'beginner',
-          irrelevant: false
-        }
-      ];
-      
-      const mockTasks: TaskItem[] = [
-        {
-          id: 't1',
-          title: 'Create a Counter Component',
-          description: 'Create a simple counter using React hooks',
-          difficulty: 'easy',
-          startingCode: 'function Counter() {\n  // Your code here\n}',
-          solutionCode: 'function Counter() {\n  const [count, setCount] = useState(0);\n  return (\n    <div>\n      <p>Count: {count}</p>\n      <button onClick={() => setCount(count + 1)}>Increment</button>\n    </div>\n  );\n}',
-          testCases: ['Should render a counter with initial value 0', 'Should increment when button is clicked'],
-          hints: ['Use the useState hook', 'Remember to handle the click event'],
-          tags: ['React', 'Hooks'],
-          timeEstimate: 10,
-          prerequisites: [],
-          complexity: 2,
-          interviewRelevance: 7,
-          learningPath: 'beginner',
-          relatedConcepts: []
-        }
-      ];
+      if (useDataStore.getState().modules.length === 0) {
+        await loadData();
+      }
       
-      setIncorrectQuestions(mockQuestions);
-      setIncorrectTasks(mockTasks);
+      const [items, generated] = await Promise.all([
+        getIncorrectItems(uid, useDataStore.getState().modules),
+        // Items generated in earlier sessions are shown under their source item
+        getGeneratedItems(uid)
+      ]);
+      setIncorrectItems(items);
+      setGeneratedItems(generated);
     } catch (err: any) {
       setError(err.message || 'Failed to load incorrect items');
     } finally {
@@ -159,83 +125,103 @@ const IncorrectItemsPage = () => {
     setTabValue(newValue);
   };
   
+  const handleStartRetry = () => {
+    setRetryItems(filteredItems);
+    setRetryIndex(0);
+  };
+  
+  // Items answered correctly during the session drop off the list
+  const handleFinishRetry = () => {
+    setRetryItems(null);
+    loadIncorrectItems();
+  };
+  
   const handleGenerateSimilar = async (item: QuestionItem | TaskItem) => {
-    setGeneratingSimilar(true);
-    setSelectedItemId(item.id);
-    setSimilarQuestions([]);
-    setSimilarTasks([]);
+    if (!uid) return;
+    
+    setGeneratingItemIds(ids => [...ids, item.id]);
+    setGenerateErrors(errors => ({ ...errors, [item.id]: '' }));
     
     try {
-      // Type guard to check if an item is a QuestionItem
-      const isQuestionItem = (item: QuestionItem | TaskItem): item is QuestionItem => {
-        return 'type' in item && (item as QuestionItem).type !== undefined;
-      };
-      
-      // In a real implementation, we would call the AI service
-      // For now, we'll just use mock data
-      const mockSimilarQuestions: QuestionItem[] = [
-        {
-          id: 'sq1',
-          topic: 'React Hooks',
-          level: 'medium',
-          type: 'mcq',
-          question: 'What hook should be used for side effects in React?',
-          answer: '0',
-          example: '',
-          tags: ['React', 'Hooks'],
-          options: [
-            'useEffect', 
-            'useState', 
-            'useContext', 
-            'useReducer'
-          ],
-          analysisPoints: [],
-          keyConcepts: [],
-          evaluationCriteria: [],
-          prerequisites: [],
-          complexity: 3,
-          interviewFrequency: 7,
-          learningPath: 'beginner',
-          irrelevant: false
-        }
-      ];
-      
-      const mockSimilarTasks: TaskItem[] = [
-        {
-          id: 'st1',
-          title: 'Create a Toggle Component',
-          description: 'Create a simple toggle switch using React hooks',
-          difficulty: 'easy',
-          startingCode: 'function Toggle() {\n  // Your code here\n}',
-          solutionCode: 'function Toggle() {\n  const [isOn, setIsOn] = useState(false);\n  return (\n    <button onClick={() => setIsOn(!isOn)}>\n      {isOn ? "ON" : "OFF"}\n    </button>\n  );\n}',
-          testCases: ['Should render a toggle with initial state OFF', 'Should toggle between ON and OFF when clicked'],
-          hints: ['Use the useState hook', 'Use conditional rendering for the button text'],
-          tags: ['React', 'Hooks'],
-          timeEstimate: 10,
-          prerequisites: [],
-          complexity: 2,
-          interviewRelevance: 6,
-          learningPath: 'beginner',
-          relatedConcepts: []
-        }
-      ];
-      
-      if (isQuestionItem(item)) {
-        setSimilarQuestions(mockSimilarQuestions);
-      } else {
-        setSimilarTasks(mockSimilarTasks);
+      // Generated items are checked for near-duplicates across the whole curriculum
+      if (useDataStore.getState().modules.length === 0) {
+        await loadData();
       }
+      const generated = await generateAndSaveSimilarItem(uid, item, settings.aiReviewer, useDataStore.getState().modules);
+      setGeneratedItems(items => [generated, ...items]);
     } catch (err: any) {
-      console.error('Error generating similar items:', err);
+      setGenerateErrors(errors => ({ ...errors, [item.id]: err.message || 'Failed to generate a similar item' }));
     } finally {
-      setGeneratingSimilar(false);
+      setGeneratingItemIds(ids => ids.filter(id => id !== item.id));
     }
   };
   
+  const renderSimilarItems = (item: QuestionItem | TaskItem) => (
+    <SimilarItemsSection
+      item={item}
+      generatedItems={generatedItems.filter(generated => generated.sourceItemId === item.id && isVisibleGeneratedItem(generated))}
+      generating={generatingItemIds.includes(item.id)}
+      error={generateErrors[item.id] || ''}
+      onGenerateSimilar={handleGenerateSimilar}
+    />
+  );
+  
+  const filteredItems = filterIncorrectItems(incorrectItems, filters);
+  const incorrectQuestions = filteredItems.filter(entry => entry.itemType === 'question');
+  const incorrectTasks = filteredItems.filter(entry => entry.itemType === 'task');
+  const technologies = getIncorrectTechnologies(incorrectItems);
+  
+  const renderItem = (item: QuestionItem | TaskItem) => 'question' in item
+    ? <QuizCard key={item.id} question={item} />
+    : <TaskRunner key={item.id} task={item} />;
+  
   if (!isAuthenticated) {
     return null; // Will redirect in useEffect
   }
   
+  if (retryItems) {
+    const current = retryItems[retryIndex];
+    const isLast = retryIndex === retryItems.length - 1;
+    
+    return (
+      <Layout>
+        <Box sx={{ py: 4 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+            <Typography variant="h5" component="h1">
+              Retry Incorrect Items
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {retryIndex + 1} of {retryItems.length}
+            </Typography>
+          </Box>
+          
+          <LinearProgress variant="determinate" value={((retryIndex + 1) / retryItems.length) * 100} sx={{ mb: 3 }} />
+          
+          <Paper sx={{ p: 2, mb: 3 }}>
+            {renderItem(current.item)}
+          </Paper>
+          
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Button onClick={() => setRetryIndex(index => index - 1)} disabled={retryIndex === 0}>
+              Previous
+            </Button>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button onClick={handleFinishRetry}>
+                End Session
+              </Button>
+              <Button
+                variant="contained"
+                onClick={isLast ? handleFinishRetry : () => setRetryIndex(index => index + 1)}
+              >
+                {isLast ? 'Finish' : 'Next'}
+              </Button>
+            </Box>
+          </Box>
+        </Box>
+      </Layout>
+    );
+  }
+  
   return (
     <Layout>
       <Box sx={{ py: 4 }}>
@@ -253,6 +239,43 @@ const IncorrectItemsPage = () => {
           </Alert>
         )}
         
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mt: 3 }}>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel id="incorrect-technology-label">Technology</InputLabel>
+            <Select
+              labelId="incorrect-technology-label"
+              value={filters.technology}
+              label="Technology"
+              onChange={(event) => setFilters({ ...filters, technology: event.target.value as IncorrectItemFilters['technology'] })}
+            >
+              <MenuItem value="all">All technologies</MenuItem>
+              {technologies.map(technology => (
+                <MenuItem key={technology} value={technology}>{technology}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel id="incorrect-date-label">Failed</InputLabel>
+            <Select
+              labelId="incorrect-date-label"
+              value={String(filters.sinceDays)}
+              label="Failed"
+              onChange={(event) => setFilters({ ...filters, sinceDays: event.target.value === 'null' ? null : Number(event.target.value) })}
+            >
+              {DATE_RANGES.map(range => (
+                <MenuItem key={range.label} value={String(range.sinceDays)}>{range.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          
+          <Box sx={{ flexGrow: 1 }} />
+          
+          <Button variant="contained" onClick={handleStartRetry} disabled={loading || filteredItems.length === 0}>
+            Retry All ({filteredItems.length})
+          </Button>
+        </Box>
+        
         <Box sx={{ borderBottom: 1, borderColor: 'divider', mt: 3 }}>
           <Tabs 
             value={tabValue} 
@@ -281,22 +304,19 @@ const IncorrectItemsPage = () => {
             <TabPanel value={tabValue} index={0}>
               {incorrectQuestions.length === 0 ? (
                 <Typography variant="body1" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
-                  You don't have any incorrect questions yet. Keep practicing!
+                  {incorrectItems.length > 0
+                    ? 'No incorrect questions match these filters.'
+                    : "You don't have any incorrect questions yet. Keep practicing!"}
                 </Typography>
               ) : (
                 <Grid container spacing={3}>
-                  {incorrectQuestions.map((question) => (
-                    <Grid item xs={12} key={question.id}>
+                  {incorrectQuestions.map((entry) => (
+                    <Grid item xs={12} key={entry.item.id}>
                       <Paper sx={{ p: 2, mb: 2 }}>
-                        <QuizCard question={question} />
+                        <LastWrongAnswer entry={entry} />
+                        {renderItem(entry.item)}
                         
-                        <SimilarItemsSection
-                          item={question}
-                          similarItems={similarQuestions}
-                          selectedItemId={selectedItemId}
-                          generatingSimilar={generatingSimilar}
-                          onGenerateSimilar={handleGenerateSimilar}
-                        />
+                        {renderSimilarItems(entry.item)}
                       </Paper>
                     </Grid>
                   ))}
@@ -307,22 +327,19 @@ const IncorrectItemsPage = () => {
             <TabPanel value={tabValue} index={1}>
               {incorrectTasks.length === 0 ? (
                 <Typography variant="body1" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
-                  You don't have any incorrect tasks yet. Keep practicing!
+                  {incorrectItems.length > 0
+                    ? 'No incorrect tasks match these filters.'
+                    : "You don't have any incorrect tasks yet. Keep practicing!"}
                 </Typography>
               ) : (
                 <Grid container spacing={3}>
-                  {incorrectTasks.map((task) => (
-                    <Grid item xs={12} key={task.id}>
+                  {incorrectTasks.map((entry) => (
+                    <Grid item xs={12} key={entry.item.id}>
                       <Paper sx={{ p: 2, mb: 2 }}>
-                        <TaskRunner task={task} />
+                        <LastWrongAnswer entry={entry} />
+                        {renderItem(entry.item)}
                         
-                        <SimilarItemsSection
-                          item={task}
-                          similarItems={similarTasks}
-                          selectedItemId={selectedItemId}
-                          generatingSimilar={generatingSimilar}
-                          onGenerateSimilar={handleGenerateSimilar}
-                        />
+                        {renderSimilarItems(entry.item)}
                       </Paper>
                     </Grid>
                   ))}
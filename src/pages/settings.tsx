@@ -19,6 +19,8 @@ import { useUserStore } from '@/store';
 import { doc, setDoc, getDoc } from 'firebase/firestore';
 import { db, auth } from '@/services/firebase';
 import { useRouter } from 'next/router';
+import type { ReviewPolicy } from '@/types';
+import { DEFAULT_REVIEW_POLICY } from '@/services/reviewConsensus';
 
 const SettingsPage = () => {
   const router = useRouter();
@@ -26,6 +28,7 @@ const SettingsPage = () => {
   
   const [username, setUsername] = useState(settings.username || '');
   const [aiReviewer, setAiReviewer] = useState(settings.aiReviewer || 'both');
+  const [reviewPolicy, setReviewPolicy] = useState<ReviewPolicy>(settings.reviewPolicy || DEFAULT_REVIEW_POLICY);
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState(false);
   const [error, setError] = useState('');
@@ -45,6 +48,10 @@ const SettingsPage = () => {
     setAiReviewer(e.target.value as 'deepseek' | 'gemini' | 'both');
   };
   
+  const handleReviewPolicyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setReviewPolicy(e.target.value as ReviewPolicy);
+  };
+  
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -67,6 +74,7 @@ const SettingsPage = () => {
       const updatedSettings = {
         username,
         aiReviewer: aiReviewer as 'deepseek' | 'gemini' | 'both',
+        reviewPolicy,
         updatedAt: new Date().toISOString()
       };
       
@@ -207,6 +215,33 @@ const SettingsPage = () => {
                   />
                 </RadioGroup>
               </FormControl>
+              
+              {aiReviewer === 'both' && (
+                <FormControl component="fieldset" sx={{ width: '100%', mt: 2 }}>
+                  <FormLabel component="legend" sx={{ color: 'text.secondary', mb: 1 }}>When the reviewers disagree</FormLabel>
+                  <RadioGroup
+                    value={reviewPolicy}
+                    onChange={handleReviewPolicyChange}
+                    sx={{ '& .MuiFormControlLabel-root': { my: 0.5 } }}
+                  >
+                    <FormControlLabel 
+                      value="all-pass" 
+                      control={<Radio sx={{ color: 'primary.main' }} />} 
+                      label="Both must pass (strictest)"
+                    />
+                    <FormControlLabel 
+                      value="majority" 
+                      control={<Radio sx={{ color: 'primary.main' }} />} 
+                      label="Majority vote (ties decided by score)"
+                    />
+                    <FormControlLabel 
+                      value="weighted" 
+                      control={<Radio sx={{ color: 'primary.main' }} />} 
+                      label="Weighted score (average score of 70 or more passes)"
+                    />
+                  </RadioGroup>
+                </FormControl>
+              )}
             </Box>
             
             <Box sx={{ mt: 5, display: 'flex', justifyContent: 'center' }}>
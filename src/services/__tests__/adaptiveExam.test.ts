@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { AdaptiveExamState, QuestionItem, TaskItem } from '@/types';
+import { INITIAL_ABILITY, createItemLookup, responseProbability, serveNextItem, updateAbility } from '../adaptiveExam';
+
+const mcq = (id: string, complexity: number, level: QuestionItem['level']) =>
+  ({ id, type: 'mcq', level, complexity, options: ['a', 'b'], answer: '0' }) as QuestionItem;
+
+const task = (id: string, complexity: number) => ({ id, difficulty: 'medium', complexity }) as TaskItem;
+
+const pool = [mcq('easy', 2, 'easy'), mcq('medium', 5, 'medium'), mcq('hard', 8, 'hard'), task('task', 5)];
+
+const state = (overrides: Partial<AdaptiveExamState> = {}): AdaptiveExamState => ({
+  pool: { questionIds: ['easy', 'medium', 'hard'], taskIds: ['task'] },
+  remaining: { mcq: 2, open: 0, coding: 1 },
+  ability: INITIAL_ABILITY,
+  responses: [],
+  ...overrides
+});
+
+describe('updateAbility', () => {
+  it('moves towards the evidence by the surprise of the answer', () => {
+    expect(responseProbability(5, 5)).toBe(0.5);
+    expect(updateAbility(5, 5, 1, 0)).toBe(6.5);
+    expect(updateAbility(5, 5, 0, 0)).toBe(3.5);
+  });
+
+  it('takes smaller steps as answers accumulate and stays on the scale', () => {
+    expect(updateAbility(5, 5, 1, 3)).toBe(5.75);
+    expect(updateAbility(9.5, 1, 1, 0)).toBeLessThanOrEqual(10);
+    expect(updateAbility(1.2, 10, 0, 0)).toBe(1.2 - 3 * responseProbability(1.2, 10));
+  });
+});
+
+describe('serveNextItem', () => {
+  it('serves the question closest to the ability and drops its id from the pool', () => {
+    const served = serveNextItem({ questions: [], tasks: [], adaptive: state() }, createItemLookup(pool));
+    expect(served?.questions.map(item => item.id)).toEqual(['medium']);
+    expect(served?.adaptive?.pool).toEqual({ questionIds: ['easy', 'hard'], taskIds: ['task'] });
+    expect(served?.adaptive?.remaining).toEqual({ mcq: 1, open: 0, coding: 1 });
+  });
+
+  it('serves tasks once no questions are left', () => {
+    const served = serveNextItem({ questions: [], tasks: [], adaptive: state({ remaining: { mcq: 0, open: 0, coding: 1 } }) }, createItemLookup(pool));
+    expect(served?.tasks.map(item => item.id)).toEqual(['task']);
+  });
+
+  it('skips ids the curriculum no longer has', () => {
+    const served = serveNextItem({ questions: [], tasks: [], adaptive: state() }, createItemLookup([pool[0]]));
+    expect(served?.questions.map(item => item.id)).toEqual(['easy']);
+  });
+
+  it('returns null when nothing is left to serve', () => {
+    expect(serveNextItem({ questions: [], tasks: [], adaptive: state() }, createItemLookup([]))).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { parseJsonText, parseReviewJson, toReviewResponse } from '../aiReviewParser';
+
+const review = {
+  verdict: 'pass',
+  score: 85,
+  summary: 'Handles the edge cases.',
+  rubric: [{ criterion: 'Correctness', score: 90, comment: 'All tests pass' }],
+  testCases: [{ testCase: 'sum(1, 2) === 3', verdict: 'pass', reason: '' }],
+  suggestions: ['Name the helper']
+};
+
+describe('parseJsonText', () => {
+  it('parses valid JSON as is', () => {
+    const text = JSON.stringify({ summary: 'Use “const”, not {a: 1,}' });
+    expect(parseJsonText(text)).toEqual({ summary: 'Use “const”, not {a: 1,}' });
+  });
+
+  it('repairs fences, prose, curly quotes and trailing commas when parsing fails', () => {
+    const text = 'Here is the review:\n```json\n{ “verdict”: “pass”, "suggestions": ["a",], }\n```';
+    expect(parseJsonText(text)).toEqual({ verdict: 'pass', suggestions: ['a'] });
+  });
+
+  it('throws when the repaired text still does not parse', () => {
+    expect(() => parseJsonText('no json here')).toThrow();
+  });
+});
+
+describe('parseReviewJson', () => {
+  it('accepts a review matching the schema', () => {
+    const { review: parsed, errors } = parseReviewJson(JSON.stringify(review));
+    expect(errors).toEqual([]);
+    expect(parsed).toEqual(review);
+  });
+
+  it('normalizes verdict case and numeric strings', () => {
+    const { review: parsed } = parseReviewJson(JSON.stringify({ ...review, verdict: 'FAIL', score: '42.4' }));
+    expect(parsed?.verdict).toBe('fail');
+    expect(parsed?.score).toBe(42);
+  });
+
+  it('treats missing test cases as none', () => {
+    const { testCases, ...withoutTests } = review;
+    expect(parseReviewJson(JSON.stringify(withoutTests)).review?.testCases).toEqual([]);
+  });
+
+  it('lists every contract violation', () => {
+    const { review: parsed, errors } = parseReviewJson(JSON.stringify({ ...review, verdict: 'maybe', score: 120, suggestions: 'none' }));
+    expect(parsed).toBeNull();
+    expect(errors).toEqual([
+      '"verdict" must be "pass" or "fail"',
+      '"score" must be a number between 0 and 100',
+      '"suggestions" must be an array of strings'
+    ]);
+  });
+
+  it('rejects responses that are not an object', () => {
+    expect(parseReviewJson('[1, 2]').errors).toEqual(['Response must be a JSON object']);
+    expect(parseReviewJson('nothing').errors[0]).toMatch(/^Response is not valid JSON/);
+  });
+});
+
+describe('toReviewResponse', () => {
+  it('maps the verdict and formats the feedback', () => {
+    const response = toReviewResponse(parseReviewJson(JSON.stringify(review)).review!);
+    expect(response.isCorrect).toBe(true);
+    expect(response.feedback).toContain('Verdict: PASS (score 85/100)');
+    expect(response.feedback).toContain('- [pass] sum(1, 2) === 3');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { MasteryEstimate, QuestionItem } from '@/types';
+import { P_INIT, applyAttempt, getMasterySkills, getWeakAreas, updateKnowledge } from '../masteryModel';
+
+const question = {
+  id: 'q1',
+  topic: 'JavaScript closures',
+  type: 'mcq',
+  options: ['a', 'b', 'c', 'd'],
+  tags: ['closures', 'Closures', 'scope'],
+  keyConcepts: ['lexical scope'],
+  learningPath: 'intermediate'
+} as QuestionItem;
+
+const estimate = (key: string, pKnown: number, attempts: number): MasteryEstimate => ({
+  key,
+  dimension: 'tag',
+  label: key,
+  pKnown,
+  attempts,
+  correct: 0,
+  updatedAt: ''
+});
+
+describe('updateKnowledge', () => {
+  it('raises the estimate after a correct answer and lowers it after a wrong one', () => {
+    expect(updateKnowledge(P_INIT, true, 0.1)).toBeCloseTo(0.8147, 4);
+    expect(updateKnowledge(P_INIT, false, 0.1)).toBeCloseTo(0.1409, 4);
+  });
+
+  it('trusts a correct answer less when it is easy to guess', () => {
+    expect(updateKnowledge(P_INIT, true, 0.5)).toBeLessThan(updateKnowledge(P_INIT, true, 0.1));
+  });
+});
+
+describe('getMasterySkills', () => {
+  it('covers tags, concepts, technology and learning path once each', () => {
+    expect(getMasterySkills(question)).toEqual([
+      { dimension: 'tag', label: 'closures' },
+      { dimension: 'tag', label: 'scope' },
+      { dimension: 'concept', label: 'lexical scope' },
+      { dimension: 'technology', label: 'JavaScript' },
+      { dimension: 'learningPath', label: 'intermediate' }
+    ]);
+  });
+});
+
+describe('applyAttempt', () => {
+  it('updates every skill from its previous estimate, guessing at 1 / options for MCQs', () => {
+    const now = new Date('2024-03-01T00:00:00.000Z');
+    const updated = applyAttempt({ 'tag:closures': estimate('closures', 0.6, 3) }, question, true, now);
+
+    expect(updated).toHaveLength(5);
+    expect(updated[0]).toMatchObject({ key: 'tag:closures', attempts: 4, correct: 1, updatedAt: now.toISOString() });
+    expect(updated[0].pKnown).toBeCloseTo(updateKnowledge(0.6, true, 0.25), 10);
+    expect(updated[1]).toMatchObject({ key: 'tag:scope', attempts: 1, correct: 1 });
+  });
+});
+
+describe('getWeakAreas', () => {
+  it('returns low estimates with enough attempts, lowest first', () => {
+    const weak = getWeakAreas([
+      estimate('a', 0.4, 2),
+      estimate('b', 0.2, 5),
+      estimate('c', 0.1, 1),
+      estimate('d', 0.7, 4)
+    ]);
+    expect(weak.map(entry => entry.key)).toEqual(['b', 'a']);
+  });
+});
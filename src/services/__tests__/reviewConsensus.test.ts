@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { ReviewerOpinion } from '@/types';
+import { findDisagreements, reconcileReviews, reconcileVerdict, weightedScore } from '../reviewConsensus';
+
+const opinion = (reviewer: string, verdict: 'pass' | 'fail', score: number, caseVerdicts: ('pass' | 'fail' | 'unknown')[] = []): ReviewerOpinion => ({
+  reviewer,
+  label: reviewer,
+  verdict,
+  score,
+  summary: `${reviewer} summary`,
+  rubric: [],
+  testCaseVerdicts: caseVerdicts.map((verdict, index) => ({ testCase: `case ${index + 1}`, verdict, reason: '' })),
+  suggestions: []
+});
+
+describe('reconcileVerdict', () => {
+  const split = [opinion('deepseek', 'pass', 90), opinion('gemini', 'fail', 60)];
+
+  it('needs every reviewer to pass under all-pass', () => {
+    expect(reconcileVerdict(split, 'all-pass')).toBe('fail');
+    expect(reconcileVerdict([opinion('deepseek', 'pass', 90), opinion('gemini', 'pass', 80)], 'all-pass')).toBe('pass');
+  });
+
+  it('breaks majority ties with the weighted score', () => {
+    expect(weightedScore(split)).toBe(75);
+    expect(reconcileVerdict(split, 'majority')).toBe('pass');
+    expect(reconcileVerdict([opinion('deepseek', 'pass', 70), opinion('gemini', 'fail', 40)], 'majority')).toBe('fail');
+  });
+
+  it('only looks at the score under weighted', () => {
+    expect(reconcileVerdict([opinion('deepseek', 'fail', 72), opinion('gemini', 'fail', 70)], 'weighted')).toBe('pass');
+  });
+});
+
+describe('findDisagreements', () => {
+  it('reports the verdict and test cases the reviewers disagree on', () => {
+    const disagreements = findDisagreements([
+      opinion('deepseek', 'pass', 90, ['pass', 'pass']),
+      opinion('gemini', 'fail', 40, ['pass', 'fail'])
+    ]);
+    expect(disagreements).toEqual([
+      { subject: 'verdict', verdicts: { deepseek: 'pass', gemini: 'fail' } },
+      { subject: 'case 2', verdicts: { deepseek: 'pass', gemini: 'fail' } }
+    ]);
+  });
+});
+
+describe('reconcileReviews', () => {
+  it('merges test case verdicts, marking conflicts unknown', () => {
+    const review = reconcileReviews([
+      opinion('deepseek', 'pass', 90, ['pass', 'pass']),
+      opinion('gemini', 'pass', 80, ['pass', 'fail'])
+    ], 'all-pass');
+    expect(review.isCorrect).toBe(true);
+    expect(review.score).toBe(85);
+    expect(review.testCaseVerdicts?.map(verdict => verdict.verdict)).toEqual(['pass', 'unknown']);
+    expect(review.feedback).toMatch(/^Final verdict: PASS \(all-pass policy, weighted score 85\/100\)\nReviewers disagree on: case 2/);
+  });
+});
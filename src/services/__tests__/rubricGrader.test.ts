@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { QuestionItem } from '@/types';
+import { gradeAnswer, stem, stemmedTerms } from '../rubricGrader';
+
+const question = {
+  id: 'q1',
+  type: 'open',
+  question: 'What is a closure?',
+  answer: '',
+  tags: [],
+  keyConcepts: ['lexical scope', 'inner function'],
+  evaluationCriteria: []
+} as unknown as QuestionItem;
+
+describe('stem', () => {
+  it('strips common suffixes and keeps short or protected words', () => {
+    expect(stem('rendering')).toBe('render');
+    expect(stem('dependencies')).toBe('dependency');
+    expect(stem('class')).toBe('class');
+    expect(stem('status')).toBe('status');
+  });
+
+  it('maps inflections of a word onto the same term', () => {
+    expect(stemmedTerms('caching cached caches')).toEqual(new Set(['cach']));
+  });
+});
+
+describe('gradeAnswer', () => {
+  it('passes answers that cover every concept', () => {
+    const grade = gradeAnswer(question, 'An inner function keeps access to its lexical scope.');
+    expect(grade.verdict).toBe('pass');
+    expect(grade.score).toBe(100);
+  });
+
+  it('fails answers that miss every concept', () => {
+    expect(gradeAnswer(question, 'It is a kind of loop.').verdict).toBe('fail');
+  });
+
+  it('fails empty answers and sends answers with nothing to check to a reviewer', () => {
+    expect(gradeAnswer(question, '').verdict).toBe('fail');
+    expect(gradeAnswer({ ...question, keyConcepts: [] }, 'Anything at all').verdict).toBe('borderline');
+  });
+});
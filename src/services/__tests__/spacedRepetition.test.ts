@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { ReviewSchedule } from '@/types';
+import { MIN_EASE, isDue, qualityFromResult, scheduleReview } from '../spacedRepetition';
+
+const now = new Date('2024-03-01T10:00:00.000Z');
+
+const schedule = (overrides: Partial<ReviewSchedule>): ReviewSchedule => ({
+  ease: 2.5,
+  intervalDays: 1,
+  repetitions: 1,
+  lapses: 0,
+  dueAt: now.toISOString(),
+  lastReviewedAt: now.toISOString(),
+  lastQuality: 4,
+  ...overrides
+});
+
+describe('qualityFromResult', () => {
+  it('maps scores onto SM-2 quality', () => {
+    expect(qualityFromResult(false)).toBe(2);
+    expect(qualityFromResult(false, 20)).toBe(1);
+    expect(qualityFromResult(true)).toBe(4);
+    expect(qualityFromResult(true, 95)).toBe(5);
+    expect(qualityFromResult(true, 80)).toBe(4);
+    expect(qualityFromResult(true, 70)).toBe(3);
+  });
+});
+
+describe('scheduleReview', () => {
+  it('schedules a first review for the next day', () => {
+    expect(scheduleReview(null, 4, now)).toEqual({
+      ease: 2.5,
+      intervalDays: 1,
+      repetitions: 1,
+      lapses: 0,
+      dueAt: '2024-03-02T10:00:00.000Z',
+      lastReviewedAt: now.toISOString(),
+      lastQuality: 4
+    });
+  });
+
+  it('waits six days after the second success', () => {
+    expect(scheduleReview(schedule({ repetitions: 1 }), 4, now).intervalDays).toBe(6);
+  });
+
+  it('multiplies the interval by the updated ease afterwards', () => {
+    const next = scheduleReview(schedule({ repetitions: 2, intervalDays: 6 }), 5, now);
+    expect(next.ease).toBe(2.6);
+    expect(next.intervalDays).toBe(16);
+    expect(next.repetitions).toBe(3);
+  });
+
+  it('restarts the interval and counts a lapse on failure', () => {
+    const next = scheduleReview(schedule({ repetitions: 3, intervalDays: 16 }), 2, now);
+    expect(next).toMatchObject({ ease: 2.18, intervalDays: 1, repetitions: 0, lapses: 1 });
+  });
+
+  it('does not count a lapse for a first attempt', () => {
+    expect(scheduleReview(null, 1, now).lapses).toBe(0);
+  });
+
+  it('keeps the ease at its floor', () => {
+    expect(scheduleReview(schedule({ ease: MIN_EASE }), 0, now).ease).toBe(MIN_EASE);
+  });
+});
+
+describe('isDue', () => {
+  it('counts anything due by the end of today', () => {
+    const laterToday = new Date(now);
+    laterToday.setHours(23, 0, 0, 0);
+    const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    expect(isDue(schedule({ dueAt: laterToday.toISOString() }), now)).toBe(true);
+    expect(isDue(schedule({ dueAt: tomorrow.toISOString() }), now)).toBe(false);
+  });
+});
@@ -0,0 +1,211 @@
+import type {
+  AdaptiveExamState,
+  Difficulty,
+  ExamQuestion,
+  ExamTask,
+  MockExam,
+  ProficiencyEstimate,
+  ProficiencyLevel,
+  QuestionItem,
+  TaskItem
+} from '@/types';
+import { getItemTechnology } from './dataService';
+import { gradeAnswer } from './rubricGrader';
+import { gradeTracePrediction, isCodeTraceQuestion, runCodeTrace } from './codeTraceService';
+import { runTestCases } from './testRunnerService';
+import { runComponentTests } from './componentTestService';
+
+// Adaptive exams start in the middle of the 1-10 complexity scale
+export const INITIAL_ABILITY = 5;
+
+// Candidates kept per requested item, so the pool covers every difficulty
+export const POOL_FACTOR = 4;
+
+// Spread of the logistic response curve, in complexity points
+const ABILITY_SCALE = 1.5;
+
+// The first answer moves the estimate by up to this much, later ones less
+const INITIAL_STEP = 3;
+
+// Spread of the prior around INITIAL_ABILITY for the final estimate
+const PRIOR_SD = 2.5;
+
+// Extra distance for an item whose level doesn't match the ability band
+const LEVEL_MISMATCH_COST = 2;
+
+// Answers that can't be checked without the AI reviewer don't move the estimate much
+const NEUTRAL_SCORE = 0.5;
+
+// Upper bounds of the ability bands, in order
+const LEVEL_BANDS: [Difficulty, number][] = [['easy', 4], ['medium', 7], ['hard', Infinity]];
+
+const PROFICIENCY_BANDS: [ProficiencyLevel, number][] = [['beginner', 3], ['junior', 5.5], ['middle', 7.5], ['senior', Infinity]];
+
+type AdaptiveItem = QuestionItem | TaskItem;
+
+// Finds a pool item by id; the exam only stores the ids, to stay within
+// Firestore's document size limit
+export type AdaptiveItemLookup = (id: string) => AdaptiveItem | undefined;
+
+type ItemKind = keyof AdaptiveExamState['remaining'];
+
+const clampAbility = (ability: number) => Math.min(10, Math.max(1, ability));
+
+const getLevel = (item: AdaptiveItem): Difficulty => 'level' in item ? item.level : item.difficulty;
+
+const getKind = (item: AdaptiveItem): ItemKind => 'level' in item ? (item.type === 'mcq' ? 'mcq' : 'open') : 'coding';
+
+// Chance of a correct answer to an item of this complexity
+export const responseProbability = (ability: number, complexity: number): number =>
+  1 / (1 + Math.exp(-(ability - complexity) / ABILITY_SCALE));
+
+export const abilityToLevel = (ability: number): Difficulty =>
+  LEVEL_BANDS.find(([, upTo]) => ability < upTo)![0];
+
+export const abilityToProficiency = (ability: number): ProficiencyLevel =>
+  PROFICIENCY_BANDS.find(([, upTo]) => ability < upTo)![0];
+
+// Move the estimate towards the evidence, with smaller steps as answers accumulate
+export const updateAbility = (ability: number, complexity: number, score: number, answered: number): number =>
+  clampAbility(ability + (INITIAL_STEP / Math.sqrt(answered + 1)) * (score - responseProbability(ability, complexity)));
+
+export const hasMoreItems = (state: AdaptiveExamState): boolean =>
+  state.remaining.mcq + state.remaining.open + state.remaining.coding > 0;
+
+// Questions are served before tasks, since exam items are ordered that way;
+// MCQs and open questions alternate in proportion to what is left
+const nextKind = (remaining: AdaptiveExamState['remaining']): ItemKind | null => {
+  if (remaining.mcq + remaining.open > 0) {
+    return remaining.mcq >= remaining.open ? 'mcq' : 'open';
+  }
+  return remaining.coding > 0 ? 'coding' : null;
+};
+
+// The most informative candidate is the one closest to the ability estimate,
+// preferring items whose level matches the current band
+const pickClosest = <T extends AdaptiveItem>(candidates: T[], ability: number): T | undefined => {
+  const level = abilityToLevel(ability);
+  const cost = (item: T) => Math.abs(item.complexity - ability) + (getLevel(item) === level ? 0 : LEVEL_MISMATCH_COST);
+  return candidates.reduce<T | undefined>((best, item) => (!best || cost(item) < cost(best) ? item : best), undefined);
+};
+
+export const createItemLookup = (items: AdaptiveItem[]): AdaptiveItemLookup => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  return id => byId.get(id);
+};
+
+// Move the best next item from the pool into the exam; null once nothing is
+// left to serve. Ids the curriculum no longer has are skipped.
+export const serveNextItem = (
+  exam: Pick<MockExam, 'questions' | 'tasks'> & { adaptive: AdaptiveExamState },
+  lookup: AdaptiveItemLookup
+): Pick<MockExam, 'questions' | 'tasks' | 'adaptive'> | null => {
+  const state = exam.adaptive;
+  const remaining = { ...state.remaining };
+  const questions = state.pool.questionIds.map(lookup).filter((item): item is QuestionItem => !!item && 'level' in item);
+  const tasks = state.pool.taskIds.map(lookup).filter((item): item is TaskItem => !!item && !('level' in item));
+
+  for (let kind = nextKind(remaining); kind; kind = nextKind(remaining)) {
+    const served = kind === 'coding'
+      ? pickClosest(tasks, state.ability)
+      : pickClosest(questions.filter(question => getKind(question) === kind), state.ability);
+
+    if (!served) {
+      // The pool ran out of this kind
+      remaining[kind] = 0;
+      continue;
+    }
+
+    remaining[kind]--;
+    const adaptive: AdaptiveExamState = {
+      ...state,
+      remaining,
+      pool: {
+        questionIds: state.pool.questionIds.filter(id => id !== served.id),
+        taskIds: state.pool.taskIds.filter(id => id !== served.id)
+      }
+    };
+    return 'level' in served
+      ? { questions: [...exam.questions, served], tasks: exam.tasks, adaptive }
+      : { questions: exam.questions, tasks: [...exam.tasks, served], adaptive };
+  }
+
+  return null;
+};
+
+export const recordResponse = (state: AdaptiveExamState, item: AdaptiveItem, score: number): AdaptiveExamState => ({
+  ...state,
+  ability: updateAbility(state.ability, item.complexity, score, state.responses.length),
+  responses: [...state.responses, { itemId: item.id, complexity: item.complexity, score }]
+});
+
+// Quick 0-1 score used only to pick the next item: MCQs, code traces, rubrics
+// and tests run locally. The full grading with AI review runs after submission.
+export const scoreResponse = async (item: AdaptiveItem, answer: string): Promise<number> => {
+  const trimmed = answer.trim();
+  if (!trimmed) {
+    return 0;
+  }
+
+  try {
+    if ('level' in item) {
+      if (item.type === 'mcq') {
+        return item.options[parseInt(item.answer)] === trimmed ? 1 : 0;
+      }
+      if (isCodeTraceQuestion(item)) {
+        const run = await runCodeTrace(item.example!);
+        if (!run.error) {
+          return gradeTracePrediction(trimmed, run).score / 100;
+        }
+      }
+      return item.type === 'open' || item.type === 'flashcard' ? gradeAnswer(item, trimmed).score / 100 : NEUTRAL_SCORE;
+    }
+
+    if (trimmed === item.startingCode.trim()) {
+      return 0;
+    }
+    const summary = item.componentTests && item.componentTests.length > 0
+      ? await runComponentTests(answer, item.componentTests)
+      : item.testCases.length > 0 ? await runTestCases(answer, item.testCases) : null;
+    return summary && summary.executed > 0 ? summary.passed / summary.executed : NEUTRAL_SCORE;
+  } catch (error) {
+    console.error('Error scoring adaptive response:', error);
+    return NEUTRAL_SCORE;
+  }
+};
+
+// Most likely ability given the graded scores, searched on a 0.1 grid with
+// a weak prior at the middle so all-correct or all-wrong runs stay finite
+const estimateAbility = (responses: { complexity: number; score: number }[]): number => {
+  let best = INITIAL_ABILITY;
+  let bestLikelihood = -Infinity;
+
+  for (let step = 0; step <= 90; step++) {
+    const ability = 1 + step / 10;
+    const likelihood = responses.reduce((sum, { complexity, score }) => {
+      const p = responseProbability(ability, complexity);
+      return sum + score * Math.log(p) + (1 - score) * Math.log(1 - p);
+    }, -((ability - INITIAL_ABILITY) ** 2) / (2 * PRIOR_SD ** 2));
+
+    if (likelihood > bestLikelihood) {
+      bestLikelihood = likelihood;
+      best = ability;
+    }
+  }
+
+  return best;
+};
+
+// Proficiency per technology from the final grades of an adaptive exam
+export const estimateProficiency = (items: (ExamQuestion | ExamTask)[]): ProficiencyEstimate[] => {
+  const byTechnology = new Map<string, (ExamQuestion | ExamTask)[]>();
+  items.forEach(item => {
+    const technology = getItemTechnology(item);
+    byTechnology.set(technology, [...(byTechnology.get(technology) || []), item]);
+  });
+
+  return Array.from(byTechnology.entries()).map(([technology, graded]) => {
+    const ability = estimateAbility(graded.map(item => ({ complexity: item.complexity, score: (item.score || 0) / 100 })));
+    return { technology, ability, level: abilityToProficiency(ability), items: graded.length };
+  });
+};
@@ -0,0 +1,198 @@
+import type { AIReviewResponse, RubricScore, TestCaseVerdict } from '@/types';
+
+// Shape the review prompt asks the model to return
+export interface StructuredReview {
+  verdict: 'pass' | 'fail';
+  score: number;
+  summary: string;
+  rubric: RubricScore[];
+  testCases: TestCaseVerdict[];
+  suggestions: string[];
+}
+
+export interface ReviewParseResult {
+  review: StructuredReview | null;
+  errors: string[];
+}
+
+// JSON contract included verbatim in review prompts
+export const REVIEW_JSON_SCHEMA = `{
+  "verdict": "pass" | "fail",
+  "score": number (integer 0-100),
+  "summary": string (why the solution is or isn't correct),
+  "rubric": [{ "criterion": string, "score": number (0-100), "comment": string }],
+  "testCases": [{ "testCase": string, "verdict": "pass" | "fail" | "unknown", "reason": string }],
+  "suggestions": [string]
+}`;
+
+// Local fixes for common formatting slips before giving up on a response
+const repairJsonText = (text: string): string => {
+  let repaired = text.trim();
+
+  const fenced = repaired.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    repaired = fenced[1].trim();
+  }
+
+  const start = repaired.indexOf('{');
+  const end = repaired.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    repaired = repaired.slice(start, end + 1);
+  }
+
+  return repaired
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/,\s*([}\]])/g, '$1');
+};
+
+const toScore = (value: unknown): number | null => {
+  const score = typeof value === 'string' ? Number(value) : value;
+  if (typeof score !== 'number' || Number.isNaN(score) || score < 0 || score > 100) {
+    return null;
+  }
+  return Math.round(score);
+};
+
+// Validate the parsed object against the review contract
+const validateReview = (data: any): ReviewParseResult => {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { review: null, errors: ['Response must be a JSON object'] };
+  }
+
+  const verdict = typeof data.verdict === 'string' ? data.verdict.toLowerCase() : data.verdict;
+  if (verdict !== 'pass' && verdict !== 'fail') {
+    errors.push('"verdict" must be "pass" or "fail"');
+  }
+
+  const score = toScore(data.score);
+  if (score === null) {
+    errors.push('"score" must be a number between 0 and 100');
+  }
+
+  if (typeof data.summary !== 'string' || !data.summary.trim()) {
+    errors.push('"summary" must be a non-empty string');
+  }
+
+  const rubric: RubricScore[] = [];
+  if (!Array.isArray(data.rubric)) {
+    errors.push('"rubric" must be an array');
+  } else {
+    data.rubric.forEach((entry: any, index: number) => {
+      const entryScore = toScore(entry?.score);
+      if (typeof entry?.criterion !== 'string' || entryScore === null) {
+        errors.push(`"rubric[${index}]" must have a string "criterion" and a 0-100 "score"`);
+        return;
+      }
+      rubric.push({ criterion: entry.criterion, score: entryScore, comment: String(entry.comment || '') });
+    });
+  }
+
+  const testCases: TestCaseVerdict[] = [];
+  if (data.testCases !== undefined && !Array.isArray(data.testCases)) {
+    errors.push('"testCases" must be an array');
+  } else {
+    (data.testCases || []).forEach((entry: any, index: number) => {
+      const entryVerdict = typeof entry?.verdict === 'string' ? entry.verdict.toLowerCase() : entry?.verdict;
+      if (typeof entry?.testCase !== 'string' || !['pass', 'fail', 'unknown'].includes(entryVerdict)) {
+        errors.push(`"testCases[${index}]" must have a string "testCase" and a "pass" | "fail" | "unknown" "verdict"`);
+        return;
+      }
+      testCases.push({ testCase: entry.testCase, verdict: entryVerdict, reason: String(entry.reason || '') });
+    });
+  }
+
+  if (!Array.isArray(data.suggestions) || data.suggestions.some((s: unknown) => typeof s !== 'string')) {
+    errors.push('"suggestions" must be an array of strings');
+  }
+
+  if (errors.length > 0) {
+    return { review: null, errors };
+  }
+
+  return {
+    review: {
+      verdict,
+      score: score as number,
+      summary: data.summary.trim(),
+      rubric,
+      testCases,
+      suggestions: data.suggestions.map((s: string) => s.trim()).filter(Boolean)
+    },
+    errors: []
+  };
+};
+
+// Valid JSON is parsed as is; the repairs could corrupt string values
+// that quote code, so they only run when it doesn't parse
+export const parseJsonText = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return JSON.parse(repairJsonText(text));
+  }
+};
+
+// Parse and validate a raw model response
+export const parseReviewJson = (text: string): ReviewParseResult => {
+  let data: unknown;
+  try {
+    data = parseJsonText(text);
+  } catch (error: any) {
+    return { review: null, errors: [`Response is not valid JSON: ${error.message}`] };
+  }
+  return validateReview(data);
+};
+
+// Prompt asking the model to fix its previous, invalid response
+export const buildRepairPrompt = (originalPrompt: string, response: string, errors: string[]): string => `
+${originalPrompt}
+
+Your previous response could not be used:
+${response.slice(0, 4000)}
+
+Problems found:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with ONLY a JSON object matching the schema. No markdown, no commentary.
+`;
+
+// Human readable feedback rendered by TaskRunner and QuizCard
+export const formatReviewFeedback = (review: StructuredReview): string => {
+  const sections = [
+    `Verdict: ${review.verdict.toUpperCase()} (score ${review.score}/100)`,
+    review.summary
+  ];
+
+  if (review.rubric.length > 0) {
+    sections.push(`Rubric:\n${review.rubric
+      .map(entry => `- ${entry.criterion}: ${entry.score}/100${entry.comment ? ` - ${entry.comment}` : ''}`)
+      .join('\n')}`);
+  }
+
+  if (review.testCases.length > 0) {
+    sections.push(`Test cases:\n${review.testCases
+      .map(entry => `- [${entry.verdict}] ${entry.testCase}${entry.reason ? ` - ${entry.reason}` : ''}`)
+      .join('\n')}`);
+  }
+
+  if (review.suggestions.length > 0) {
+    sections.push(`Suggestions:\n${review.suggestions.map(s => `- ${s}`).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+};
+
+// Map a validated review onto the response used across the app
+export const toReviewResponse = (review: StructuredReview): AIReviewResponse => ({
+  isCorrect: review.verdict === 'pass',
+  verdict: review.verdict,
+  score: review.score,
+  summary: review.summary,
+  rubric: review.rubric,
+  testCaseVerdicts: review.testCases,
+  suggestions: review.suggestions,
+  feedback: formatReviewFeedback(review)
+});
@@ -1,184 +1,84 @@
-import { AIReviewRequest, AIReviewResponse, QuestionItem, TaskItem } from '@/types';
+import { AIReviewRequest, AIReviewResponse, InterviewFollowUp, InterviewScorecard, InterviewTurn, QuestionItem, ReviewPolicy, ReviewStreamEvent, TaskItem } from '@/types';
+// AI provider keys live on the server; these helpers call the /api/ai routes
+// with the signed-in user's Firebase ID token.
+import { postJsonWithIdToken, postWithIdToken } from './apiClient';
 
-// Gemini API service
-export const callGeminiAPI = async (prompt: string): Promise<string> => {
-  try {
-    const apiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('Gemini API key is not defined in environment variables');
-    }
-    
-    const response = await fetch('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-05-20:generateContent', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-key': apiKey
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: prompt
-              }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: 1,
-          topP: 0.95,
-          maxOutputTokens: 62000
-        }
-      })
-    });
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
 
-    const data = await response.json();
-    if (!data.candidates || !data.candidates[0]?.content?.parts?.[0]?.text) {
-      throw new Error('Invalid response format from Gemini API');
-    }
-    return data.candidates[0].content.parts[0].text;
-  } catch (error) {
-    console.error('Error calling Gemini API:', error);
-    throw error;
-  }
-};
-
-// DeepSeek API service via OpenRouter
-const callDeepSeekAPI = async (prompt: string): Promise<string> => {
+// Main review function
+export const reviewCode = async (
+  request: AIReviewRequest, 
+  aiReviewer: 'deepseek' | 'gemini' | 'both',
+  policy?: ReviewPolicy
+): Promise<AIReviewResponse> => {
   try {
-    const apiKey = process.env.NEXT_PUBLIC_OPENROUTER_API_KEY;
-    if (!apiKey) {
-      throw new Error('OpenRouter API key is not defined in environment variables');
-    }
-    
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: 'deepseek/deepseek-coder-v2',
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.2,
-        max_tokens: 8192
-      })
-    });
-
-    const data = await response.json();
-    if (!data.choices || !data.choices[0]?.message?.content) {
-      throw new Error('Invalid response format from DeepSeek API');
-    }
-    return data.choices[0].message.content;
+    return await postJsonWithIdToken<AIReviewResponse>('/api/ai/review', { request, aiReviewer, policy });
   } catch (error) {
-    console.error('Error calling DeepSeek API:', error);
+    console.error('Error reviewing code:', error);
     throw error;
   }
 };
 
-// Parse AI response to structured format
-const parseAIResponse = (response: string): AIReviewResponse => {
+// Review with live output: onEvent receives each reviewer's text as it streams in.
+// Abort the signal to cancel; the returned promise then rejects with an AbortError.
+export const streamReviewCode = async (
+  request: AIReviewRequest,
+  aiReviewer: 'deepseek' | 'gemini' | 'both',
+  onEvent: (event: ReviewStreamEvent) => void,
+  options: { signal?: AbortSignal; policy?: ReviewPolicy } = {}
+): Promise<AIReviewResponse> => {
   try {
-    // Extract correctness
-    const isCorrect = response.toLowerCase().includes('correct') || 
-                      response.toLowerCase().includes('passes all tests');
-    
-    // Extract score if available
-    const scoreMatch = response.match(/score:\s*(\d+)/i);
-    const score = scoreMatch ? parseInt(scoreMatch[1], 10) : undefined;
-    
-    // Extract suggestions
-    const suggestionPattern = /suggestions?:|improvements?:|could be improved by:|consider:|recommendations?:/i;
-    const parts = response.split(suggestionPattern);
-    
-    let suggestions: string[] = [];
-    if (parts.length > 1) {
-      const suggestionText = parts[1].trim();
-      suggestions = suggestionText
-        .split(/\d+\.\s|\n-\s|\n\*\s/)
-        .filter(s => s.trim().length > 0)
-        .map(s => s.trim());
+    const response = await postWithIdToken('/api/ai/review-stream', { request, aiReviewer, policy: options.policy }, options.signal);
+    if (!response.body) {
+      throw new Error('Streaming is not supported by this browser');
     }
     
-    return {
-      isCorrect,
-      feedback: response,
-      suggestions,
-      score
-    };
-  } catch (error) {
-    console.error('Error parsing AI response:', error);
-    return {
-      isCorrect: false,
-      feedback: response,
-      suggestions: []
-    };
-  }
-};
-
-// Main review function
-export const reviewCode = async (
-  request: AIReviewRequest, 
-  aiReviewer: 'deepseek' | 'gemini' | 'both'
-): Promise<AIReviewResponse> => {
-  try {
-    // Construct prompt
-    const prompt = `
-      You are an expert code reviewer for frontend interview preparation.
-      
-      Please review the following ${request.type === 'task' ? 'coding task solution' : 'answer to a question'}.
-      
-      ${request.type === 'task' ? 'TASK:' : 'QUESTION:'} ${request.prompt}
-      
-      ${request.type === 'task' ? 'USER CODE:' : 'USER ANSWER:'} 
-      \`\`\`
-      ${request.userCode}
-      \`\`\`
-      
-      ${request.testCases && request.testCases.length > 0 ? 
-        `TEST CASES TO VERIFY:\n${request.testCases.join('\n')}` : ''}
-      
-      Please provide a detailed review including:
-      1. Is the solution correct? (Yes/No)
-      2. Detailed explanation of why it is correct or incorrect
-      3. Code quality assessment (efficiency, readability, best practices)
-      4. Suggestions for improvement
-      5. Alternative approaches if applicable
-      
-      Format your response in a clear, structured way.
-    `;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result: AIReviewResponse | null = null;
     
-    let response: string;
+    const handleLine = (line: string) => {
+      if (!line.trim()) {
+        return;
+      }
+      const event = JSON.parse(line) as ReviewStreamEvent;
+      if (event.type === 'error') {
+        throw new Error(event.error);
+      }
+      if (event.type === 'result') {
+        result = event.review;
+      }
+      onEvent(event);
+    };
     
-    // Call appropriate AI service(s)
-    if (aiReviewer.toLowerCase() === 'deepseek') {
-      response = await callDeepSeekAPI(prompt);
-    } else if (aiReviewer.toLowerCase() === 'gemini') {
-      response = await callGeminiAPI(prompt);
-    } else {
-      // Call both and combine results
-      const [deepSeekResponse, geminiResponse] = await Promise.all([
-        callDeepSeekAPI(prompt),
-        callGeminiAPI(prompt)
-      ]);
-      
-      response = `
-        === DEEPSEEK REVIEW ===
-        ${deepSeekResponse}
-        
-        === GEMINI REVIEW ===
-        ${geminiResponse}
-      `;
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      }
+    } catch (error) {
+      // An error event or a malformed line ends the review; close the stream
+      await reader.cancel().catch(() => undefined);
+      throw error;
     }
+    handleLine(buffer);
     
-    return parseAIResponse(response);
+    if (!result) {
+      throw new Error('Review stream ended without a result');
+    }
+    return result;
   } catch (error) {
-    console.error('Error reviewing code:', error);
+    if (!isAbortError(error)) {
+      console.error('Error streaming review:', error);
+    }
     throw error;
   }
 };
@@ -189,22 +89,8 @@ export const generateSimilarItems = async (
   aiModel: 'deepseek' | 'gemini' | 'both' = 'gemini'
 ): Promise<(QuestionItem | TaskItem)[]> => {
   try {
-    const results: (QuestionItem | TaskItem)[] = [];
-    
-    for (const item of items) {
-      const itemType = 'type' in item ? item.type : 
-                      'options' in item ? 'question' : 'task';
-      
-      const similarItem = await generateSimilarItem(
-        itemType as 'question' | 'task',
-        item,
-        aiModel
-      );
-      
-      results.push(similarItem);
-    }
-    
-    return results;
+    const data = await postJsonWithIdToken<{ items: (QuestionItem | TaskItem)[] }>('/api/ai/generate-similar', { items, aiModel });
+    return data.items;
   } catch (error) {
     console.error('Error generating similar items:', error);
     throw error;
@@ -218,48 +104,42 @@ export const generateSimilarItem = async (
   aiModel: 'deepseek' | 'gemini' | 'both' = 'gemini'
 ): Promise<QuestionItem | TaskItem> => {
   try {
-    const prompt = `
-      You are an expert in creating frontend interview content.
-      
-      Please create a new ${itemType} similar to the one below but with different specifics:
-      
-      ORIGINAL ${itemType.toUpperCase()}:
-      ${JSON.stringify(originalItem, null, 2)}
-      
-      Create a new ${itemType} that:
-      1. Tests the same concepts but in a different way
-      2. Has the same difficulty level
-      3. Follows the exact same JSON structure as the original
-      4. Has unique content that doesn't duplicate the original
-      5. Includes a new unique ID prefixed with "generated_"
-      
-      Return ONLY the JSON object for the new ${itemType}, properly formatted.
-    `;
-    
-    let response: string;
-    
-    if (aiModel.toLowerCase() === 'deepseek') {
-      response = await callDeepSeekAPI(prompt);
-    } else if (aiModel.toLowerCase() === 'gemini') {
-      response = await callGeminiAPI(prompt);
-    } else {
-      // Use Gemini as default for generation tasks
-      response = await callGeminiAPI(prompt);
-    }
-    
-    // Extract JSON from response
-    const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/) || 
-                     response.match(/```\n([\s\S]*?)\n```/) ||
-                     response.match(/{[\s\S]*}/);
-                     
-    if (jsonMatch) {
-      const jsonStr = jsonMatch[1] || jsonMatch[0];
-      return JSON.parse(jsonStr);
-    }
-    
-    throw new Error('Failed to parse generated item');
+    const data = await postJsonWithIdToken<{ items: (QuestionItem | TaskItem)[] }>('/api/ai/generate-similar', {
+      items: [originalItem],
+      itemType,
+      aiModel
+    });
+    return data.items[0];
   } catch (error) {
     console.error('Error generating similar item:', error);
     throw error;
   }
 };
+
+// Ask the AI interviewer whether to probe an answer further
+export const getInterviewFollowUp = async (
+  question: QuestionItem,
+  transcript: InterviewTurn[],
+  aiModel: 'deepseek' | 'gemini' | 'both' = 'gemini'
+): Promise<InterviewFollowUp> => {
+  try {
+    return await postJsonWithIdToken<InterviewFollowUp>('/api/ai/interview', { action: 'follow-up', question, transcript, aiModel });
+  } catch (error) {
+    console.error('Error getting interview follow-up:', error);
+    throw error;
+  }
+};
+
+// Score a finished interview from its questions and transcript
+export const getInterviewScorecard = async (
+  questions: QuestionItem[],
+  transcript: InterviewTurn[],
+  aiModel: 'deepseek' | 'gemini' | 'both' = 'gemini'
+): Promise<InterviewScorecard> => {
+  try {
+    return await postJsonWithIdToken<InterviewScorecard>('/api/ai/interview', { action: 'scorecard', questions, transcript, aiModel });
+  } catch (error) {
+    console.error('Error getting interview scorecard:', error);
+    throw error;
+  }
+};
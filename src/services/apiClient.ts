@@ -0,0 +1,31 @@
+import { auth } from './firebase';
+
+// POST to one of the app's authenticated API routes with the signed-in
+// user's Firebase ID token. Non-2xx responses throw with the route's error.
+export const postWithIdToken = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  const user = auth?.currentUser;
+  if (!user) {
+    throw new Error('You must be signed in to use this feature');
+  }
+
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await user.getIdToken()}`
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Request to ${path} failed with status ${response.status}`);
+  }
+  return response;
+};
+
+export const postJsonWithIdToken = async <T>(path: string, body: unknown): Promise<T> => {
+  const response = await postWithIdToken(path, body);
+  return await response.json() as T;
+};
@@ -0,0 +1,159 @@
+import { transform } from 'sucrase';
+import type { CodeTraceGrade, CodeTraceRun, QuestionItem, TraceLineResult } from '@/types';
+import { TRACE_WORKER_SOURCE } from './sandbox/traceWorkerSource';
+import { isSandboxAvailable } from './testRunnerService';
+
+// How long the worker waits for timers and promises to settle
+const SETTLE_MS = 2000;
+
+// Hard limit for the whole run, covering snippets that never yield
+const DEFAULT_TIMEOUT_MS = 4000;
+
+let workerUrl: string | null = null;
+
+const getWorkerUrl = (): string => {
+  if (!workerUrl) {
+    const blob = new Blob([TRACE_WORKER_SOURCE], { type: 'application/javascript' });
+    workerUrl = URL.createObjectURL(blob);
+  }
+  return workerUrl;
+};
+
+// Code questions that come with a snippet ask the learner to predict its output
+export const isCodeTraceQuestion = (question: QuestionItem): boolean => {
+  return question.type === 'code' && !!question.example && question.example.trim().length > 0;
+};
+
+// Strip TypeScript syntax so typed snippets run as plain JavaScript
+const toRunnableCode = (snippet: string): string => {
+  try {
+    return transform(snippet, { transforms: ['typescript'] }).code;
+  } catch {
+    // Let the worker report the syntax error
+    return snippet;
+  }
+};
+
+// Run a snippet in a fresh worker and capture what it prints
+export const runCodeTrace = (
+  snippet: string,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<CodeTraceRun> => {
+  if (!isSandboxAvailable()) {
+    return Promise.reject(new Error('Code-trace sandbox is only available in the browser'));
+  }
+
+  return new Promise((resolve) => {
+    const worker = new Worker(getWorkerUrl());
+    const startedAt = Date.now();
+
+    const fail = (error: string) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve({ output: [], source: 'none', truncated: false, error, durationMs: Date.now() - startedAt });
+    };
+
+    const timer = setTimeout(() => {
+      fail(`Snippet did not finish within ${timeoutMs}ms`);
+    }, timeoutMs);
+
+    worker.onmessage = (event: MessageEvent) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(event.data);
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      fail(event.message);
+    };
+
+    worker.postMessage({ code: toRunnableCode(snippet), settleMs: SETTLE_MS });
+  });
+};
+
+// Ignore formatting differences that don't change what was printed:
+// spacing around punctuation, quote style, trailing semicolons and
+// quotes around a whole line
+export const normalizeTraceLine = (line: string): string => {
+  const normalized = line
+    .trim()
+    .replace(/;+$/, '')
+    .replace(/["`]/g, "'")
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([[\]{}(),:])\s*/g, '$1');
+
+  const quoted = normalized.match(/^'(.*)'$/);
+  return quoted && !quoted[1].includes("'") ? quoted[1] : normalized;
+};
+
+const linesMatch = (expected: string, predicted: string): boolean => {
+  // Naming the error type is enough for uncaught errors
+  const uncaught = expected.match(/^Uncaught (?:\(in promise\) )?(\w+)/);
+  if (uncaught && predicted.toLowerCase().includes(uncaught[1].toLowerCase())) {
+    return true;
+  }
+  return normalizeTraceLine(expected) === normalizeTraceLine(predicted);
+};
+
+// Compare the prediction with the real output line by line
+export const gradeTracePrediction = (prediction: string, run: CodeTraceRun): CodeTraceGrade => {
+  const predicted = prediction.split('\n').filter(line => line.trim().length > 0);
+  const total = Math.max(run.output.length, predicted.length);
+  const lines: TraceLineResult[] = [];
+
+  for (let index = 0; index < total; index++) {
+    const expected = index < run.output.length ? run.output[index] : null;
+    const guess = index < predicted.length ? predicted[index].trim() : null;
+
+    let status: TraceLineResult['status'];
+    if (expected === null) {
+      status = 'extra';
+    } else if (guess === null) {
+      status = 'missing';
+    } else {
+      status = linesMatch(expected, guess) ? 'match' : 'mismatch';
+    }
+
+    lines.push({ line: index + 1, expected, predicted: guess, status });
+  }
+
+  const matched = lines.filter(line => line.status === 'match').length;
+
+  return {
+    lines,
+    matched,
+    total,
+    score: total === 0 ? 100 : Math.round((matched / total) * 100),
+    isCorrect: matched === total
+  };
+};
+
+// Plain text summary stored with the submission
+export const formatTraceFeedback = (grade: CodeTraceGrade, run: CodeTraceRun): string => {
+  const sections = [
+    run.source === 'value'
+      ? `The snippet prints nothing; its final value is ${run.output[0]}. Your prediction ${grade.isCorrect ? 'matches' : 'does not match'}.`
+      : `Your prediction matched ${grade.matched} of ${grade.total} output lines.`
+  ];
+
+  const wrong = grade.lines.filter(line => line.status !== 'match');
+  if (wrong.length > 0) {
+    sections.push(wrong.map(line => {
+      switch (line.status) {
+        case 'missing':
+          return `- Line ${line.line}: missing, expected "${line.expected}"`;
+        case 'extra':
+          return `- Line ${line.line}: "${line.predicted}" is never printed`;
+        default:
+          return `- Line ${line.line}: expected "${line.expected}", you wrote "${line.predicted}"`;
+      }
+    }).join('\n'));
+  }
+
+  if (run.truncated) {
+    sections.push('Timers were still pending after the snippet ran, so only the first few seconds of output were checked.');
+  }
+
+  return sections.join('\n\n');
+};
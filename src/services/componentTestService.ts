@@ -0,0 +1,155 @@
+import { transform } from 'sucrase';
+import type { ComponentTestScenario, ComponentTestStep, TestCaseResult, TestRunSummary } from '@/types';
+import { buildComponentHarness } from './sandbox/componentHarnessSource';
+import { isSandboxAvailable, summarizeTestResults } from './testRunnerService';
+
+// Rendering needs React to load inside the iframe, so allow more time than plain tests
+const DEFAULT_TIMEOUT_MS = 10000;
+
+interface HarnessStepResult {
+  description: string;
+  status: TestCaseResult['status'];
+  message?: string;
+}
+
+// Compile JSX/TypeScript and ES module syntax into plain script code
+export const transpileComponentCode = (code: string): string => {
+  return transform(code, {
+    transforms: ['jsx', 'typescript', 'imports'],
+    production: true
+  }).code;
+};
+
+// Guess the component name when the submission has no default export
+export const guessComponentName = (code: string): string | undefined => {
+  const match = code.match(/(?:function|const|let|class)\s+([A-Z][A-Za-z0-9_]*)/);
+  return match ? match[1] : undefined;
+};
+
+const scenarioError = (
+  scenario: ComponentTestScenario,
+  status: TestCaseResult['status'],
+  message: string,
+  logs: string[] = []
+): TestCaseResult[] => [{
+  testCase: scenario.description,
+  status,
+  message,
+  logs,
+  durationMs: 0
+}];
+
+// Text, value and attribute assertions compare against `expected`; a step
+// without it would pass whatever renders
+export const findMalformedStep = (scenario: ComponentTestScenario): ComponentTestStep | undefined =>
+  scenario.steps.find(step =>
+    step.action === 'expect' &&
+    step.assertion !== 'exists' && step.assertion !== 'absent' &&
+    (step.expected === undefined || (step.assertion === 'attribute' && !step.attribute))
+  );
+
+// Render the component in a fresh sandboxed iframe and replay one scenario
+export const runComponentScenario = (
+  compiledCode: string,
+  scenario: ComponentTestScenario,
+  componentName: string | undefined,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<TestCaseResult[]> => {
+  return new Promise((resolve) => {
+    const runId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const startedAt = Date.now();
+    const iframe = document.createElement('iframe');
+
+    // allow-scripts without allow-same-origin keeps the submission away from the app's
+    // cookies, storage and DOM
+    iframe.setAttribute('sandbox', 'allow-scripts');
+    iframe.setAttribute('aria-hidden', 'true');
+    iframe.style.cssText = 'position:absolute;left:-10000px;top:0;width:800px;height:600px;border:0;';
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      window.removeEventListener('message', handleMessage);
+      iframe.remove();
+    };
+
+    const timer = setTimeout(() => {
+      cleanup();
+      resolve(scenarioError(scenario, 'timeout', `Exceeded the ${timeoutMs}ms time limit`));
+    }, timeoutMs);
+
+    const handleMessage = (event: MessageEvent) => {
+      const data = event.data || {};
+      if (event.source !== iframe.contentWindow || data.runId !== runId) {
+        return;
+      }
+
+      if (data.type === 'ready') {
+        iframe.contentWindow?.postMessage({
+          type: 'run',
+          runId,
+          code: compiledCode,
+          scenario: { ...scenario, component: scenario.component || componentName }
+        }, '*');
+        return;
+      }
+
+      cleanup();
+
+      if (data.type === 'error') {
+        resolve(scenarioError(scenario, 'error', data.message, data.logs));
+        return;
+      }
+
+      const durationMs = Date.now() - startedAt;
+      resolve((data.steps as HarnessStepResult[]).map((step, index) => ({
+        testCase: `${scenario.description} › ${step.description}`,
+        status: step.status,
+        message: step.message,
+        // Console output belongs to the whole scenario, show it once
+        logs: index === 0 ? data.logs : [],
+        durationMs
+      })));
+    };
+
+    window.addEventListener('message', handleMessage);
+    iframe.srcdoc = buildComponentHarness(runId, window.location.origin);
+    document.body.appendChild(iframe);
+  });
+};
+
+// Run all scenarios of a component task and summarize per-step results
+export const runComponentTests = async (
+  code: string,
+  scenarios: ComponentTestScenario[],
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<TestRunSummary> => {
+  try {
+    if (!isSandboxAvailable()) {
+      throw new Error('Test sandbox is only available in the browser');
+    }
+
+    let compiledCode: string;
+    try {
+      compiledCode = transpileComponentCode(code);
+    } catch (error: any) {
+      return summarizeTestResults(scenarios.flatMap(scenario =>
+        scenarioError(scenario, 'error', `Submission does not compile: ${error.message}`)
+      ));
+    }
+
+    const componentName = /export\s+default/.test(code) ? undefined : guessComponentName(code);
+    const results: TestCaseResult[] = [];
+
+    for (const scenario of scenarios) {
+      // Malformed scenarios are left out of the verdict instead of grading the submission
+      results.push(...(findMalformedStep(scenario)
+        ? scenarioError(scenario, 'skipped', 'Scenario has an assertion without an expected value')
+        : await runComponentScenario(compiledCode, scenario, componentName, timeoutMs)));
+    }
+
+    return summarizeTestResults(results);
+  } catch (error) {
+    console.error('Error running component tests:', error);
+    throw error;
+  }
+};
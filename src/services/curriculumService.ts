@@ -0,0 +1,15 @@
+import type { AdaptedCurriculum } from '@/types';
+import { getLearningHistory } from './firestoreService';
+import { postJsonWithIdToken } from './apiClient';
+
+// Curriculum order adapted to the user's results: weak prerequisites first,
+// mastered modules compressed to a single refresher
+export const getAdaptedCurriculum = async (uid: string): Promise<AdaptedCurriculum> => {
+  try {
+    const history = await getLearningHistory(uid);
+    return await postJsonWithIdToken<AdaptedCurriculum>('/api/curriculum/adapt', { history });
+  } catch (error) {
+    console.error('Error getting adapted curriculum:', error);
+    throw error;
+  }
+};
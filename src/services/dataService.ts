@@ -1,4 +1,4 @@
-import type { TheoryItem, QuestionItem, TaskItem, Module } from '@/types';
+import type { TheoryItem, QuestionItem, TaskItem, Module, Technology } from '@/types';
 
 interface ParsedContent {
   theory: TheoryItem[];
@@ -6,10 +6,10 @@ interface ParsedContent {
   tasks: TaskItem[];
 }
 
-// Load and parse the database.json file
+// Load the curriculum content served by /api/database
 export const loadDatabase = async (): Promise<ParsedContent> => {
   try {
-    const response = await fetch('/database.json');
+    const response = await fetch('/api/database');
     const data = await response.json();
     
     // Process the chunks and extract content
@@ -160,6 +160,17 @@ export const groupByLearningPath = (modules: Module[]) => {
   }));
 };
 
+const TECHNOLOGY_TAGS: Technology[] = ['React', 'Next.js', 'TypeScript', 'JavaScript', 'MUI', 'Testing', 'Performance', 'CSS', 'HTML'];
+
+// Technology a question or task is grouped under. Questions use the first word
+// of their topic; tasks the first tag naming a technology.
+export const getItemTechnology = (item: QuestionItem | TaskItem): Technology => {
+  if ('topic' in item) {
+    return item.topic.split(' ')[0] as Technology;
+  }
+  return item.tags.find(tag => TECHNOLOGY_TAGS.includes(tag as Technology)) as Technology || 'JavaScript';
+};
+
 // Get a random item from the database
 export const getRandomItem = (
   modules: Module[]
@@ -188,60 +199,3 @@ export const getRandomItem = (
   const randomIndex = Math.floor(Math.random() * allItems.length);
   return allItems[randomIndex];
 };
-
-// Generate a mock exam based on selected topics and difficulty
-export const generateMockExam = (
-  theory: TheoryItem[],
-  questions: QuestionItem[],
-  tasks: TaskItem[],
-  topics: string[],
-  difficulty: 'easy' | 'medium' | 'hard',
-  mcqCount: number,
-  openEndedCount: number,
-  codingTaskCount: number
-) => {
-  // Filter by topics
-  const filteredQuestions = questions.filter(q => 
-    topics.includes(q.topic) || 
-    topics.some(topic => q.tags.includes(topic))
-  );
-  
-  const filteredTasks = tasks.filter(t => 
-    topics.some(topic => t.tags.includes(topic))
-  );
-  
-  // Filter by difficulty
-  const mcqs = filteredQuestions.filter(q => 
-    q.type === 'mcq' && q.level === difficulty
-  );
-  
-  const openEnded = filteredQuestions.filter(q => 
-    q.type === 'open' && q.level === difficulty
-  );
-  
-  const codingTasks = filteredTasks.filter(t => 
-    t.difficulty === difficulty
-  );
-  
-  // Randomly select items
-  const selectedMCQs = mcqs
-    .sort(() => 0.5 - Math.random())
-    .slice(0, mcqCount);
-    
-  const selectedOpenEnded = openEnded
-    .sort(() => 0.5 - Math.random())
-    .slice(0, openEndedCount);
-    
-  const selectedCodingTasks = codingTasks
-    .sort(() => 0.5 - Math.random())
-    .slice(0, codingTaskCount);
-  
-  return {
-    mcqs: selectedMCQs,
-    openEnded: selectedOpenEnded,
-    codingTasks: selectedCodingTasks,
-    totalTime: selectedMCQs.length * 2 + 
-               selectedOpenEnded.length * 5 + 
-               selectedCodingTasks.reduce((acc, task) => acc + task.timeEstimate, 0)
-  };
-};
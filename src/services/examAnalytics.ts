@@ -0,0 +1,102 @@
+import type { ExamBreakdownRow, ExamItemTime, ExamTrendPoint, MockExam, Module } from '@/types';
+import { getItemTechnology } from './dataService';
+
+// Topics scoring below this share of their points are flagged as weak
+export const WEAK_TOPIC_PERCENTAGE = 60;
+
+type GradedItem = MockExam['questions'][number] | MockExam['tasks'][number];
+
+const getGradedItems = (exam: MockExam): GradedItem[] => [...exam.questions, ...exam.tasks];
+
+const toPercentage = (points: number, maxPoints: number) =>
+  maxPoints > 0 ? Math.round((points / maxPoints) * 100) : 0;
+
+// Sum points per group; items with several tags count towards each of them
+const breakdownBy = (items: GradedItem[], getKeys: (item: GradedItem) => string[]): ExamBreakdownRow[] => {
+  const rows = new Map<string, ExamBreakdownRow>();
+
+  items.forEach(item => {
+    getKeys(item).forEach(key => {
+      const row = rows.get(key) || { label: key, points: 0, maxPoints: 0, correct: 0, total: 0, percentage: 0 };
+      row.points += item.points || 0;
+      row.maxPoints += item.maxPoints || 0;
+      row.correct += item.correct ? 1 : 0;
+      row.total += 1;
+      rows.set(key, row);
+    });
+  });
+
+  return Array.from(rows.values())
+    .map(row => ({ ...row, percentage: toPercentage(row.points, row.maxPoints) }))
+    .sort((a, b) => a.percentage - b.percentage);
+};
+
+export const getExamBreakdown = (exam: MockExam) => {
+  const items = getGradedItems(exam);
+  return {
+    byTechnology: breakdownBy(items, item => [getItemTechnology(item)]),
+    byTag: breakdownBy(items, item => item.tags),
+    byDifficulty: breakdownBy(items, item => ['level' in item ? item.level : item.difficulty])
+  };
+};
+
+export const getExamPercentage = (exam: MockExam): number => toPercentage(exam.score, exam.totalPoints);
+
+// Time per item in exam order
+export const getItemTimes = (exam: MockExam): ExamItemTime[] => {
+  const questionCount = exam.questions.length;
+  return getGradedItems(exam).map((item, index) => ({
+    itemId: item.id,
+    label: index < questionCount ? `Q${index + 1}` : `T${index - questionCount + 1}`,
+    title: 'question' in item ? item.question : item.title,
+    timeMs: exam.itemTimeMs[item.id] || 0,
+    correct: !!item.correct
+  }));
+};
+
+// Graded exams oldest first, for the trend chart
+export const getExamTrend = (exams: MockExam[]): ExamTrendPoint[] => {
+  return exams
+    .filter(exam => exam.status === 'graded' && exam.completedAt)
+    .sort((a, b) => new Date(a.completedAt!).getTime() - new Date(b.completedAt!).getTime())
+    .map(exam => ({
+      examId: exam.id,
+      title: exam.title,
+      completedAt: exam.completedAt!,
+      percentage: getExamPercentage(exam)
+    }));
+};
+
+// The latest graded exam before this one, preferring one on the same technology
+export const getPreviousAttempt = (exam: MockExam, exams: MockExam[]): MockExam | null => {
+  const completedAt = new Date(exam.completedAt || Date.now()).getTime();
+  const earlier = exams
+    .filter(other => other.id !== exam.id && other.status === 'graded' && other.completedAt)
+    .filter(other => new Date(other.completedAt!).getTime() < completedAt)
+    .sort((a, b) => new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime());
+
+  return earlier.find(other => other.technology === exam.technology) || earlier[0] || null;
+};
+
+// Module to study for a weak technology or tag: the easiest module of that
+// technology, or the one with the most items carrying the tag
+export const findModuleForTopic = (modules: Module[], topic: string): Module | null => {
+  const byTechnology = modules
+    .filter(module => module.technology === topic)
+    .sort((a, b) => a.complexity - b.complexity);
+  if (byTechnology.length > 0) {
+    return byTechnology[0];
+  }
+
+  let best: Module | null = null;
+  let bestCount = 0;
+  modules.forEach(module => {
+    const count = [...module.theory, ...module.questions, ...module.tasks]
+      .filter(item => item.tags?.includes(topic)).length;
+    if (count > bestCount) {
+      best = module;
+      bestCount = count;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,201 @@
+import type { Difficulty, ExamDifficulty, MockExam, MockExamConfig, Module, QuestionItem, TaskItem } from '@/types';
+import { INITIAL_ABILITY, POOL_FACTOR, createItemLookup, serveNextItem } from './adaptiveExam';
+
+// Share of each difficulty in a mixed exam
+const MIXED_DIFFICULTY_SHARE: Record<Difficulty, number> = {
+  easy: 0.3,
+  medium: 0.5,
+  hard: 0.2
+};
+
+// Items from this many of the latest exams are only reused when nothing else fits
+const RECENT_EXAM_COUNT = 3;
+
+type ExamItem = QuestionItem | TaskItem;
+
+export interface BuiltMockExam {
+  exam: Partial<MockExam>;
+  requested: number;
+  selected: number;
+}
+
+// The same item can be listed by more than one module
+const uniqueById = <T extends ExamItem>(items: T[]): T[] => Array.from(new Map(items.map(item => [item.id, item])).values());
+
+const getDifficulty = (item: ExamItem): Difficulty => 'level' in item ? item.level : item.difficulty;
+
+// Split a count across difficulties, giving leftovers to the largest remainders
+const difficultyQuotas = (count: number, difficulty: ExamDifficulty): Record<Difficulty, number> => {
+  if (difficulty !== 'mixed') {
+    return { easy: 0, medium: 0, hard: 0, [difficulty]: count };
+  }
+
+  const levels = Object.keys(MIXED_DIFFICULTY_SHARE) as Difficulty[];
+  const quotas = { easy: 0, medium: 0, hard: 0 };
+  levels.forEach(level => {
+    quotas[level] = Math.floor(count * MIXED_DIFFICULTY_SHARE[level]);
+  });
+
+  const byRemainder = [...levels].sort((a, b) =>
+    (count * MIXED_DIFFICULTY_SHARE[b]) % 1 - (count * MIXED_DIFFICULTY_SHARE[a]) % 1
+  );
+  let left = count - levels.reduce((sum, level) => sum + quotas[level], 0);
+  for (let i = 0; left > 0; i++, left--) {
+    quotas[byRemainder[i % byRemainder.length]]++;
+  }
+
+  return quotas;
+};
+
+// Greedily pick the items whose tags are least covered so far, preferring
+// ones the user hasn't seen in a recent exam
+const pickBalanced = <T extends ExamItem>(
+  pool: T[],
+  count: number,
+  tagUsage: Map<string, number>,
+  recentItemIds: Set<string>
+): T[] => {
+  const remaining = [...pool].sort(() => Math.random() - 0.5);
+  const picked: T[] = [];
+
+  while (picked.length < count && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestCost = Infinity;
+
+    remaining.forEach((item, index) => {
+      const overlap = item.tags.reduce((sum, tag) => sum + (tagUsage.get(tag) || 0), 0);
+      const cost = (recentItemIds.has(item.id) ? 1000 : 0) + overlap / Math.max(item.tags.length, 1);
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestIndex = index;
+      }
+    });
+
+    const [item] = remaining.splice(bestIndex, 1);
+    item.tags.forEach(tag => tagUsage.set(tag, (tagUsage.get(tag) || 0) + 1));
+    picked.push(item);
+  }
+
+  return picked;
+};
+
+const selectItems = <T extends ExamItem>(
+  pool: T[],
+  count: number,
+  difficulty: ExamDifficulty,
+  tagUsage: Map<string, number>,
+  recentItemIds: Set<string>
+): T[] => {
+  const quotas = difficultyQuotas(count, difficulty);
+  const selected = (Object.keys(quotas) as Difficulty[]).flatMap(level =>
+    pickBalanced(pool.filter(item => getDifficulty(item) === level), quotas[level], tagUsage, recentItemIds)
+  );
+
+  // A mixed exam tops up from other difficulties when one level runs short
+  if (difficulty === 'mixed' && selected.length < count) {
+    const chosen = new Set(selected.map(item => item.id));
+    selected.push(...pickBalanced(
+      pool.filter(item => !chosen.has(item.id)),
+      count - selected.length,
+      tagUsage,
+      recentItemIds
+    ));
+  }
+
+  return selected;
+};
+
+// An adaptive exam keeps a pool spread over all difficulties and serves its
+// first item at the starting ability; the rest are served as the learner answers
+const buildAdaptiveExam = (
+  questions: QuestionItem[],
+  tasks: TaskItem[],
+  config: MockExamConfig,
+  topicLabel: string,
+  tagUsage: Map<string, number>,
+  recentItemIds: Set<string>
+): BuiltMockExam => {
+  const mcqPool = selectItems(questions.filter(q => q.type === 'mcq'), config.mcqCount * POOL_FACTOR, 'mixed', tagUsage, recentItemIds);
+  const openPool = selectItems(questions.filter(q => q.type !== 'mcq'), config.openEndedCount * POOL_FACTOR, 'mixed', tagUsage, recentItemIds);
+  const taskPool = selectItems(tasks, config.codingCount * POOL_FACTOR, 'mixed', tagUsage, recentItemIds);
+
+  const first = serveNextItem({
+    questions: [],
+    tasks: [],
+    adaptive: {
+      pool: {
+        questionIds: [...mcqPool, ...openPool].map(item => item.id),
+        taskIds: taskPool.map(item => item.id)
+      },
+      remaining: {
+        mcq: Math.min(config.mcqCount, mcqPool.length),
+        open: Math.min(config.openEndedCount, openPool.length),
+        coding: Math.min(config.codingCount, taskPool.length)
+      },
+      ability: INITIAL_ABILITY,
+      responses: []
+    }
+  }, createItemLookup([...mcqPool, ...openPool, ...taskPool]));
+
+  const remaining = first?.adaptive?.remaining;
+
+  return {
+    exam: {
+      title: `${topicLabel} Adaptive Mock Exam`,
+      technology: config.topics.length === 1 ? config.topics[0] : 'mixed',
+      duration: config.timeLimit,
+      strictMode: config.strictMode,
+      ...first
+    },
+    requested: config.mcqCount + config.openEndedCount + config.codingCount,
+    selected: remaining ? 1 + remaining.mcq + remaining.open + remaining.coding : 0
+  };
+};
+
+// Ids of items used in the user's latest exams
+export const getRecentExamItemIds = (exams: MockExam[]): Set<string> => {
+  const recent = [...exams]
+    .sort((a, b) => new Date(b.startedAt || 0).getTime() - new Date(a.startedAt || 0).getTime())
+    .slice(0, RECENT_EXAM_COUNT);
+  return new Set(recent.flatMap(exam => [
+    ...(exam.questions || []).map(item => item.id),
+    ...(exam.tasks || []).map(item => item.id)
+  ]));
+};
+
+// Draw a mock exam from the loaded modules
+export const buildMockExam = (
+  modules: Module[],
+  config: MockExamConfig,
+  recentItemIds: Set<string> = new Set()
+): BuiltMockExam => {
+  const sourceModules = config.topics.length > 0
+    ? modules.filter(module => config.topics.includes(module.technology))
+    : modules;
+
+  const questions = uniqueById(sourceModules.flatMap(module => module.questions)).filter(item => !item.irrelevant);
+  const tasks = uniqueById(sourceModules.flatMap(module => module.tasks));
+  const tagUsage = new Map<string, number>();
+  const topicLabel = config.topics.length > 0 ? config.topics.join(', ') : 'Mixed';
+
+  if (config.adaptive) {
+    return buildAdaptiveExam(questions, tasks, config, topicLabel, tagUsage, recentItemIds);
+  }
+
+  const mcqs = selectItems(questions.filter(q => q.type === 'mcq'), config.mcqCount, config.difficulty, tagUsage, recentItemIds);
+  const openEnded = selectItems(questions.filter(q => q.type !== 'mcq'), config.openEndedCount, config.difficulty, tagUsage, recentItemIds);
+  const codingTasks = selectItems(tasks, config.codingCount, config.difficulty, tagUsage, recentItemIds);
+
+  return {
+    exam: {
+      title: `${topicLabel} Mock Exam`,
+      technology: config.topics.length === 1 ? config.topics[0] : 'mixed',
+      duration: config.timeLimit,
+      strictMode: config.strictMode,
+      questions: [...mcqs, ...openEnded],
+      tasks: codingTasks
+    },
+    requested: config.mcqCount + config.openEndedCount + config.codingCount,
+    selected: mcqs.length + openEnded.length + codingTasks.length
+  };
+};
@@ -0,0 +1,42 @@
+import type { ExamEvent, ExamStatus, MockExam } from '@/types';
+
+// Allowed moves between exam states; anything else is rejected
+export const EXAM_TRANSITIONS: Record<ExamStatus, Partial<Record<ExamEvent, ExamStatus>>> = {
+  configured: { start: 'in-progress' },
+  'in-progress': { pause: 'paused', submit: 'submitted' },
+  paused: { resume: 'in-progress', submit: 'submitted' },
+  submitted: { grade: 'graded' },
+  graded: {}
+};
+
+export const canTransition = (status: ExamStatus, event: ExamEvent): boolean => {
+  return !!EXAM_TRANSITIONS[status][event];
+};
+
+export const nextExamStatus = (status: ExamStatus, event: ExamEvent): ExamStatus => {
+  const next = EXAM_TRANSITIONS[status][event];
+  if (!next) {
+    throw new Error(`Cannot ${event} an exam that is ${status}`);
+  }
+  return next;
+};
+
+// The clock only runs while the exam is in progress
+export const isExamRunning = (status: ExamStatus): boolean => status === 'in-progress';
+
+export const isExamFinished = (status: ExamStatus): boolean => status === 'submitted' || status === 'graded';
+
+export const getRemainingMs = (exam: Pick<MockExam, 'duration'>, elapsedMs: number): number => {
+  return Math.max(0, exam.duration * 60 * 1000 - elapsedMs);
+};
+
+// Exams saved before the state machine only have the completed flag
+export const inferExamStatus = (data: { status?: ExamStatus; completed?: boolean; startedAt?: unknown }): ExamStatus => {
+  if (data.status) {
+    return data.status;
+  }
+  if (data.completed) {
+    return 'submitted';
+  }
+  return data.startedAt ? 'paused' : 'configured';
+};
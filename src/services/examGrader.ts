@@ -0,0 +1,225 @@
+import type { ExamQuestion, ExamTask, MockExam, ProficiencyEstimate, QuestionItem, ReviewPolicy, TaskItem } from '@/types';
+import { reviewCode } from './aiService';
+import { formatRubricFeedback, gradeAnswer } from './rubricGrader';
+import { formatTraceFeedback, gradeTracePrediction, isCodeTraceQuestion, runCodeTrace } from './codeTraceService';
+import { runTestCases } from './testRunnerService';
+import { runComponentTests } from './componentTestService';
+import { estimateProficiency } from './adaptiveExam';
+import { claimExamGrading, completeMockExam, recordMasteryAttempt, recordReview, releaseExamGrading, saveSubmission } from './firestoreService';
+
+type AIReviewer = 'deepseek' | 'gemini' | 'both';
+
+// Points per item; partial credit scales them by the 0-100 score
+export const EXAM_POINTS = {
+  mcq: 1,
+  question: 2,
+  task: 5
+};
+
+interface ItemOutcome {
+  correct: boolean;
+  score: number;
+  feedback: string;
+  ungraded?: boolean;
+}
+
+export interface ExamGradingResult {
+  questions: ExamQuestion[];
+  tasks: ExamTask[];
+  score: number;
+  totalPoints: number;
+  proficiency?: ProficiencyEstimate[]; // Adaptive exams only
+}
+
+const NO_ANSWER: ItemOutcome = { correct: false, score: 0, feedback: 'No answer provided.' };
+
+// Only the AI reviewer could grade the item and it failed; the item scores
+// nothing and is left out of progress, spaced repetition and mastery
+const UNGRADED: ItemOutcome = {
+  correct: false,
+  score: 0,
+  feedback: 'AI review is unavailable, so this item could not be graded.',
+  ungraded: true
+};
+
+// Same grading as QuizCard: MCQs locally, code-trace predictions against the
+// real output, open answers by rubric with the AI reviewer for borderline ones
+const gradeQuestion = async (
+  question: QuestionItem,
+  answer: string,
+  reviewer: AIReviewer,
+  policy?: ReviewPolicy
+): Promise<ItemOutcome> => {
+  if (question.type === 'mcq') {
+    const correctOption = question.options[parseInt(question.answer)];
+    const correct = correctOption === answer;
+    return { correct, score: correct ? 100 : 0, feedback: correct ? '' : `Correct answer: ${correctOption}` };
+  }
+
+  const traceRun = isCodeTraceQuestion(question) ? await runCodeTrace(question.example) : null;
+  if (traceRun && !traceRun.error) {
+    const traceGrade = gradeTracePrediction(answer, traceRun);
+    return { correct: traceGrade.isCorrect, score: traceGrade.score, feedback: formatTraceFeedback(traceGrade, traceRun) };
+  }
+
+  const grade = question.type === 'open' || question.type === 'flashcard' ? gradeAnswer(question, answer) : null;
+  if (grade && grade.verdict !== 'borderline') {
+    return { correct: grade.verdict === 'pass', score: grade.score, feedback: formatRubricFeedback(grade) };
+  }
+
+  try {
+    const response = await reviewCode({
+      itemId: question.id,
+      type: 'question',
+      prompt: question.example ? `${question.question}\n\n${question.example}` : question.question,
+      userCode: answer,
+      ...(grade ? { referenceAnswer: question.answer, rubric: grade.items } : {})
+    }, reviewer, policy);
+    const rubricFeedback = grade ? `${formatRubricFeedback(grade)}\n\n` : '';
+    return { correct: response.isCorrect, score: response.score ?? (response.isCorrect ? 100 : 0), feedback: rubricFeedback + response.feedback };
+  } catch (error) {
+    if (!grade) {
+      console.error('AI review failed, leaving the question ungraded:', error);
+      return UNGRADED;
+    }
+    // Borderline and no reviewer: partial credit from the rubric, not a pass
+    console.error('AI review failed, using rubric score only:', error);
+    return { correct: false, score: grade.score, feedback: `${formatRubricFeedback(grade)}\n\nAI review is unavailable, so this answer was scored by the rubric only.` };
+  }
+};
+
+// Tests decide correctness when the task has them; the AI review adds style
+// feedback and is the verdict only for tasks without executable tests
+const gradeTask = async (
+  task: TaskItem,
+  code: string,
+  reviewer: AIReviewer,
+  policy?: ReviewPolicy
+): Promise<ItemOutcome> => {
+  const isComponentTask = !!task.componentTests && task.componentTests.length > 0;
+  const summary = isComponentTask
+    ? await runComponentTests(code, task.componentTests!)
+    : task.testCases.length > 0 ? await runTestCases(code, task.testCases) : null;
+  const gradedByTests = summary !== null && summary.executed > 0;
+
+  try {
+    const response = await reviewCode({
+      itemId: task.id,
+      type: 'task',
+      prompt: task.description,
+      userCode: code,
+      testCases: task.testCases
+    }, reviewer, policy);
+
+    if (!gradedByTests) {
+      return { correct: response.isCorrect, score: response.score ?? (response.isCorrect ? 100 : 0), feedback: response.feedback };
+    }
+    return {
+      correct: summary.allPassed,
+      score: Math.round((summary.passed / summary.executed) * 100),
+      feedback: `Tests passed: ${summary.passed}/${summary.executed}\n\n${response.feedback}`
+    };
+  } catch (error) {
+    if (!gradedByTests) {
+      console.error('AI review failed, leaving the task ungraded:', error);
+      return UNGRADED;
+    }
+    console.error('AI review failed, using test results only:', error);
+    return {
+      correct: summary.allPassed,
+      score: Math.round((summary.passed / summary.executed) * 100),
+      feedback: `Tests passed: ${summary.passed}/${summary.executed}\n\nAI review is unavailable. This task was graded by test execution only.`
+    };
+  }
+};
+
+const toPoints = (maxPoints: number, score: number) => Math.round((maxPoints * score) / 100 * 10) / 10;
+
+// Grade every item of a submitted exam from its saved answers
+export const gradeExam = async (
+  exam: MockExam,
+  reviewer: AIReviewer,
+  policy?: ReviewPolicy,
+  onProgress?: (graded: number, total: number) => void
+): Promise<ExamGradingResult> => {
+  const total = exam.questions.length + exam.tasks.length;
+  let graded = 0;
+  const report = () => onProgress?.(++graded, total);
+
+  // One item at a time: sandbox workers and reviewers are shared resources
+  const questions: ExamQuestion[] = [];
+  for (const question of exam.questions) {
+    const answer = (exam.answers[question.id] || '').trim();
+    const outcome = answer ? await gradeQuestion(question, answer, reviewer, policy) : NO_ANSWER;
+    const maxPoints = question.type === 'mcq' ? EXAM_POINTS.mcq : EXAM_POINTS.question;
+    questions.push({ ...question, ...outcome, userAnswer: answer, maxPoints, points: toPoints(maxPoints, outcome.score) });
+    report();
+  }
+
+  const tasks: ExamTask[] = [];
+  for (const task of exam.tasks) {
+    const code = exam.answers[task.id] || '';
+    const untouched = !code.trim() || code.trim() === task.startingCode.trim();
+    const outcome = untouched ? NO_ANSWER : await gradeTask(task, code, reviewer, policy);
+    tasks.push({ ...task, ...outcome, userCode: code, maxPoints: EXAM_POINTS.task, points: toPoints(EXAM_POINTS.task, outcome.score) });
+    report();
+  }
+
+  const items = [...questions, ...tasks];
+  return {
+    questions,
+    tasks,
+    score: Math.round(items.reduce((sum, item) => sum + (item.points || 0), 0) * 10) / 10,
+    totalPoints: items.reduce((sum, item) => sum + (item.maxPoints || 0), 0),
+    ...(exam.adaptive ? { proficiency: estimateProficiency(items.filter(item => !item.ungraded)) } : {})
+  };
+};
+
+// Grade a submitted exam, store the results and feed them into progress,
+// spaced repetition and the mastery model. Returns null when another window
+// holds the grading claim. The exam is marked graded before the per-item
+// updates, so an interrupted run can lose some of them but never repeat them.
+export const gradeAndSaveExam = async (
+  uid: string,
+  exam: MockExam,
+  reviewer: AIReviewer,
+  policy?: ReviewPolicy,
+  onProgress?: (graded: number, total: number) => void
+): Promise<ExamGradingResult | null> => {
+  if (!await claimExamGrading(uid, exam.id)) {
+    return null;
+  }
+
+  let result: ExamGradingResult;
+  try {
+    result = await gradeExam(exam, reviewer, policy, onProgress);
+
+    await completeMockExam(uid, exam.id, result.score, result.totalPoints, {
+      questions: result.questions,
+      tasks: result.tasks,
+      ...(result.proficiency ? { proficiency: result.proficiency } : {})
+    });
+  } catch (error) {
+    // The exam is still submitted, so the next attempt grades it from scratch
+    await releaseExamGrading(uid, exam.id).catch(() => undefined);
+    throw error;
+  }
+
+  for (const question of result.questions.filter(item => !item.ungraded)) {
+    await recordReview(uid, question.id, 'question', !!question.correct, question.score);
+    await recordMasteryAttempt(uid, question, !!question.correct);
+    if (question.userAnswer) {
+      await saveSubmission(uid, question.id, question.userAnswer, question.correct ? 'pass' : 'fail', question.feedback || '');
+    }
+  }
+
+  for (const task of result.tasks.filter(item => !item.ungraded)) {
+    await recordReview(uid, task.id, 'task', !!task.correct, task.score);
+    await recordMasteryAttempt(uid, task, !!task.correct);
+    if (task.userCode) {
+      await saveSubmission(uid, task.id, task.userCode, task.correct ? 'pass' : 'fail', task.feedback || '');
+    }
+  }
+
+  return result;
+};
@@ -8,10 +8,16 @@ import {
   query, 
   where, 
   getDocs,
+  writeBatch,
+  runTransaction,
+  deleteField,
   Timestamp
 } from 'firebase/firestore';
 import { db, auth } from './firebase';
-import type { UserSettings, UserSubmission, MockExam } from '@/types';
+import type { AIReviewResponse, DueReviewItem, LearningHistoryEntry, MasteryDimension, MasteryEstimate, QuestionItem, ReviewSchedule, TaskItem, UserSettings, UserSubmission, MockExam, InterviewSession, GeneratedItem } from '@/types';
+import { PASSING_QUALITY, endOfDay, qualityFromResult, scheduleReview } from './spacedRepetition';
+import { applyAttempt, getMasterySkills, masteryKey } from './masteryModel';
+import { inferExamStatus } from './examEngine';
 
 // User settings
 export const getUserSettings = async (uid: string): Promise<UserSettings> => {
@@ -116,11 +122,12 @@ export const updateUserSettings = async (uid: string, settings: UserSettings): P
 export const updateItemProgress = async (uid: string, itemId: string, itemType: 'theory' | 'question' | 'task', status: 'pending' | 'complete' | 'irrelevant') => {
   try {
     const docRef = doc(db, 'users', uid, 'progress', itemId);
+    // Merge so the review schedule survives status changes
     await setDoc(docRef, {
       itemType,
       status,
       updatedAt: Timestamp.now()
-    });
+    }, { merge: true });
   } catch (error) {
     console.error('Error updating item progress:', error);
     throw error;
@@ -142,13 +149,18 @@ export const getItemProgress = async (uid: string, itemId: string) => {
   }
 };
 
-export const getAllProgress = async (uid: string): Promise<{ completedItems: Record<string, boolean>, incorrectItems: Record<string, boolean> }> => {
+export const getAllProgress = async (uid: string): Promise<{
+  completedItems: Record<string, boolean>,
+  incorrectItems: Record<string, boolean>,
+  incorrectAt: Record<string, string> // When each incorrect item was last graded
+}> => {
   try {
     const progressRef = collection(db, 'users', uid, 'progress');
     const querySnapshot = await getDocs(progressRef);
     
     const completedItems: Record<string, boolean> = {};
     const incorrectItems: Record<string, boolean> = {};
+    const incorrectAt: Record<string, string> = {};
     
     querySnapshot.forEach((doc) => {
       const data = doc.data();
@@ -157,18 +169,214 @@ export const getAllProgress = async (uid: string): Promise<{ completedItems: Rec
       }
       if (data.result === 'fail') {
         incorrectItems[doc.id] = true;
+        incorrectAt[doc.id] = toIsoString(data.updatedAt) || '';
       }
     });
     
-    return { completedItems, incorrectItems };
+    return { completedItems, incorrectItems, incorrectAt };
   } catch (error) {
     console.error('Error getting all progress:', error);
     throw error;
   }
 };
 
+// Spaced repetition
+const toReviewSchedule = (data: any): ReviewSchedule => ({
+  ...data,
+  dueAt: data.dueAt.toDate().toISOString(),
+  lastReviewedAt: data.lastReviewedAt.toDate().toISOString()
+});
+
+// Record a graded attempt and schedule the item's next review
+export const recordReview = async (
+  uid: string,
+  itemId: string,
+  itemType: 'question' | 'task',
+  correct: boolean,
+  score?: number
+): Promise<ReviewSchedule> => {
+  try {
+    const docRef = doc(db, 'users', uid, 'progress', itemId);
+    const docSnap = await getDoc(docRef);
+    const previous = docSnap.exists() && docSnap.data().schedule
+      ? toReviewSchedule(docSnap.data().schedule)
+      : null;
+    
+    const quality = qualityFromResult(correct, score);
+    const schedule = scheduleReview(previous, quality);
+    
+    await setDoc(docRef, {
+      itemType,
+      status: 'complete',
+      result: quality >= PASSING_QUALITY ? 'pass' : 'fail',
+      schedule: {
+        ...schedule,
+        dueAt: Timestamp.fromDate(new Date(schedule.dueAt)),
+        lastReviewedAt: Timestamp.fromDate(new Date(schedule.lastReviewedAt))
+      },
+      updatedAt: Timestamp.now()
+    }, { merge: true });
+    
+    return schedule;
+  } catch (error) {
+    console.error('Error recording review:', error);
+    throw error;
+  }
+};
+
+// Items whose next review falls on or before the given day, most overdue first
+export const getDueItems = async (uid: string, day: Date = new Date()): Promise<DueReviewItem[]> => {
+  try {
+    const progressRef = collection(db, 'users', uid, 'progress');
+    const q = query(progressRef, where('schedule.dueAt', '<=', Timestamp.fromDate(endOfDay(day))));
+    const querySnapshot = await getDocs(q);
+    
+    const items: DueReviewItem[] = [];
+    querySnapshot.forEach((doc) => {
+      const data = doc.data();
+      if (data.status === 'irrelevant' || (data.itemType !== 'question' && data.itemType !== 'task')) {
+        return;
+      }
+      items.push({
+        itemId: doc.id,
+        itemType: data.itemType,
+        schedule: toReviewSchedule(data.schedule)
+      });
+    });
+    
+    return items.sort((a, b) => a.schedule.dueAt.localeCompare(b.schedule.dueAt));
+  } catch (error) {
+    console.error('Error getting due items:', error);
+    throw error;
+  }
+};
+
+// Attempts and latest result per item, from submissions and progress
+export const getLearningHistory = async (uid: string): Promise<LearningHistoryEntry[]> => {
+  try {
+    const [progressSnapshot, submissionsSnapshot] = await Promise.all([
+      getDocs(collection(db, 'users', uid, 'progress')),
+      getDocs(collection(db, 'users', uid, 'submissions'))
+    ]);
+    
+    const history = new Map<string, LearningHistoryEntry & { lastAt: number }>();
+    const entryFor = (itemId: string) => {
+      if (!history.has(itemId)) {
+        history.set(itemId, { itemId, attempts: 0, failures: 0, lastResult: null, lastAt: 0 });
+      }
+      return history.get(itemId)!;
+    };
+    
+    submissionsSnapshot.forEach((doc) => {
+      const data = doc.data();
+      const entry = entryFor(data.taskId);
+      const createdAt = data.createdAt?.toMillis() || 0;
+      entry.attempts++;
+      if (data.result === 'fail') {
+        entry.failures++;
+      }
+      if (createdAt >= entry.lastAt) {
+        entry.lastAt = createdAt;
+        entry.lastResult = data.result;
+      }
+    });
+    
+    // MCQs aren't saved as submissions, so progress fills in their result
+    progressSnapshot.forEach((doc) => {
+      const data = doc.data();
+      const entry = entryFor(doc.id);
+      entry.irrelevant = data.status === 'irrelevant';
+      if (entry.attempts === 0 && (data.result === 'pass' || data.result === 'fail')) {
+        entry.attempts = 1;
+        entry.failures = data.result === 'fail' ? 1 : 0;
+        entry.lastResult = data.result;
+      }
+    });
+    
+    return Array.from(history.values()).map(({ lastAt, ...entry }) => entry);
+  } catch (error) {
+    console.error('Error getting learning history:', error);
+    throw error;
+  }
+};
+
+// Mastery estimates, one document per skill
+const toMasteryEstimate = (data: any): MasteryEstimate => ({
+  key: data.key,
+  dimension: data.dimension,
+  label: data.label,
+  pKnown: data.pKnown,
+  attempts: data.attempts || 0,
+  correct: data.correct || 0,
+  updatedAt: data.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString()
+});
+
+// Update the estimate of every skill the graded item covers
+export const recordMasteryAttempt = async (
+  uid: string,
+  item: QuestionItem | TaskItem,
+  correct: boolean
+): Promise<MasteryEstimate[]> => {
+  try {
+    const refs = new Map(getMasterySkills(item).map(({ dimension, label }) => {
+      const key = masteryKey(dimension, label);
+      // Keys may contain slashes, which Firestore treats as path separators
+      return [key, doc(db, 'users', uid, 'mastery', encodeURIComponent(key))];
+    }));
+    
+    const current: Record<string, MasteryEstimate> = {};
+    const snapshots = await Promise.all(Array.from(refs.values()).map(ref => getDoc(ref)));
+    snapshots.forEach(snapshot => {
+      if (snapshot.exists()) {
+        const estimate = toMasteryEstimate(snapshot.data());
+        current[estimate.key] = estimate;
+      }
+    });
+    
+    const updated = applyAttempt(current, item, correct);
+    const batch = writeBatch(db);
+    updated.forEach(estimate => {
+      batch.set(refs.get(estimate.key)!, {
+        ...estimate,
+        updatedAt: Timestamp.fromDate(new Date(estimate.updatedAt))
+      });
+    });
+    await batch.commit();
+    
+    return updated;
+  } catch (error) {
+    console.error('Error recording mastery attempt:', error);
+    throw error;
+  }
+};
+
+export const getMastery = async (uid: string, dimension?: MasteryDimension): Promise<MasteryEstimate[]> => {
+  try {
+    const masteryRef = collection(db, 'users', uid, 'mastery');
+    const q = dimension ? query(masteryRef, where('dimension', '==', dimension)) : masteryRef;
+    const querySnapshot = await getDocs(q);
+    
+    const estimates: MasteryEstimate[] = [];
+    querySnapshot.forEach((doc) => {
+      estimates.push(toMasteryEstimate(doc.data()));
+    });
+    
+    return estimates;
+  } catch (error) {
+    console.error('Error getting mastery:', error);
+    throw error;
+  }
+};
+
 // Code submissions
-export const saveSubmission = async (uid: string, taskId: string, code: string, result: 'pass' | 'fail', aiFeedback: string): Promise<void> => {
+export const saveSubmission = async (
+  uid: string, 
+  taskId: string, 
+  code: string, 
+  result: 'pass' | 'fail', 
+  aiFeedback: string,
+  review?: AIReviewResponse | null
+): Promise<void> => {
   try {
     const submissionsRef = collection(db, 'users', uid, 'submissions');
     await addDoc(submissionsRef, {
@@ -176,6 +384,9 @@ export const saveSubmission = async (uid: string, taskId: string, code: string,
       code,
       result,
       aiFeedback,
+      // Each reviewer's opinion is kept separately from the reconciled verdict
+      ...(review?.opinions ? { opinions: review.opinions } : {}),
+      ...(review?.policy ? { reviewPolicy: review.policy } : {}),
       createdAt: Timestamp.now()
     });
   } catch (error) {
@@ -184,6 +395,18 @@ export const saveSubmission = async (uid: string, taskId: string, code: string,
   }
 };
 
+const toUserSubmission = (uid: string, id: string, data: any): UserSubmission => ({
+  id,
+  itemId: data.taskId,
+  userId: uid,
+  content: data.code,
+  result: data.result,
+  feedback: data.aiFeedback,
+  timestamp: data.createdAt.toDate().toISOString(),
+  opinions: data.opinions,
+  reviewPolicy: data.reviewPolicy
+});
+
 export const getSubmissions = async (uid: string, taskId: string): Promise<UserSubmission[]> => {
   try {
     const submissionsRef = collection(db, 'users', uid, 'submissions');
@@ -192,15 +415,7 @@ export const getSubmissions = async (uid: string, taskId: string): Promise<UserS
     
     const submissions: UserSubmission[] = [];
     querySnapshot.forEach((doc) => {
-      submissions.push({
-        id: doc.id,
-        itemId: doc.data().taskId,
-        userId: uid,
-        content: doc.data().code,
-        result: doc.data().result,
-        feedback: doc.data().aiFeedback,
-        timestamp: doc.data().createdAt.toDate().toISOString()
-      });
+      submissions.push(toUserSubmission(uid, doc.id, doc.data()));
     });
     
     return submissions;
@@ -210,17 +425,83 @@ export const getSubmissions = async (uid: string, taskId: string): Promise<UserS
   }
 };
 
+// Every submission of the user, newest first
+export const getAllSubmissions = async (uid: string): Promise<UserSubmission[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, 'users', uid, 'submissions'));
+    return querySnapshot.docs
+      .map(snapshot => toUserSubmission(uid, snapshot.id, snapshot.data()))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  } catch (error) {
+    console.error('Error getting all submissions:', error);
+    throw error;
+  }
+};
+
 // Mock exams
+const toIsoString = (value: any): string | undefined => {
+  if (!value) return undefined;
+  return typeof value === 'string' ? value : value.toDate().toISOString();
+};
+
+// Adaptive exams used to store the whole candidate pool
+const toAdaptiveState = (adaptive: any): MockExam['adaptive'] => {
+  if (!adaptive?.pool || adaptive.pool.questionIds) {
+    return adaptive;
+  }
+  const { questions = [], tasks = [] } = adaptive.pool;
+  return {
+    ...adaptive,
+    pool: {
+      questionIds: questions.map((item: { id: string }) => item.id),
+      taskIds: tasks.map((item: { id: string }) => item.id)
+    }
+  };
+};
+
+const toMockExam = (id: string, data: any): MockExam => ({
+  ...data,
+  id,
+  ...(data.adaptive ? { adaptive: toAdaptiveState(data.adaptive) } : {}),
+  status: inferExamStatus(data),
+  answers: data.answers || {},
+  markedForReview: data.markedForReview || [],
+  elapsedMs: data.elapsedMs || 0,
+  itemTimeMs: data.itemTimeMs || {},
+  integritySignals: data.integritySignals || [],
+  currentItemIndex: data.currentItemIndex || 0,
+  startedAt: toIsoString(data.startedAt),
+  completedAt: toIsoString(data.completedAt),
+  updatedAt: toIsoString(data.updatedAt),
+  gradingClaimedAt: toIsoString(data.gradingClaimedAt)
+} as MockExam);
+
+// Dates are stored as Timestamps so exams can be ordered in queries
+const toExamDocument = (examData: Partial<MockExam>) => {
+  const { id, gradingClaimedAt, ...data } = examData;
+  return {
+    ...data,
+    ...(data.startedAt ? { startedAt: Timestamp.fromDate(new Date(data.startedAt)) } : {}),
+    ...(data.completedAt ? { completedAt: Timestamp.fromDate(new Date(data.completedAt)) } : {}),
+    updatedAt: Timestamp.now()
+  };
+};
+
 export const createMockExam = async (uid: string, examData: Partial<MockExam>): Promise<string> => {
   try {
     const examsRef = collection(db, 'users', uid, 'exams');
     const docRef = await addDoc(examsRef, {
-      ...examData,
+      ...toExamDocument(examData),
       userId: uid,
+      status: 'configured',
+      answers: {},
+      markedForReview: [],
+      elapsedMs: 0,
+      itemTimeMs: {},
+      integritySignals: [],
       completed: false,
       score: 0,
       totalPoints: 0,
-      startedAt: Timestamp.now(),
       currentItemIndex: 0
     });
     return docRef.id;
@@ -237,10 +518,9 @@ export const getMockExams = async (uid: string): Promise<MockExam[]> => {
     
     const exams: MockExam[] = [];
     querySnapshot.forEach((doc) => {
-      exams.push({
-        ...doc.data(),
-        id: doc.id
-      } as MockExam);
+      if (doc.data().kind !== 'interview') {
+        exams.push(toMockExam(doc.id, doc.data()));
+      }
     });
     
     return exams;
@@ -253,7 +533,7 @@ export const getMockExams = async (uid: string): Promise<MockExam[]> => {
 export const updateMockExam = async (uid: string, examId: string, examData: Partial<MockExam>): Promise<void> => {
   try {
     const examRef = doc(db, 'users', uid, 'exams', examId);
-    await updateDoc(examRef, examData);
+    await updateDoc(examRef, toExamDocument(examData));
   } catch (error) {
     console.error('Error updating mock exam:', error);
     throw error;
@@ -264,7 +544,8 @@ export const submitMockExam = async (uid: string, examId: string, examData: Part
   try {
     const examRef = doc(db, 'users', uid, 'exams', examId);
     await updateDoc(examRef, {
-      ...examData,
+      ...toExamDocument(examData),
+      status: 'submitted',
       completed: true,
       completedAt: Timestamp.now()
     });
@@ -274,10 +555,59 @@ export const submitMockExam = async (uid: string, examId: string, examData: Part
   }
 };
 
-export const completeMockExam = async (uid: string, examId: string, score: number, totalPoints: number): Promise<void> => {
+// A window that stops grading midway leaves its claim behind; after this long another may take over
+const GRADING_CLAIM_TTL_MS = 15 * 60 * 1000;
+
+// Claim a submitted exam for grading, so two windows or a reload never grade
+// it and apply its reviews, mastery updates and submissions twice
+export const claimExamGrading = async (uid: string, examId: string): Promise<boolean> => {
+  try {
+    const examRef = doc(db, 'users', uid, 'exams', examId);
+    return await runTransaction(db, async (transaction) => {
+      const docSnap = await transaction.get(examRef);
+      if (!docSnap.exists() || inferExamStatus(docSnap.data()) !== 'submitted') {
+        return false;
+      }
+      
+      const claimedAt = docSnap.data().gradingClaimedAt?.toMillis() || 0;
+      if (Date.now() - claimedAt < GRADING_CLAIM_TTL_MS) {
+        return false;
+      }
+      
+      transaction.update(examRef, { gradingClaimedAt: Timestamp.now() });
+      return true;
+    });
+  } catch (error) {
+    console.error('Error claiming exam grading:', error);
+    throw error;
+  }
+};
+
+// Give up a grading claim after grading failed, so a reload can grade right away
+export const releaseExamGrading = async (uid: string, examId: string): Promise<void> => {
+  try {
+    const examRef = doc(db, 'users', uid, 'exams', examId);
+    await updateDoc(examRef, { gradingClaimedAt: deleteField() });
+  } catch (error) {
+    console.error('Error releasing exam grading:', error);
+    throw error;
+  }
+};
+
+// Store the grading results; gradedItems carries the per-item verdicts and
+// feedback, plus the proficiency estimate of adaptive exams
+export const completeMockExam = async (
+  uid: string,
+  examId: string,
+  score: number,
+  totalPoints: number,
+  gradedItems: Pick<MockExam, 'questions' | 'tasks' | 'proficiency'> | null = null
+): Promise<void> => {
   try {
     const examRef = doc(db, 'users', uid, 'exams', examId);
     await updateDoc(examRef, {
+      ...gradedItems,
+      status: 'graded',
       completed: true,
       completedAt: Timestamp.now(),
       score,
@@ -295,13 +625,7 @@ export const getMockExam = async (uid: string, examId: string): Promise<MockExam
     const docSnap = await getDoc(examRef);
     
     if (docSnap.exists()) {
-      const data = docSnap.data();
-      return {
-        ...data,
-        id: docSnap.id,
-        startedAt: data.startedAt?.toDate().toISOString(),
-        completedAt: data.completedAt?.toDate().toISOString()
-      } as MockExam;
+      return toMockExam(docSnap.id, docSnap.data());
     }
     return null;
   } catch (error) {
@@ -317,14 +641,9 @@ export const getExamResults = async (uid: string): Promise<MockExam[]> => {
     
     const exams: MockExam[] = [];
     querySnapshot.forEach((doc) => {
-      const data = doc.data();
-      exams.push({
-        ...data,
-        id: doc.id,
-        userId: uid,
-        startedAt: data.startedAt?.toDate().toISOString(),
-        completedAt: data.completedAt?.toDate().toISOString()
-      } as MockExam);
+      if (doc.data().kind !== 'interview') {
+        exams.push(toMockExam(doc.id, { ...doc.data(), userId: uid }));
+      }
     });
     
     return exams;
@@ -333,3 +652,105 @@ export const getExamResults = async (uid: string): Promise<MockExam[]> => {
     throw error;
   }
 };
+
+// Interview simulations share the exams collection, marked with kind 'interview'
+const toInterviewSession = (id: string, data: any): InterviewSession => ({
+  ...data,
+  id,
+  transcript: data.transcript || [],
+  currentQuestionIndex: data.currentQuestionIndex || 0,
+  startedAt: toIsoString(data.startedAt),
+  completedAt: toIsoString(data.completedAt),
+  updatedAt: toIsoString(data.updatedAt)
+} as InterviewSession);
+
+export const createInterview = async (uid: string, interview: Omit<InterviewSession, 'id' | 'userId' | 'kind'>): Promise<string> => {
+  try {
+    const examsRef = collection(db, 'users', uid, 'exams');
+    const docRef = await addDoc(examsRef, {
+      ...interview,
+      kind: 'interview',
+      userId: uid,
+      startedAt: Timestamp.now(),
+      updatedAt: Timestamp.now()
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error creating interview:', error);
+    throw error;
+  }
+};
+
+export const updateInterview = async (
+  uid: string,
+  interviewId: string,
+  data: Partial<Pick<InterviewSession, 'transcript' | 'currentQuestionIndex' | 'status' | 'scorecard'>>
+): Promise<void> => {
+  try {
+    const interviewRef = doc(db, 'users', uid, 'exams', interviewId);
+    await updateDoc(interviewRef, {
+      ...data,
+      ...(data.status === 'completed' ? { completedAt: Timestamp.now() } : {}),
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error updating interview:', error);
+    throw error;
+  }
+};
+
+export const getInterview = async (uid: string, interviewId: string): Promise<InterviewSession | null> => {
+  try {
+    const docSnap = await getDoc(doc(db, 'users', uid, 'exams', interviewId));
+    
+    if (docSnap.exists() && docSnap.data().kind === 'interview') {
+      return toInterviewSession(docSnap.id, docSnap.data());
+    }
+    return null;
+  } catch (error) {
+    console.error('Error getting interview:', error);
+    throw error;
+  }
+};
+
+export const getInterviews = async (uid: string): Promise<InterviewSession[]> => {
+  try {
+    const interviewsQuery = query(collection(db, 'users', uid, 'exams'), where('kind', '==', 'interview'));
+    const querySnapshot = await getDocs(interviewsQuery);
+    return querySnapshot.docs.map(snapshot => toInterviewSession(snapshot.id, snapshot.data()));
+  } catch (error) {
+    console.error('Error getting interviews:', error);
+    throw error;
+  }
+};
+
+// AI-generated practice items; item ids are the document id prefixed with generated_
+export const saveGeneratedItem = async (uid: string, generated: Omit<GeneratedItem, 'id' | 'createdAt'>): Promise<GeneratedItem> => {
+  try {
+    const generatedRef = doc(collection(db, 'users', uid, 'generated'));
+    const id = `generated_${generatedRef.id}`;
+    const item = { ...generated.item, id };
+    await setDoc(generatedRef, { ...generated, item, createdAt: Timestamp.now() });
+    return { ...generated, item, id: generatedRef.id, createdAt: new Date().toISOString() };
+  } catch (error) {
+    console.error('Error saving generated item:', error);
+    throw error;
+  }
+};
+
+// Generated items, newest first
+export const getGeneratedItems = async (uid: string): Promise<GeneratedItem[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, 'users', uid, 'generated'));
+    return querySnapshot.docs
+      .map(snapshot => ({
+        ...snapshot.data(),
+        id: snapshot.id,
+        createdAt: toIsoString(snapshot.data().createdAt) || ''
+      } as GeneratedItem))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error('Error getting generated items:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,119 @@
+import type { GeneratedItemQuality, Module, QuestionItem, TaskItem } from '@/types';
+import { validateGeneratedQuestion, validateGeneratedTask } from './generatedItemValidator';
+import { stemmedTerms } from './rubricGrader';
+import { runTestCases } from './testRunnerService';
+import { runComponentTests } from './componentTestService';
+
+// Items at least this similar to a curriculum item are near-copies, not new practice
+export const DUPLICATE_THRESHOLD = 0.8;
+
+export type QualityReport<T> = Omit<GeneratedItemQuality, 'attempts'> & {
+  item: T | null; // Null when the item didn't get past the schema check
+  passed: boolean;
+};
+
+interface DuplicateMatch {
+  score: number;
+  title?: string;
+}
+
+const normalizeOption = (option: string): string => option.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// The answer is an option index; a model answering with the option text is mapped to its index
+const checkMcq = (question: QuestionItem, issues: string[]): QuestionItem => {
+  const options = question.options.map(normalizeOption);
+  if (options.length < 2) issues.push('An MCQ needs at least two options');
+  if (options.some(option => !option)) issues.push('MCQ options must not be empty');
+  if (new Set(options).size !== options.length) issues.push('MCQ options must be unique');
+
+  const answer = question.answer.trim();
+  if (/^\d+$/.test(answer) && parseInt(answer) < options.length) {
+    return { ...question, answer };
+  }
+  const index = options.indexOf(normalizeOption(answer));
+  if (index === -1) {
+    issues.push('The MCQ answer is not one of the options');
+    return question;
+  }
+  return { ...question, answer: String(index) };
+};
+
+const questionText = (question: QuestionItem): string => [question.question, ...question.options].join(' ');
+
+const taskText = (task: TaskItem): string => `${task.title} ${task.description}`;
+
+// Jaccard similarity of the stemmed content terms
+export const textSimilarity = (a: string, b: string): number => {
+  const left = stemmedTerms(a);
+  const right = stemmedTerms(b);
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+  const shared = Array.from(left).filter(term => right.has(term)).length;
+  return shared / (left.size + right.size - shared);
+};
+
+const closestMatch = <T>(text: string, candidates: T[], toText: (candidate: T) => string, toTitle: (candidate: T) => string): DuplicateMatch =>
+  candidates.reduce<DuplicateMatch>((best, candidate) => {
+    const score = textSimilarity(text, toText(candidate));
+    return score > best.score ? { score, title: toTitle(candidate) } : best;
+  }, { score: 0 });
+
+const duplicateIssue = (match: DuplicateMatch): string[] =>
+  match.score >= DUPLICATE_THRESHOLD
+    ? [`Near-duplicate of “${match.title}” (${Math.round(match.score * 100)}% similar)`]
+    : [];
+
+const toReport = <T>(item: T | null, issues: string[], match: DuplicateMatch, tests: Pick<GeneratedItemQuality, 'testsPassed' | 'testsExecuted'> = {}): QualityReport<T> => ({
+  item,
+  passed: !!item && issues.length === 0,
+  issues,
+  duplicateScore: Math.round(match.score * 100) / 100,
+  ...(match.title ? { duplicateOf: match.title } : {}),
+  ...tests
+});
+
+// Schema, answer key and near-duplicate checks for a generated question
+export const checkGeneratedQuestion = (data: any, source: QuestionItem, modules: Module[]): QualityReport<QuestionItem> => {
+  const { item: validated, errors } = validateGeneratedQuestion(data, source);
+  if (!validated) {
+    return toReport<QuestionItem>(null, errors, { score: 0 });
+  }
+
+  const issues: string[] = [];
+  const item = validated.type === 'mcq' ? checkMcq(validated, issues) : validated;
+  if (item.type !== 'mcq' && !item.answer.trim()) issues.push('The reference answer is empty');
+
+  const curriculum = [source, ...modules.flatMap(module => module.questions).filter(question => question.id !== source.id)];
+  const match = closestMatch(questionText(item), curriculum, questionText, question => question.question);
+  return toReport(item, [...issues, ...duplicateIssue(match)], match);
+};
+
+// Schema and near-duplicate checks for a generated task, then its own solution
+// has to pass its own tests; runs in the browser sandbox
+export const checkGeneratedTask = async (data: any, source: TaskItem, modules: Module[]): Promise<QualityReport<TaskItem>> => {
+  try {
+    const { item, errors } = validateGeneratedTask(data, source);
+    if (!item) {
+      return toReport<TaskItem>(null, errors, { score: 0 });
+    }
+
+    const curriculum = [source, ...modules.flatMap(module => module.tasks).filter(task => task.id !== source.id)];
+    const match = closestMatch(taskText(item), curriculum, taskText, task => task.title);
+    const issues = duplicateIssue(match);
+
+    const summary = item.componentTests && item.componentTests.length > 0
+      ? await runComponentTests(item.solutionCode, item.componentTests)
+      : await runTestCases(item.solutionCode, item.testCases);
+    if (summary.executed === 0) {
+      issues.push('The task has no executable test cases');
+    } else if (!summary.allPassed) {
+      issues.push(`The reference solution fails ${summary.executed - summary.passed} of ${summary.executed} tests`);
+    }
+
+    return toReport(item, issues, match, { testsPassed: summary.passed, testsExecuted: summary.executed });
+  } catch (error) {
+    console.error('Error checking generated task:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,121 @@
+import type { Difficulty, QuestionItem, QuestionType, TaskItem, TestComparator } from '@/types';
+import { findMalformedStep } from './componentTestService';
+
+export interface ItemValidationResult<T> {
+  item: T | null;
+  errors: string[];
+}
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+const QUESTION_TYPES: QuestionType[] = ['mcq', 'code', 'open', 'flashcard'];
+const LEARNING_PATHS: QuestionItem['learningPath'][] = ['beginner', 'intermediate', 'advanced', 'expert'];
+const COMPARATORS: TestComparator[] = ['deep-equal', 'strict-equal', 'approx', 'throws', 'dom-snapshot'];
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+// Optional string lists fall back to the source item's, anything else present must be a list of strings
+const stringList = (data: any, field: string, fallback: string[], errors: string[]): string[] => {
+  if (data[field] === undefined || data[field] === null) {
+    return fallback;
+  }
+  if (!isStringArray(data[field])) {
+    errors.push(`"${field}" must be an array of strings`);
+    return fallback;
+  }
+  return data[field];
+};
+
+// Metadata the model may leave out is taken from the source item
+const scale = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && value >= 1 && value <= 10 ? Math.round(value) : fallback;
+
+const oneOf = <T extends string>(value: unknown, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback;
+
+// Check a generated question against the QuestionItem shape, filling metadata from the source
+export const validateGeneratedQuestion = (data: any, source: QuestionItem): ItemValidationResult<QuestionItem> => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { item: null, errors: ['Generated question must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  if (!isNonEmptyString(data.question)) errors.push('"question" must be a non-empty string');
+  if (!QUESTION_TYPES.includes(data.type)) errors.push(`"type" must be one of ${QUESTION_TYPES.join(', ')}`);
+  if (typeof data.answer !== 'string' && typeof data.answer !== 'number') errors.push('"answer" must be a string');
+  if (data.level !== undefined && !DIFFICULTIES.includes(data.level)) errors.push(`"level" must be one of ${DIFFICULTIES.join(', ')}`);
+  if (data.type === 'mcq' && !isStringArray(data.options)) errors.push('"options" must be an array of strings for an MCQ');
+
+  const item: QuestionItem = {
+    id: typeof data.id === 'string' ? data.id : '',
+    topic: isNonEmptyString(data.topic) ? data.topic : source.topic,
+    level: oneOf(data.level, DIFFICULTIES, source.level),
+    type: data.type,
+    question: data.question,
+    answer: String(data.answer ?? ''),
+    example: typeof data.example === 'string' ? data.example : '',
+    tags: stringList(data, 'tags', source.tags, errors),
+    options: stringList(data, 'options', [], errors),
+    analysisPoints: stringList(data, 'analysisPoints', [], errors),
+    keyConcepts: stringList(data, 'keyConcepts', [], errors),
+    evaluationCriteria: stringList(data, 'evaluationCriteria', [], errors),
+    irrelevant: false,
+    prerequisites: stringList(data, 'prerequisites', source.prerequisites, errors),
+    complexity: scale(data.complexity, source.complexity),
+    interviewFrequency: scale(data.interviewFrequency, source.interviewFrequency),
+    learningPath: oneOf(data.learningPath, LEARNING_PATHS, source.learningPath)
+  };
+
+  return errors.length > 0 ? { item: null, errors } : { item, errors };
+};
+
+const isTestCase = (testCase: any): boolean =>
+  typeof testCase === 'string' ||
+  (!!testCase && isNonEmptyString(testCase.description) && typeof testCase.input === 'string' && COMPARATORS.includes(testCase.comparator));
+
+const isComponentScenario = (scenario: any): boolean =>
+  !!scenario && isNonEmptyString(scenario.description) && Array.isArray(scenario.steps) && scenario.steps.length > 0 &&
+  scenario.steps.every((step: any) => typeof step?.action === 'string') && !findMalformedStep(scenario);
+
+// Check a generated task against the TaskItem shape, filling metadata from the source
+export const validateGeneratedTask = (data: any, source: TaskItem): ItemValidationResult<TaskItem> => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { item: null, errors: ['Generated task must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  if (!isNonEmptyString(data.title)) errors.push('"title" must be a non-empty string');
+  if (!isNonEmptyString(data.description)) errors.push('"description" must be a non-empty string');
+  if (typeof data.startingCode !== 'string') errors.push('"startingCode" must be a string');
+  if (!isNonEmptyString(data.solutionCode)) errors.push('"solutionCode" must be a non-empty string');
+  if (data.difficulty !== undefined && !DIFFICULTIES.includes(data.difficulty)) errors.push(`"difficulty" must be one of ${DIFFICULTIES.join(', ')}`);
+  if (!Array.isArray(data.testCases) || !data.testCases.every(isTestCase)) {
+    errors.push('"testCases" must be an array of strings or structured test cases');
+  }
+  if (data.componentTests !== undefined && (!Array.isArray(data.componentTests) || !data.componentTests.every(isComponentScenario))) {
+    errors.push('"componentTests" must be an array of scenarios with steps, each assertion with an expected value');
+  }
+
+  const item: TaskItem = {
+    id: typeof data.id === 'string' ? data.id : '',
+    title: data.title,
+    description: data.description,
+    difficulty: oneOf(data.difficulty, DIFFICULTIES, source.difficulty),
+    startingCode: data.startingCode,
+    solutionCode: data.solutionCode,
+    testCases: Array.isArray(data.testCases) ? data.testCases : [],
+    ...(Array.isArray(data.componentTests) && data.componentTests.length > 0 ? { componentTests: data.componentTests } : {}),
+    hints: stringList(data, 'hints', [], errors),
+    tags: stringList(data, 'tags', source.tags, errors),
+    timeEstimate: typeof data.timeEstimate === 'number' && data.timeEstimate > 0 ? data.timeEstimate : source.timeEstimate,
+    prerequisites: stringList(data, 'prerequisites', source.prerequisites, errors),
+    complexity: scale(data.complexity, source.complexity),
+    interviewRelevance: scale(data.interviewRelevance, source.interviewRelevance),
+    learningPath: oneOf(data.learningPath, LEARNING_PATHS, source.learningPath),
+    relatedConcepts: stringList(data, 'relatedConcepts', source.relatedConcepts, errors)
+  };
+
+  return errors.length > 0 ? { item: null, errors } : { item, errors };
+};
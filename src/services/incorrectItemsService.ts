@@ -0,0 +1,79 @@
+import type { IncorrectItem, IncorrectItemFilters, Module, QuestionItem, TaskItem, Technology, UserSubmission } from '@/types';
+import { getAllProgress, getAllSubmissions } from './firestoreService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CurriculumEntry {
+  itemType: 'question' | 'task';
+  item: QuestionItem | TaskItem;
+  module: Module;
+}
+
+const indexCurriculum = (modules: Module[]): Map<string, CurriculumEntry> => {
+  const entries = new Map<string, CurriculumEntry>();
+  modules.forEach(module => {
+    module.questions.forEach(item => entries.set(item.id, { itemType: 'question', item, module }));
+    module.tasks.forEach(item => entries.set(item.id, { itemType: 'task', item, module }));
+  });
+  return entries;
+};
+
+// Items the learner currently has wrong, most recent failure first. The latest
+// submission decides when there is one; MCQs have none, so their progress
+// record does. Ids the curriculum no longer has (or generated items) are dropped
+export const getIncorrectItems = async (uid: string, modules: Module[]): Promise<IncorrectItem[]> => {
+  try {
+    const [progress, submissions] = await Promise.all([getAllProgress(uid), getAllSubmissions(uid)]);
+    const curriculum = indexCurriculum(modules);
+
+    // Submissions come newest first
+    const submissionsByItem = new Map<string, UserSubmission[]>();
+    submissions.forEach(submission => {
+      submissionsByItem.set(submission.itemId, [...(submissionsByItem.get(submission.itemId) || []), submission]);
+    });
+
+    const itemIds = new Set([...Object.keys(progress.incorrectItems), ...Array.from(submissionsByItem.keys())]);
+    const items: IncorrectItem[] = [];
+    itemIds.forEach(itemId => {
+      const entry = curriculum.get(itemId);
+      const history = submissionsByItem.get(itemId) || [];
+      const failing = history.length > 0 ? history[0].result === 'fail' : !!progress.incorrectItems[itemId];
+      if (!entry || !failing) {
+        return;
+      }
+
+      const lastWrongAnswer = history.find(submission => submission.result === 'fail');
+      items.push({
+        itemType: entry.itemType,
+        item: entry.item,
+        technology: entry.module.technology,
+        moduleTitle: entry.module.title,
+        ...(lastWrongAnswer ? { lastWrongAnswer } : {}),
+        failedAt: lastWrongAnswer?.timestamp || progress.incorrectAt[itemId] || '',
+        attempts: Math.max(history.length, 1)
+      });
+    });
+
+    return items.sort((a, b) => b.failedAt.localeCompare(a.failedAt));
+  } catch (error) {
+    console.error('Error getting incorrect items:', error);
+    throw error;
+  }
+};
+
+// Undated failures only pass the "any time" date filter
+export const filterIncorrectItems = (
+  items: IncorrectItem[],
+  filters: IncorrectItemFilters,
+  now: Date = new Date()
+): IncorrectItem[] => {
+  const since = filters.sinceDays === null ? null : now.getTime() - filters.sinceDays * DAY_MS;
+  return items.filter(entry =>
+    (filters.technology === 'all' || entry.technology === filters.technology) &&
+    (since === null || (!!entry.failedAt && new Date(entry.failedAt).getTime() >= since))
+  );
+};
+
+// Technologies with at least one incorrect item, for the filter
+export const getIncorrectTechnologies = (items: IncorrectItem[]): Technology[] =>
+  Array.from(new Set(items.map(entry => entry.technology))).sort();
@@ -0,0 +1,55 @@
+import type { InterviewConfig, InterviewSession, InterviewTurn, Module, QuestionItem } from '@/types';
+import { buildMockExam } from './examBuilder';
+
+// Questions the interviewer can probe: open-ended ones with concepts to follow up on
+const isInterviewQuestion = (question: QuestionItem): boolean =>
+  question.type !== 'mcq' && (question.keyConcepts.length > 0 || question.analysisPoints.length > 0);
+
+export const askQuestionTurn = (question: QuestionItem): InterviewTurn => ({
+  role: 'interviewer',
+  text: question.example ? `${question.question}\n\n${question.example}` : question.question,
+  questionId: question.id,
+  at: new Date().toISOString()
+});
+
+export const getQuestionTurns = (transcript: InterviewTurn[], questionId: string): InterviewTurn[] =>
+  transcript.filter(turn => turn.questionId === questionId);
+
+export const countFollowUps = (transcript: InterviewTurn[], questionId: string): number =>
+  getQuestionTurns(transcript, questionId).filter(turn => turn.followUp).length;
+
+// Pick the interview questions with the mock exam selection (tag spread,
+// difficulty mix, recent items avoided) and open with the first one
+export const buildInterview = (
+  modules: Module[],
+  config: InterviewConfig,
+  recentItemIds: Set<string> = new Set()
+): Omit<InterviewSession, 'id' | 'userId' | 'kind'> | null => {
+  const interviewModules = modules.map(module => ({ ...module, questions: module.questions.filter(isInterviewQuestion) }));
+  const { exam } = buildMockExam(interviewModules, {
+    topics: config.topics,
+    mcqCount: 0,
+    openEndedCount: config.questionCount,
+    codingCount: 0,
+    timeLimit: 0,
+    difficulty: config.difficulty,
+    adaptive: false,
+    strictMode: false
+  }, recentItemIds);
+
+  const questions = exam.questions || [];
+  if (questions.length === 0) {
+    return null;
+  }
+
+  const topicLabel = config.topics.length > 0 ? config.topics.join(', ') : 'Mixed';
+  return {
+    title: `${topicLabel} Interview`,
+    technology: config.topics.length === 1 ? config.topics[0] : 'mixed',
+    questions,
+    maxFollowUps: config.maxFollowUps,
+    currentQuestionIndex: 0,
+    transcript: [askQuestionTurn(questions[0])],
+    status: 'in-progress'
+  };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { readServerSentEvents } from '../sse';
+
+// A response whose body serves the chunks and records being cancelled
+const streamedResponse = (chunks: string[]) => {
+  const state = { cancelled: false };
+  const encoder = new TextEncoder();
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[index++]));
+      }
+    },
+    cancel() {
+      state.cancelled = true;
+    }
+  });
+  return { response: new Response(body), state };
+};
+
+const collect = async (response: Response) => {
+  const events: any[] = [];
+  for await (const event of readServerSentEvents(response)) {
+    events.push(event);
+  }
+  return events;
+};
+
+describe('readServerSentEvents', () => {
+  it('yields JSON data events split across chunks and skips keep-alives', async () => {
+    const { response } = streamedResponse(['data: {"a"', ':1}\n\n: ping\ndata: not json\n', 'data: {"b":2}\n\ndata: [DONE]\n\n']);
+    expect(await collect(response)).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it('cancels the body on [DONE] even when the server keeps it open', async () => {
+    const { response, state } = streamedResponse(['data: {"a":1}\n\ndata: [DONE]\n\n']);
+    expect(await collect(response)).toEqual([{ a: 1 }]);
+    expect(state.cancelled).toBe(true);
+  });
+
+  it('cancels the body when the consumer stops early', async () => {
+    const { response, state } = streamedResponse(['data: {"a":1}\n\n', 'data: {"b":2}\n\n']);
+    for await (const event of readServerSentEvents(response)) {
+      expect(event).toEqual({ a: 1 });
+      break;
+    }
+    expect(state.cancelled).toBe(true);
+  });
+});
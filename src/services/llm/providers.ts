@@ -0,0 +1,246 @@
+import { readServerSentEvents } from './sse';
+import type { GenerateOptions, LLMProvider, LLMProviderConfig } from './types';
+
+const DEFAULT_TIMEOUT_MS = 120000;
+
+// Abort signal that follows the caller's signal and fires once timeoutMs pass
+// without a restart. cleanup must run when the request is done with it.
+const createDeadline = (timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const expire = () => {
+    timedOut = true;
+    controller.abort();
+  };
+  let timer = setTimeout(expire, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort);
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    restart: () => {
+      clearTimeout(timer);
+      timer = setTimeout(expire, timeoutMs);
+    },
+    cleanup: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  };
+};
+
+const send = async (url: string, body: unknown, headers: Record<string, string>, signal: AbortSignal): Promise<Response> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`Request to ${url} failed with status ${response.status}: ${text.slice(0, 500)}`);
+  }
+  return response;
+};
+
+// POST JSON and parse the response, with a timeout, throwing on non-2xx responses
+const post = async (
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<any> => {
+  const deadline = createDeadline(timeoutMs, signal);
+  try {
+    return await (await send(url, body, headers, deadline.signal)).json();
+  } finally {
+    deadline.cleanup();
+  }
+};
+
+// POST JSON and yield the server-sent events of the response. The timeout
+// covers the wait for headers and then each gap between body chunks.
+async function* postStream(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): AsyncGenerator<any> {
+  const deadline = createDeadline(timeoutMs, signal);
+  try {
+    const response = await send(url, body, headers, deadline.signal);
+    deadline.restart();
+    yield* readServerSentEvents(response, deadline.restart);
+  } catch (error) {
+    if (deadline.timedOut()) {
+      throw new Error(`Stream from ${url} sent nothing for ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    deadline.cleanup();
+  }
+}
+
+// Google Gemini generateContent API
+export const createGeminiProvider = (config: LLMProviderConfig): LLMProvider => {
+  const model = config.model || 'gemini-2.5-flash-preview-05-20';
+  const baseUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}`;
+
+  // Arguments for post and postStream
+  const request = (method: string, prompt: string, options: GenerateOptions): Parameters<typeof post> => {
+    if (!config.apiKey) {
+      throw new Error('Gemini API key is not defined in environment variables');
+    }
+
+    return [
+      `${baseUrl}:${method}`,
+      {
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: options.temperature ?? (options.json ? 0.2 : 1),
+          topP: 0.95,
+          maxOutputTokens: options.maxTokens ?? 62000,
+          ...(options.json ? { responseMimeType: 'application/json' } : {})
+        }
+      },
+      { 'x-goog-api-key': config.apiKey },
+      config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      options.signal
+    ];
+  };
+
+  return {
+    name: 'gemini',
+    model,
+    generate: async (prompt: string, options: GenerateOptions = {}) => {
+      const data = await post(...request('generateContent', prompt, options));
+      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (!text) {
+        throw new Error('Invalid response format from Gemini API');
+      }
+      return text;
+    },
+    stream: async function* (prompt: string, options: GenerateOptions = {}) {
+      for await (const event of postStream(...request('streamGenerateContent?alt=sse', prompt, options))) {
+        const text = event.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (text) {
+          yield text;
+        }
+      }
+    }
+  };
+};
+
+// Any server implementing the OpenAI chat completions API
+const createChatCompletionsProvider = (
+  name: string,
+  config: LLMProviderConfig,
+  defaults: { baseUrl: string; model: string; requiresApiKey: boolean }
+): LLMProvider => {
+  const model = config.model || defaults.model;
+  const baseUrl = (config.baseUrl || defaults.baseUrl).replace(/\/+$/, '');
+
+  // Arguments for post and postStream
+  const request = (prompt: string, options: GenerateOptions, stream: boolean): Parameters<typeof post> => {
+    if (defaults.requiresApiKey && !config.apiKey) {
+      throw new Error(`${name} API key is not defined in environment variables`);
+    }
+
+    return [
+      `${baseUrl}/chat/completions`,
+      {
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature ?? 0.2,
+        max_tokens: options.maxTokens ?? 8192,
+        stream,
+        ...(options.json ? { response_format: { type: 'json_object' } } : {})
+      },
+      config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+      config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      options.signal
+    ];
+  };
+
+  return {
+    name,
+    model,
+    generate: async (prompt: string, options: GenerateOptions = {}) => {
+      const data = await post(...request(prompt, options, false));
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error(`Invalid response format from ${name} API`);
+      }
+      return text;
+    },
+    stream: async function* (prompt: string, options: GenerateOptions = {}) {
+      for await (const event of postStream(...request(prompt, options, true))) {
+        const text = event.choices?.[0]?.delta?.content;
+        if (text) {
+          yield text;
+        }
+      }
+    }
+  };
+};
+
+// Hosted models via OpenRouter (DeepSeek by default)
+export const createOpenRouterProvider = (config: LLMProviderConfig): LLMProvider =>
+  createChatCompletionsProvider('openrouter', config, {
+    baseUrl: 'https://openrouter.ai/api/v1',
+    model: 'deepseek/deepseek-coder-v2',
+    requiresApiKey: true
+  });
+
+// Local OpenAI-compatible server such as Ollama or llama.cpp's llama-server
+export const createLocalProvider = (config: LLMProviderConfig): LLMProvider =>
+  createChatCompletionsProvider('local', config, {
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    requiresApiKey: false
+  });
+
+// Canned review that satisfies REVIEW_JSON_SCHEMA
+const FAKE_REVIEW = {
+  verdict: 'pass',
+  score: 80,
+  summary: 'Fake review generated offline by the fake LLM provider.',
+  rubric: [{ criterion: 'Correctness', score: 80, comment: 'Not evaluated by a real model' }],
+  testCases: [],
+  suggestions: []
+};
+
+export type FakeResponder = (prompt: string, options: GenerateOptions) => string;
+
+// Deterministic provider for tests and offline development. Without a responder it
+// returns a passing review for review prompts and an empty JSON object otherwise.
+export const createFakeProvider = (
+  config: LLMProviderConfig & { responder?: FakeResponder } = {}
+): LLMProvider => {
+  const respond = (prompt: string, options: GenerateOptions): string => {
+    if (config.responder) {
+      return config.responder(prompt, options);
+    }
+    return prompt.includes('"verdict"') ? JSON.stringify(FAKE_REVIEW) : '{}';
+  };
+
+  return {
+    name: 'fake',
+    model: config.model || 'fake',
+    generate: async (prompt: string, options: GenerateOptions = {}) => respond(prompt, options),
+    // Fixed-size chunks so streaming consumers see several deltas
+    stream: async function* (prompt: string, options: GenerateOptions = {}) {
+      const text = respond(prompt, options);
+      for (let index = 0; index < text.length; index += 16) {
+        if (options.signal?.aborted) {
+          throw new Error('Request aborted');
+        }
+        yield text.slice(index, index + 16);
+      }
+    }
+  };
+};
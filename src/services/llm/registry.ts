@@ -0,0 +1,87 @@
+import {
+  createFakeProvider,
+  createGeminiProvider,
+  createLocalProvider,
+  createOpenRouterProvider
+} from './providers';
+import type { LLMProvider, LLMProviderConfig, LLMProviderFactory, LLMPurpose } from './types';
+
+const factories = new Map<string, LLMProviderFactory>([
+  ['gemini', createGeminiProvider],
+  ['openrouter', createOpenRouterProvider],
+  ['local', createLocalProvider],
+  ['fake', createFakeProvider]
+]);
+
+// Add or replace a provider, e.g. a scripted fake in tests
+export const registerProvider = (name: string, factory: LLMProviderFactory): void => {
+  factories.set(name, factory);
+};
+
+export const listProviders = (): string[] => Array.from(factories.keys());
+
+// Provider settings and keys are server-only; NEXT_PUBLIC_ variables would be
+// inlined into the browser bundle, so those names are not read
+const readPurposeSetting = (purpose: LLMPurpose): string | undefined => {
+  switch (purpose) {
+    case 'review':
+      return process.env.LLM_REVIEW_PROVIDER;
+    case 'generation':
+      return process.env.LLM_GENERATION_PROVIDER;
+    case 'pipeline':
+      return process.env.LLM_PIPELINE_PROVIDER;
+  }
+};
+
+// Environment config of a provider, e.g. to check for its key before a long run
+export const readProviderConfig = (name: string): LLMProviderConfig => {
+  switch (name) {
+    case 'gemini':
+      return {
+        apiKey: process.env.GEMINI_API_KEY,
+        model: process.env.GEMINI_MODEL
+      };
+    case 'openrouter':
+      return {
+        apiKey: process.env.OPENROUTER_API_KEY,
+        model: process.env.OPENROUTER_MODEL
+      };
+    case 'local':
+      return {
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        baseUrl: process.env.LOCAL_LLM_BASE_URL,
+        model: process.env.LOCAL_LLM_MODEL
+      };
+    default:
+      return {};
+  }
+};
+
+// Purpose-specific setting, then the caller's explicit choice, then the global
+// LLM_PROVIDER default
+export const resolveProviderName = (purpose: LLMPurpose, preferred?: string): string => {
+  return readPurposeSetting(purpose) ||
+         preferred ||
+         process.env.LLM_PROVIDER ||
+         'gemini';
+};
+
+// Build a provider from environment config, with explicit overrides taking precedence
+export const getProvider = (name: string, overrides: LLMProviderConfig = {}): LLMProvider => {
+  const factory = factories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${name}". Registered providers: ${listProviders().join(', ')}`);
+  }
+
+  const explicit = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined && value !== '')
+  );
+
+  return factory({ ...readProviderConfig(name), ...explicit });
+};
+
+export const resolveProvider = (
+  purpose: LLMPurpose,
+  preferred?: string,
+  overrides?: LLMProviderConfig
+): LLMProvider => getProvider(resolveProviderName(purpose, preferred), overrides);
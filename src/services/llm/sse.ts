@@ -0,0 +1,54 @@
+// Yield the JSON payload of every `data:` event in a server-sent events response.
+// onChunk is called whenever the body delivers data, keep-alives included.
+export async function* readServerSentEvents(response: Response, onChunk?: () => void): AsyncGenerator<any> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+
+      onChunk?.();
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+
+        if (!line.startsWith('data:')) {
+          continue;
+        }
+
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') {
+          return;
+        }
+
+        try {
+          yield JSON.parse(data);
+        } catch {
+          // Not JSON, e.g. a keep-alive payload
+        }
+      }
+    }
+  } finally {
+    // After [DONE], an error or a consumer that stopped early, close the
+    // upstream body instead of leaving the connection open
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,29 @@
+// Providers available out of the box; more can be added with registerProvider
+export type LLMProviderName = 'gemini' | 'openrouter' | 'local' | 'fake';
+
+// Where a call comes from, so review and pipeline traffic can use different providers
+export type LLMPurpose = 'review' | 'generation' | 'pipeline';
+
+export interface GenerateOptions {
+  json?: boolean; // Ask the provider for a JSON-only response
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal; // Cancels the request, e.g. when the client disconnects
+}
+
+export interface LLMProviderConfig {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  generate: (prompt: string, options?: GenerateOptions) => Promise<string>;
+  // Yields the response text in chunks as the model produces it
+  stream?: (prompt: string, options?: GenerateOptions) => AsyncGenerator<string>;
+}
+
+export type LLMProviderFactory = (config: LLMProviderConfig) => LLMProvider;
@@ -0,0 +1,91 @@
+import type { MasteryDimension, MasteryEstimate, QuestionItem, TaskItem } from '@/types';
+import { getItemTechnology } from './dataService';
+
+// Bayesian knowledge tracing parameters: prior, learning rate per attempt,
+// and the chance of slipping on a known skill
+export const P_INIT = 0.3;
+export const P_TRANSIT = 0.1;
+export const P_SLIP = 0.1;
+
+// Chance of guessing right on open answers and tasks; MCQs use 1 / options
+const OPEN_GUESS = 0.1;
+
+// Estimates below this with enough attempts count as weak areas
+export const WEAK_P = 0.5;
+export const MIN_WEAK_ATTEMPTS = 2;
+
+export const masteryKey = (dimension: MasteryDimension, label: string): string =>
+  `${dimension}:${label.trim().toLowerCase()}`;
+
+// Skills an attempt at the item provides evidence for
+export const getMasterySkills = (item: QuestionItem | TaskItem): { dimension: MasteryDimension; label: string }[] => {
+  const concepts = 'keyConcepts' in item ? item.keyConcepts : item.relatedConcepts;
+  const skills = [
+    ...(item.tags || []).map(label => ({ dimension: 'tag' as const, label })),
+    ...(concepts || []).map(label => ({ dimension: 'concept' as const, label })),
+    { dimension: 'technology' as const, label: getItemTechnology(item) },
+    { dimension: 'learningPath' as const, label: item.learningPath }
+  ];
+
+  // One update per skill even if a tag is repeated
+  const seen = new Set<string>();
+  return skills.filter(skill => {
+    const key = masteryKey(skill.dimension, skill.label || '');
+    if (!skill.label || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+const guessProbability = (item: QuestionItem | TaskItem): number => {
+  if ('type' in item && item.type === 'mcq' && item.options.length > 0) {
+    return 1 / item.options.length;
+  }
+  return OPEN_GUESS;
+};
+
+// Posterior after observing one answer, followed by the learning transition
+export const updateKnowledge = (pKnown: number, correct: boolean, pGuess: number): number => {
+  const posterior = correct
+    ? (pKnown * (1 - P_SLIP)) / (pKnown * (1 - P_SLIP) + (1 - pKnown) * pGuess)
+    : (pKnown * P_SLIP) / (pKnown * P_SLIP + (1 - pKnown) * (1 - pGuess));
+  return posterior + (1 - posterior) * P_TRANSIT;
+};
+
+// Updated estimates for every skill touched by a graded attempt
+export const applyAttempt = (
+  current: Record<string, MasteryEstimate>,
+  item: QuestionItem | TaskItem,
+  correct: boolean,
+  now: Date = new Date()
+): MasteryEstimate[] => {
+  const pGuess = guessProbability(item);
+
+  return getMasterySkills(item).map(({ dimension, label }) => {
+    const key = masteryKey(dimension, label);
+    const previous = current[key];
+    return {
+      key,
+      dimension,
+      label: previous?.label || label,
+      pKnown: updateKnowledge(previous?.pKnown ?? P_INIT, correct, pGuess),
+      attempts: (previous?.attempts || 0) + 1,
+      correct: (previous?.correct || 0) + (correct ? 1 : 0),
+      updatedAt: now.toISOString()
+    };
+  });
+};
+
+// Lowest estimates first, ignoring skills with too little evidence
+export const getWeakAreas = (
+  estimates: MasteryEstimate[],
+  options: { dimension?: MasteryDimension; limit?: number } = {}
+): MasteryEstimate[] => {
+  return estimates
+    .filter(estimate => !options.dimension || estimate.dimension === options.dimension)
+    .filter(estimate => estimate.attempts >= MIN_WEAK_ATTEMPTS && estimate.pKnown < WEAK_P)
+    .sort((a, b) => a.pKnown - b.pKnown)
+    .slice(0, options.limit ?? 5);
+};
@@ -0,0 +1,135 @@
+import type { 
+  AIReviewResponse, 
+  ReviewDisagreement, 
+  ReviewerOpinion, 
+  ReviewPolicy, 
+  TestCaseVerdict 
+} from '@/types';
+import { StructuredReview, formatReviewFeedback } from './aiReviewParser';
+
+export const DEFAULT_REVIEW_POLICY: ReviewPolicy = 'all-pass';
+
+export const REVIEW_POLICIES: ReviewPolicy[] = ['all-pass', 'majority', 'weighted'];
+
+// Weighted score a submission needs under the 'weighted' policy and for 'majority' ties
+export const PASS_SCORE = 70;
+
+// Relative trust in each reviewer slot when averaging scores
+const REVIEWER_WEIGHTS: Record<string, number> = {
+  deepseek: 1,
+  gemini: 1
+};
+
+export const toOpinion = (reviewer: string, label: string, review: StructuredReview): ReviewerOpinion => ({
+  reviewer,
+  label,
+  verdict: review.verdict,
+  score: review.score,
+  summary: review.summary,
+  rubric: review.rubric,
+  testCaseVerdicts: review.testCases,
+  suggestions: review.suggestions
+});
+
+export const weightedScore = (opinions: ReviewerOpinion[]): number => {
+  const totalWeight = opinions.reduce((sum, opinion) => sum + (REVIEWER_WEIGHTS[opinion.reviewer] ?? 1), 0);
+  if (totalWeight === 0) {
+    return 0;
+  }
+  const total = opinions.reduce((sum, opinion) => sum + opinion.score * (REVIEWER_WEIGHTS[opinion.reviewer] ?? 1), 0);
+  return Math.round(total / totalWeight);
+};
+
+export const reconcileVerdict = (opinions: ReviewerOpinion[], policy: ReviewPolicy): 'pass' | 'fail' => {
+  const passes = opinions.filter(opinion => opinion.verdict === 'pass').length;
+  const scorePasses = weightedScore(opinions) >= PASS_SCORE;
+
+  switch (policy) {
+    case 'majority':
+      if (passes * 2 === opinions.length) {
+        return scorePasses ? 'pass' : 'fail';
+      }
+      return passes * 2 > opinions.length ? 'pass' : 'fail';
+    case 'weighted':
+      return scorePasses ? 'pass' : 'fail';
+    default:
+      return passes === opinions.length ? 'pass' : 'fail';
+  }
+};
+
+// Verdicts and test cases where one reviewer passes and another fails.
+// Test cases are matched by position since every reviewer gets them in the same order.
+export const findDisagreements = (opinions: ReviewerOpinion[]): ReviewDisagreement[] => {
+  const disagreements: ReviewDisagreement[] = [];
+  const conflicting = (verdicts: string[]) => verdicts.includes('pass') && verdicts.includes('fail');
+
+  if (conflicting(opinions.map(opinion => opinion.verdict))) {
+    disagreements.push({
+      subject: 'verdict',
+      verdicts: Object.fromEntries(opinions.map(opinion => [opinion.reviewer, opinion.verdict]))
+    });
+  }
+
+  const caseCount = Math.max(0, ...opinions.map(opinion => opinion.testCaseVerdicts.length));
+  for (let index = 0; index < caseCount; index++) {
+    const entries = opinions.map(opinion => [opinion.reviewer, opinion.testCaseVerdicts[index]?.verdict || 'unknown'] as const);
+    if (conflicting(entries.map(([, verdict]) => verdict))) {
+      const described = opinions.find(opinion => opinion.testCaseVerdicts[index]);
+      disagreements.push({
+        subject: described?.testCaseVerdicts[index].testCase || `Test case ${index + 1}`,
+        verdicts: Object.fromEntries(entries)
+      });
+    }
+  }
+
+  return disagreements;
+};
+
+// Per test case verdict the reviewers agree on, or 'unknown' when they don't
+const mergeTestCaseVerdicts = (opinions: ReviewerOpinion[]): TestCaseVerdict[] => {
+  const caseCount = Math.max(0, ...opinions.map(opinion => opinion.testCaseVerdicts.length));
+  return Array.from({ length: caseCount }, (_, index) => {
+    const verdicts = opinions.map(opinion => opinion.testCaseVerdicts[index]).filter(Boolean);
+    const known = Array.from(new Set(verdicts.map(verdict => verdict.verdict).filter(verdict => verdict !== 'unknown')));
+    return {
+      testCase: verdicts[0].testCase,
+      verdict: known.length === 1 ? known[0] : 'unknown',
+      reason: known.length > 1 ? 'Reviewers disagree' : verdicts.map(verdict => verdict.reason).filter(Boolean).join(' / ')
+    };
+  });
+};
+
+// Combine the reviewers' structured opinions into one response using the policy
+export const reconcileReviews = (opinions: ReviewerOpinion[], policy: ReviewPolicy): AIReviewResponse => {
+  const verdict = reconcileVerdict(opinions, policy);
+  const disagreements = findDisagreements(opinions);
+  const score = weightedScore(opinions);
+
+  const sections = opinions.map(opinion => `=== ${opinion.label.toUpperCase()} REVIEW ===\n${formatReviewFeedback({
+    verdict: opinion.verdict,
+    score: opinion.score,
+    summary: opinion.summary,
+    rubric: opinion.rubric,
+    testCases: opinion.testCaseVerdicts,
+    suggestions: opinion.suggestions
+  })}`);
+
+  const header = [`Final verdict: ${verdict.toUpperCase()} (${policy} policy, weighted score ${score}/100)`];
+  if (disagreements.length > 0) {
+    header.push(`Reviewers disagree on: ${disagreements.map(disagreement => disagreement.subject).join('; ')}`);
+  }
+
+  return {
+    isCorrect: verdict === 'pass',
+    verdict,
+    score,
+    summary: opinions.map(opinion => `${opinion.label}: ${opinion.summary}`).join('\n'),
+    rubric: opinions.flatMap(opinion => opinion.rubric.map(entry => ({ ...entry, criterion: `${entry.criterion} (${opinion.reviewer})` }))),
+    testCaseVerdicts: mergeTestCaseVerdicts(opinions),
+    suggestions: Array.from(new Set(opinions.flatMap(opinion => opinion.suggestions))),
+    opinions,
+    disagreements,
+    policy,
+    feedback: `${header.join('\n')}\n\n${sections.join('\n\n')}`
+  };
+};
@@ -0,0 +1,146 @@
+import type { QuestionItem, RubricGrade, RubricItemResult } from '@/types';
+import { COMMON_SYNONYMS, RUBRIC_WORDS, STOPWORDS, TAG_SYNONYMS } from './rubricSynonyms';
+
+// Scores at or above PASS_SCORE pass and below FAIL_SCORE fail without asking an LLM
+export const RUBRIC_PASS_SCORE = 75;
+export const RUBRIC_FAIL_SCORE = 35;
+
+// Share of a criterion's terms the answer must contain for the criterion to count as met
+const MET_COVERAGE = 0.6;
+const PARTIAL_COVERAGE = 0.3;
+
+// The reference answer contributes its most distinctive terms only
+const MAX_ANSWER_TERMS = 12;
+
+const SUFFIXES = ['ational', 'ization', 'fulness', 'iveness', 'ations', 'ation', 'ments', 'ment', 'ings', 'ing', 'ies', 'ied', 'ers', 'er', 'ed', 'ly', 'es', 's'];
+
+// Light suffix stripping; both sides go through it, so it only has to be consistent
+export const stem = (word: string): string => {
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) {
+    return word;
+  }
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      const base = word.slice(0, -suffix.length);
+      return suffix === 'ies' || suffix === 'ied' ? `${base}y` : base;
+    }
+  }
+  return word;
+};
+
+const words = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z][a-z0-9.]*[a-z0-9]|[a-z]/g) || [])
+    .map(word => word.replace(/\.+$/, ''))
+    .filter(word => !STOPWORDS.has(word));
+
+// Distinct stemmed content terms, keeping the original word for display
+const terms = (text: string, exclude: Set<string> = new Set()): Map<string, string> => {
+  const result = new Map<string, string>();
+  words(text).forEach(word => {
+    if (!exclude.has(word) && !result.has(stem(word))) {
+      result.set(stem(word), word);
+    }
+  });
+  return result;
+};
+
+// Distinct stemmed content terms of a text
+export const stemmedTerms = (text: string): Set<string> => new Set(terms(text).keys());
+
+// Map every stem to the stems it is interchangeable with
+const buildSynonyms = (tags: string[]): Map<string, Set<string>> => {
+  const groups = [...COMMON_SYNONYMS];
+  tags.forEach(tag => groups.push(...(TAG_SYNONYMS[tag.toLowerCase()] || [])));
+
+  const synonyms = new Map<string, Set<string>>();
+  groups.forEach(group => {
+    const stems = group.map(stem);
+    stems.forEach(term => {
+      const known = synonyms.get(term) || new Set<string>();
+      stems.forEach(other => known.add(other));
+      synonyms.set(term, known);
+    });
+  });
+  return synonyms;
+};
+
+const scoreItem = (
+  criterion: string,
+  kind: RubricItemResult['kind'],
+  itemTerms: Map<string, string>,
+  answerStems: Set<string>,
+  synonyms: Map<string, Set<string>>
+): RubricItemResult => {
+  const matchedTerms: string[] = [];
+  const missingTerms: string[] = [];
+
+  itemTerms.forEach((word, term) => {
+    const alternatives = synonyms.get(term) || new Set([term]);
+    const found = answerStems.has(term) || Array.from(alternatives).some(alternative => answerStems.has(alternative));
+    (found ? matchedTerms : missingTerms).push(word);
+  });
+
+  if (itemTerms.size === 0) {
+    return { criterion, kind, weight: 1, coverage: 0, status: 'unchecked', matchedTerms, missingTerms };
+  }
+
+  const coverage = matchedTerms.length / itemTerms.size;
+  const status = coverage >= MET_COVERAGE ? 'met' : coverage >= PARTIAL_COVERAGE ? 'partial' : 'missed';
+  return { criterion, kind, weight: 1, coverage, status, matchedTerms, missingTerms };
+};
+
+// Reference answer terms that appear most often, so filler words don't dominate
+const answerKeyTerms = (answer: string): Map<string, string> => {
+  const counts = new Map<string, number>();
+  words(answer).forEach(word => counts.set(stem(word), (counts.get(stem(word)) || 0) + 1));
+  const all = terms(answer);
+  const top = Array.from(all.keys())
+    .sort((a, b) => (counts.get(b) || 0) - (counts.get(a) || 0))
+    .slice(0, MAX_ANSWER_TERMS);
+  return new Map(top.map(term => [term, all.get(term) as string]));
+};
+
+// Grade a free-text answer against the question's key concepts, evaluation criteria
+// and answer key. Met criteria earn full credit, partial ones credit by coverage.
+export const gradeAnswer = (question: QuestionItem, userAnswer: string): RubricGrade => {
+  const synonyms = buildSynonyms(question.tags || []);
+  const answerStems = new Set(terms(userAnswer).keys());
+
+  const items: RubricItemResult[] = [
+    ...(question.keyConcepts || []).map(concept =>
+      scoreItem(concept, 'concept', terms(concept), answerStems, synonyms)),
+    ...(question.evaluationCriteria || []).map(criterion =>
+      scoreItem(criterion, 'criterion', terms(criterion, RUBRIC_WORDS), answerStems, synonyms))
+  ];
+
+  // Flashcards often have no rubric, only the answer on the back of the card
+  if (question.answer && question.type !== 'mcq') {
+    items.push(scoreItem('Reference answer', 'answer', answerKeyTerms(question.answer), answerStems, synonyms));
+  }
+
+  const checkable = items.filter(item => item.status !== 'unchecked');
+  const totalWeight = checkable.reduce((sum, item) => sum + item.weight, 0);
+
+  if (answerStems.size === 0 || totalWeight === 0) {
+    // Empty answers fail; answers with nothing to match against go to a reviewer
+    return { score: 0, verdict: answerStems.size === 0 ? 'fail' : 'borderline', items };
+  }
+
+  const earned = checkable.reduce((sum, item) =>
+    sum + item.weight * (item.status === 'met' ? 1 : item.status === 'partial' ? item.coverage : 0), 0);
+  const score = Math.round((earned / totalWeight) * 100);
+  const verdict = score >= RUBRIC_PASS_SCORE ? 'pass' : score < RUBRIC_FAIL_SCORE ? 'fail' : 'borderline';
+
+  return { score, verdict, items };
+};
+
+// Plain text summary shown as feedback and passed along with borderline answers
+export const formatRubricFeedback = (grade: RubricGrade): string => {
+  const lines = grade.items.map(item => {
+    const detail = item.status === 'unchecked'
+      ? 'needs a reviewer'
+      : item.missingTerms.length > 0 ? `missing: ${item.missingTerms.join(', ')}` : 'covered';
+    return `- [${item.status}] ${item.criterion} (${detail})`;
+  });
+  return `Rubric score: ${grade.score}/100\n${lines.join('\n')}`;
+};
@@ -0,0 +1,109 @@
+// Vocabulary for the local rubric grader in rubricGrader.ts
+
+// Words that carry no meaning on their own
+export const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'it', 'its', 'this', 'that', 'these', 'those',
+  'can', 'could', 'should', 'would', 'will', 'may', 'might', 'must', 'do', 'does', 'did', 'has', 'have',
+  'had', 'not', 'no', 'so', 'if', 'then', 'than', 'when', 'which', 'what', 'who', 'how', 'why', 'where',
+  'each', 'other', 'some', 'such', 'into', 'about', 'between', 'your', 'you', 'we', 'they', 'their',
+  'them', 'there', 'also', 'only', 'very', 'more', 'most', 'all', 'any', 'both', 'e.g', 'i.e', 'etc'
+]);
+
+// Words evaluation criteria use to describe the grading itself ("Clear explanation of ...").
+// They say how to judge an answer, not what it has to mention.
+export const RUBRIC_WORDS = new Set([
+  'understanding', 'understand', 'ability', 'able', 'correct', 'correctly', 'correctness', 'knowledge',
+  'recall', 'direct', 'accurate', 'accurately', 'accuracy', 'explanation', 'explain', 'explains',
+  'clarity', 'clear', 'clearly', 'identification', 'identify', 'identifies', 'practical', 'core', 'basic',
+  'comprehensive', 'demonstrates', 'demonstrate', 'demonstration', 'application', 'apply', 'specific',
+  'depth', 'deep', 'completeness', 'complete', 'articulate', 'definition', 'define', 'fundamental',
+  'fundamentals', 'principles', 'comparison', 'compare', 'differentiate', 'distinguish', 'best',
+  'practice', 'practices', 'proper', 'properly', 'appropriate', 'adherence', 'regarding', 'awareness',
+  'concept', 'concepts', 'conceptual', 'similar', 'thorough', 'insight', 'good', 'quality', 'relevant'
+]);
+
+// Equivalent terms that always apply
+export const COMMON_SYNONYMS: string[][] = [
+  ['function', 'method', 'callback', 'fn'],
+  ['parameter', 'argument', 'param', 'arg'],
+  ['error', 'exception'],
+  ['object', 'instance'],
+  ['efficient', 'performant', 'fast', 'quick'],
+  ['expensive', 'costly', 'slow'],
+  ['remove', 'delete', 'clear'],
+  ['create', 'instantiate', 'construct'],
+  ['update', 'change', 'modify']
+];
+
+// Equivalent terms that apply when the question carries the tag (matched case-insensitively)
+export const TAG_SYNONYMS: Record<string, string[][]> = {
+  'javascript': [
+    ['closure', 'closures', 'enclose'],
+    ['scope', 'lexical', 'environment'],
+    ['hoisting', 'hoist', 'hoisted'],
+    ['prototype', 'inheritance', 'proto'],
+    ['context', 'this', 'binding']
+  ],
+  'asynchronous': [
+    ['promise', 'thenable', 'async', 'await'],
+    ['callback', 'handler'],
+    ['loop', 'queue', 'microtask', 'macrotask', 'task']
+  ],
+  'execution context': [
+    ['stack', 'callstack'],
+    ['global', 'window', 'globalthis']
+  ],
+  'react': [
+    ['component', 'element', 'jsx'],
+    ['render', 'rerender', 'paint', 'reconcile', 'reconciliation'],
+    ['props', 'properties', 'prop'],
+    ['virtual', 'vdom', 'fiber']
+  ],
+  'hooks': [
+    ['hook', 'usestate', 'useeffect', 'usereducer', 'useref', 'usememo', 'usecallback', 'usecontext'],
+    ['effect', 'side', 'useeffect'],
+    ['dependency', 'dependencies', 'deps', 'array'],
+    ['cleanup', 'unsubscribe', 'teardown', 'unmount']
+  ],
+  'state management': [
+    ['state', 'store'],
+    ['action', 'dispatch', 'event'],
+    ['reducer', 'pure']
+  ],
+  'redux': [
+    ['store', 'state'],
+    ['action', 'dispatch'],
+    ['reducer', 'pure'],
+    ['middleware', 'thunk', 'saga']
+  ],
+  'immutability': [
+    ['immutable', 'immutability', 'copy', 'spread'],
+    ['mutate', 'mutation', 'mutable', 'modify']
+  ],
+  'performance': [
+    ['memoize', 'memoization', 'memo', 'cache', 'usememo', 'usecallback'],
+    ['rerender', 'render', 'update'],
+    ['lazy', 'split', 'splitting', 'dynamic']
+  ],
+  'forms': [
+    ['controlled', 'value', 'onchange'],
+    ['uncontrolled', 'ref', 'defaultvalue'],
+    ['validation', 'validate', 'validator']
+  ],
+  'dom': [
+    ['node', 'element'],
+    ['event', 'listener', 'handler'],
+    ['bubble', 'bubbling', 'propagation', 'capture', 'capturing']
+  ],
+  'css': [
+    ['specificity', 'cascade', 'precedence'],
+    ['flexbox', 'flex'],
+    ['grid', 'layout']
+  ],
+  'lifecycle': [
+    ['mount', 'componentdidmount', 'useeffect'],
+    ['unmount', 'componentwillunmount', 'cleanup'],
+    ['update', 'componentdidupdate']
+  ]
+};
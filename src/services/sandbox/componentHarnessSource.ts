@@ -0,0 +1,238 @@
+// React builds loaded inside the sandbox, served by pages/api/sandbox. The iframe
+// runs on an opaque origin, so it can't share the app's bundle and loads its own copy.
+const REACT_PATH = '/api/sandbox/react';
+const REACT_DOM_PATH = '/api/sandbox/react-dom';
+
+// Harness that renders a submitted component, replays scripted interactions
+// and reports per-step results back to the parent window via postMessage.
+const HARNESS_SCRIPT = `
+var logs = [];
+var uncaught = null;
+
+var format = function (value) {
+  if (typeof value === 'string') return value;
+  try { return JSON.stringify(value); } catch (e) { return String(value); }
+};
+
+['log', 'info', 'warn', 'error'].forEach(function (level) {
+  console[level] = function () {
+    logs.push(Array.prototype.map.call(arguments, format).join(' '));
+  };
+});
+
+window.addEventListener('error', function (event) {
+  uncaught = event.error || new Error(event.message);
+});
+
+var tick = function (ms) {
+  return new Promise(function (resolve) { setTimeout(resolve, ms || 0); });
+};
+
+var normalize = function (text) {
+  return (text || '').replace(/\\s+/g, ' ').trim();
+};
+
+var fail = function (message) {
+  var error = new Error(message);
+  error.name = 'AssertionError';
+  throw error;
+};
+
+var IMPLICIT_ROLES = {
+  button: 'button', h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+  ul: 'list', ol: 'list', li: 'listitem', textarea: 'textbox', select: 'combobox', img: 'img', nav: 'navigation', form: 'form'
+};
+
+var roleOf = function (el) {
+  if (el.getAttribute('role')) return el.getAttribute('role');
+  var tag = el.tagName.toLowerCase();
+  if (tag === 'input') {
+    var type = (el.getAttribute('type') || 'text').toLowerCase();
+    if (type === 'checkbox' || type === 'radio') return type;
+    if (type === 'button' || type === 'submit' || type === 'reset') return 'button';
+    return 'textbox';
+  }
+  if (tag === 'a') return el.hasAttribute('href') ? 'link' : null;
+  return IMPLICIT_ROLES[tag] || null;
+};
+
+var accessibleName = function (el) {
+  return normalize(el.getAttribute('aria-label') || el.textContent || el.getAttribute('value') || el.getAttribute('alt'));
+};
+
+var queryAll = function (query) {
+  var root = document.getElementById('root');
+  var all = Array.prototype.slice.call(root.querySelectorAll('*'));
+  var value = normalize(query.value);
+  switch (query.by) {
+    case 'text':
+      // Deepest elements whose text matches, like Testing Library's getByText
+      return all.filter(function (el) {
+        return normalize(el.textContent) === value && !Array.prototype.some.call(el.children, function (child) {
+          return normalize(child.textContent) === value;
+        });
+      });
+    case 'role':
+      return all.filter(function (el) {
+        return roleOf(el) === query.value && (!query.name || accessibleName(el) === normalize(query.name));
+      });
+    case 'label':
+      var controls = [];
+      all.forEach(function (el) {
+        if (el.getAttribute('aria-label') === query.value) controls.push(el);
+        if (el.tagName === 'LABEL' && normalize(el.textContent) === value) {
+          var control = el.htmlFor ? document.getElementById(el.htmlFor) : el.querySelector('input, textarea, select');
+          if (control) controls.push(control);
+        }
+      });
+      return controls;
+    case 'placeholder':
+      return all.filter(function (el) { return el.getAttribute('placeholder') === query.value; });
+    case 'testId':
+      return all.filter(function (el) { return el.getAttribute('data-testid') === query.value; });
+    default:
+      return Array.prototype.slice.call(root.querySelectorAll(query.value));
+  }
+};
+
+var describeQuery = function (query) {
+  return query.by + ' "' + query.value + '"' + (query.name ? ' named "' + query.name + '"' : '');
+};
+
+var getOne = function (query) {
+  var found = queryAll(query);
+  if (found.length === 0) fail('Unable to find element by ' + describeQuery(query));
+  return found[0];
+};
+
+var typeInto = function (el, text) {
+  var proto = el.tagName === 'TEXTAREA' ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  var setValue = Object.getOwnPropertyDescriptor(proto, 'value').set;
+  // Type one character at a time so controlled inputs see every keystroke
+  text.split('').forEach(function (char) {
+    setValue.call(el, el.value + char);
+    el.dispatchEvent(new Event('input', { bubbles: true }));
+  });
+  el.dispatchEvent(new Event('change', { bubbles: true }));
+};
+
+var HOOKS = ['useState', 'useEffect', 'useReducer', 'useRef', 'useMemo', 'useCallback', 'useContext', 'useLayoutEffect', 'createContext', 'Fragment'];
+
+var loadComponent = function (code, name) {
+  var module = { exports: {} };
+  var require = function (id) {
+    if (id === 'react') return React;
+    if (id === 'react-dom' || id === 'react-dom/client') return ReactDOM;
+    throw new Error('Module "' + id + '" is not available in the sandbox');
+  };
+  var lookup = name ? '\\nreturn typeof ' + name + ' !== "undefined" ? ' + name + ' : undefined;' : '';
+  // The submission runs in its own function scope so it may redeclare hook names
+  var factory = Function.apply(null, ['React', 'ReactDOM', 'require', 'module', 'exports']
+    .concat(HOOKS, ['return (function () {\\n' + code + lookup + '\\n})();']));
+  var named = factory.apply(null, [React, ReactDOM, require, module, module.exports]
+    .concat(HOOKS.map(function (hook) { return React[hook]; })));
+  var component = named || module.exports.default;
+  if (typeof component !== 'function' && !(component && component.$$typeof)) {
+    throw new Error(name ? 'Component "' + name + '" was not found in the submission' : 'No default export found in the submission');
+  }
+  return component;
+};
+
+var describeStep = function (step) {
+  if (step.description) return step.description;
+  switch (step.action) {
+    case 'render': return 'render component';
+    case 'click': return 'click ' + describeQuery(step.target);
+    case 'type': return 'type "' + step.text + '" into ' + describeQuery(step.target);
+    case 'wait': return 'wait ' + step.ms + 'ms';
+    default: return 'expect ' + describeQuery(step.target) + ' ' + step.assertion + (step.expected !== undefined ? ' "' + step.expected + '"' : '');
+  }
+};
+
+var assertStep = function (step) {
+  if (step.assertion === 'absent') {
+    if (queryAll(step.target).length > 0) fail('Expected no element by ' + describeQuery(step.target));
+    return;
+  }
+  var el = getOne(step.target);
+  if (step.assertion !== 'exists' && step.expected === undefined) {
+    fail('Step has no expected ' + step.assertion);
+  }
+  if (step.assertion === 'text' && normalize(el.textContent).indexOf(normalize(step.expected)) === -1) {
+    fail('Expected text "' + step.expected + '" but found "' + normalize(el.textContent) + '"');
+  }
+  if (step.assertion === 'value' && el.value !== step.expected) {
+    fail('Expected value "' + step.expected + '" but found "' + el.value + '"');
+  }
+  if (step.assertion === 'attribute' && el.getAttribute(step.attribute) !== step.expected) {
+    fail('Expected ' + step.attribute + '="' + step.expected + '" but found "' + el.getAttribute(step.attribute) + '"');
+  }
+};
+
+var runScenario = async function (code, scenario) {
+  var results = [];
+  var root = ReactDOM.createRoot(document.getElementById('root'));
+  var Component = loadComponent(code, scenario.component);
+  var steps = scenario.steps[0] && scenario.steps[0].action === 'render' ? scenario.steps : [{ action: 'render' }].concat(scenario.steps);
+  var failed = false;
+
+  for (var i = 0; i < steps.length; i++) {
+    var step = steps[i];
+    if (failed) {
+      results.push({ description: describeStep(step), status: 'skipped', message: 'Skipped after a previous step failed' });
+      continue;
+    }
+    try {
+      if (step.action === 'render') {
+        ReactDOM.flushSync(function () { root.render(React.createElement(Component, step.props || {})); });
+      } else if (step.action === 'click') {
+        getOne(step.target).click();
+      } else if (step.action === 'type') {
+        typeInto(getOne(step.target), step.text);
+      } else if (step.action === 'wait') {
+        await tick(step.ms);
+      } else {
+        assertStep(step);
+      }
+      await tick();
+      if (uncaught) throw uncaught;
+      results.push({ description: describeStep(step), status: 'pass' });
+    } catch (error) {
+      failed = true;
+      uncaught = null;
+      results.push({
+        description: describeStep(step),
+        status: error && error.name === 'AssertionError' ? 'fail' : 'error',
+        message: error && error.message ? error.message : String(error)
+      });
+    }
+  }
+  return results;
+};
+
+window.addEventListener('message', function (event) {
+  var data = event.data || {};
+  if (data.type !== 'run' || data.runId !== RUN_ID) return;
+  runScenario(data.code, data.scenario)
+    .then(function (steps) {
+      parent.postMessage({ runId: RUN_ID, type: 'result', steps: steps, logs: logs }, '*');
+    })
+    .catch(function (error) {
+      parent.postMessage({ runId: RUN_ID, type: 'error', message: error && error.message ? error.message : String(error), logs: logs }, '*');
+    });
+});
+
+parent.postMessage({ runId: RUN_ID, type: 'ready' }, '*');
+`;
+
+// Build the srcdoc for a single sandboxed run
+export const buildComponentHarness = (runId: string, appOrigin: string): string => `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8" /></head>
+  <body>
+    <div id="root"></div>
+    <script crossorigin src="${appOrigin}${REACT_PATH}"></script>
+    <script crossorigin src="${appOrigin}${REACT_DOM_PATH}"></script>
+    <script>var RUN_ID = ${JSON.stringify(runId)};${HARNESS_SCRIPT}</script>
+  </body>
+</html>`;
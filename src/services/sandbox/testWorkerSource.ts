@@ -0,0 +1,201 @@
+// Source of the sandbox worker. It is kept as a plain string so it can be
+// loaded through a Blob URL without any bundler configuration. The worker has
+// no access to the DOM, the page state or the user's session.
+export const TEST_WORKER_SOURCE = `
+var logs = [];
+
+var format = function (value) {
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value);
+  } catch (e) {
+    return String(value);
+  }
+};
+
+['log', 'info', 'warn', 'error'].forEach(function (level) {
+  console[level] = function () {
+    logs.push(Array.prototype.map.call(arguments, format).join(' '));
+  };
+});
+
+var isEqual = function (a, b) {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') {
+    return a !== a && b !== b;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  var keysA = Object.keys(a);
+  var keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(function (key) { return isEqual(a[key], b[key]); });
+};
+
+var fail = function (message) {
+  var error = new Error(message);
+  error.name = 'AssertionError';
+  throw error;
+};
+
+var expect = function (actual) {
+  var matchers = function (negate) {
+    var check = function (passed, message) {
+      if (passed === negate) fail((negate ? 'Expected not: ' : '') + message);
+    };
+    return {
+      toBe: function (expected) {
+        check(Object.is(actual, expected), 'expected ' + format(actual) + ' to be ' + format(expected));
+      },
+      toEqual: function (expected) {
+        check(isEqual(actual, expected), 'expected ' + format(actual) + ' to equal ' + format(expected));
+      },
+      toBeTruthy: function () {
+        check(!!actual, 'expected ' + format(actual) + ' to be truthy');
+      },
+      toBeFalsy: function () {
+        check(!actual, 'expected ' + format(actual) + ' to be falsy');
+      },
+      toContain: function (expected) {
+        check(actual != null && actual.indexOf(expected) !== -1, 'expected ' + format(actual) + ' to contain ' + format(expected));
+      },
+      toThrow: function () {
+        var threw = false;
+        try { actual(); } catch (e) { threw = true; }
+        check(threw, 'expected function to throw');
+      }
+    };
+  };
+  var result = matchers(false);
+  result.not = matchers(true);
+  return result;
+};
+
+var assert = function (condition, message) {
+  if (!condition) fail(message || 'Assertion failed');
+};
+
+var compile = function (body) {
+  return new Function('expect', 'assert', body);
+};
+
+var normalizeHtml = function (value) {
+  var html = value && typeof value === 'object' && 'outerHTML' in value ? value.outerHTML : String(value);
+  return html.replace(/>\\s+</g, '><').replace(/\\s+/g, ' ').trim();
+};
+
+var compare = function (testCase, actual, expected) {
+  switch (testCase.comparator) {
+    case 'approx':
+      var tolerance = testCase.tolerance != null ? testCase.tolerance : 1e-6;
+      return typeof actual === 'number' && Math.abs(actual - expected) <= tolerance;
+    case 'strict-equal':
+      return Object.is(actual, expected);
+    case 'dom-snapshot':
+      return normalizeHtml(actual) === normalizeHtml(expected);
+    default:
+      return isEqual(actual, expected);
+  }
+};
+
+// Structured test cases: evaluate input and expected separately, then compare
+var runStructured = function (code, testCase, done) {
+  var thunks;
+  try {
+    thunks = compile(
+      code + '\\n;return [function () { return (' + testCase.input + '\\n); }, ' +
+      'function () { return (' + (testCase.expected || 'undefined') + '\\n); }];'
+    );
+  } catch (syntaxError) {
+    done('error', 'Test case is not valid code: ' + syntaxError.message);
+    return;
+  }
+
+  Promise.resolve()
+    .then(function () { return thunks(expect, assert); })
+    .then(function (fns) {
+      if (testCase.comparator === 'throws') {
+        return Promise.resolve()
+          .then(fns[0])
+          .then(function () {
+            done('fail', 'Expected an error to be thrown');
+          }, function (error) {
+            var expectedMessage = fns[1]();
+            var message = error && error.message ? error.message : String(error);
+            if (expectedMessage !== undefined && message.indexOf(expectedMessage) === -1) {
+              done('fail', 'Expected error containing ' + format(expectedMessage) + ' but got ' + format(message));
+            } else {
+              done('pass');
+            }
+          });
+      }
+
+      return Promise.resolve()
+        .then(fns[0])
+        .then(function (actual) {
+          var expected = fns[1]();
+          if (compare(testCase, actual, expected)) {
+            done('pass');
+          } else {
+            done('fail', 'Expected ' + format(expected) + ' but received ' + format(actual));
+          }
+        });
+    })
+    .catch(function (error) {
+      var message = error && error.message ? error.message : String(error);
+      done(error && error.name === 'AssertionError' ? 'fail' : 'error', message);
+    });
+};
+
+// Legacy string test cases: run as an expression or statements
+var runText = function (code, testCase, done) {
+  var runner;
+  try {
+    // Prefer treating the test case as an expression so "sum(1, 2) === 3" works
+    runner = compile(code + '\\n;return (' + testCase + '\\n);');
+  } catch (expressionError) {
+    try {
+      runner = compile(code + '\\n;' + testCase);
+    } catch (statementError) {
+      done('skipped', 'Test case is not executable code');
+      return;
+    }
+  }
+
+  Promise.resolve()
+    .then(function () { return runner(expect, assert); })
+    .then(function (value) {
+      if (value === false) {
+        done('fail', 'Expression evaluated to false');
+      } else {
+        done('pass');
+      }
+    })
+    .catch(function (error) {
+      var message = error && error.message ? error.message : String(error);
+      done(error && error.name === 'AssertionError' ? 'fail' : 'error', message);
+    });
+};
+
+self.onmessage = function (event) {
+  var code = event.data.code;
+  var testCase = event.data.testCase;
+  var started = Date.now();
+
+  var done = function (status, message) {
+    self.postMessage({ status: status, message: message, logs: logs, durationMs: Date.now() - started });
+  };
+
+  try {
+    compile(code);
+  } catch (syntaxError) {
+    done('error', 'Submission does not compile: ' + syntaxError.message);
+    return;
+  }
+
+  if (typeof testCase === 'string') {
+    runText(code, testCase, done);
+  } else {
+    runStructured(code, testCase, done);
+  }
+};
+`;
@@ -0,0 +1,164 @@
+// Source of the code-trace worker. It runs a question's snippet, records console
+// output and uncaught errors in order, and waits for pending timers and
+// promises to settle before reporting, so event loop questions trace correctly.
+export const TRACE_WORKER_SOURCE = `
+var output = [];
+var pendingTimers = {};
+var pendingCount = 0;
+var nativeSetTimeout = self.setTimeout.bind(self);
+var nativeClearTimeout = self.clearTimeout.bind(self);
+var nativeSetInterval = self.setInterval.bind(self);
+var nativeClearInterval = self.clearInterval.bind(self);
+
+// Close to what browser consoles print, so learners can predict it
+var inspect = function (value, depth, seen) {
+  if (typeof value === 'string') return depth === 0 ? value : "'" + value + "'";
+  if (typeof value === 'function') return '[Function: ' + (value.name || 'anonymous') + ']';
+  if (typeof value === 'bigint') return value + 'n';
+  if (typeof value === 'symbol') return value.toString();
+  if (value === null || typeof value !== 'object') return Object.is(value, -0) ? '-0' : String(value);
+  if (seen.indexOf(value) !== -1) return '[Circular]';
+  if (depth > 3) return Array.isArray(value) ? '[Array]' : '[Object]';
+
+  var nextSeen = seen.concat([value]);
+  var next = function (item) { return inspect(item, depth + 1, nextSeen); };
+
+  if (Array.isArray(value)) return '[' + value.map(next).join(', ') + ']';
+  if (value instanceof Error) return value.name + ': ' + value.message;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Promise) return 'Promise {}';
+  if (value instanceof Map) {
+    return 'Map(' + value.size + ') {' + Array.from(value).map(function (entry) {
+      return next(entry[0]) + ' => ' + next(entry[1]);
+    }).join(', ') + '}';
+  }
+  if (value instanceof Set) return 'Set(' + value.size + ') {' + Array.from(value).map(next).join(', ') + '}';
+
+  var name = value.constructor && value.constructor !== Object && value.constructor.name;
+  var body = '{' + Object.keys(value).map(function (key) { return key + ': ' + next(value[key]); }).join(', ') + '}';
+  return name ? name + ' ' + body : body;
+};
+
+['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+  console[level] = function () {
+    output.push(Array.prototype.map.call(arguments, function (arg) { return inspect(arg, 0, []); }).join(' '));
+  };
+});
+
+var describeError = function (error) {
+  if (error && error.name) return error.name + ': ' + error.message;
+  return inspect(error, 1, []);
+};
+
+self.addEventListener('error', function (event) {
+  event.preventDefault();
+  output.push('Uncaught ' + describeError(event.error || { name: 'Error', message: event.message }));
+});
+
+self.addEventListener('unhandledrejection', function (event) {
+  event.preventDefault();
+  output.push('Uncaught (in promise) ' + describeError(event.reason));
+});
+
+// Track timers so the run only ends once the snippet has gone quiet
+var track = function (id) {
+  pendingTimers[id] = true;
+  pendingCount++;
+  return id;
+};
+
+var untrack = function (id) {
+  if (pendingTimers[id]) {
+    delete pendingTimers[id];
+    pendingCount--;
+  }
+};
+
+self.setTimeout = function (callback, ms) {
+  var args = Array.prototype.slice.call(arguments, 2);
+  var id = nativeSetTimeout(function () {
+    untrack(id);
+    if (typeof callback === 'function') callback.apply(null, args);
+  }, ms);
+  return track(id);
+};
+
+self.clearTimeout = function (id) {
+  untrack(id);
+  nativeClearTimeout(id);
+};
+
+self.setInterval = function (callback, ms) {
+  var args = Array.prototype.slice.call(arguments, 2);
+  return track(nativeSetInterval(function () {
+    if (typeof callback === 'function') callback.apply(null, args);
+  }, ms));
+};
+
+self.clearInterval = function (id) {
+  untrack(id);
+  nativeClearInterval(id);
+};
+
+self.setImmediate = function (callback) {
+  return self.setTimeout(callback, 0);
+};
+
+self.queueMicrotask = self.queueMicrotask || function (callback) {
+  Promise.resolve().then(callback);
+};
+
+self.onmessage = function (event) {
+  var code = event.data.code;
+  var settleMs = event.data.settleMs;
+  var started = Date.now();
+  var value;
+
+  var finish = function (truncated) {
+    // Without console output the answer is the completion value, as a REPL shows it
+    var source = output.length > 0 ? 'console' : 'value';
+    if (source === 'value') output.push(inspect(value, 1, []));
+    self.postMessage({ output: output, source: source, truncated: truncated, durationMs: Date.now() - started });
+  };
+
+  // Promise jobs always run before the next macrotask, so a timer-based idle
+  // check sees everything the previous tick scheduled
+  var waitForIdle = function () {
+    nativeSetTimeout(function () {
+      if (pendingCount === 0) {
+        finish(false);
+      } else if (Date.now() - started > settleMs) {
+        finish(true);
+      } else {
+        waitForIdle();
+      }
+    }, 10);
+  };
+
+  try {
+    new Function(code);
+  } catch (syntaxError) {
+    self.postMessage({ output: [], source: 'none', truncated: false, error: 'Snippet does not compile: ' + syntaxError.message, durationMs: 0 });
+    return;
+  }
+
+  try {
+    // Indirect eval runs in global scope and returns the completion value
+    value = (0, eval)(code);
+  } catch (error) {
+    output.push('Uncaught ' + describeError(error));
+  }
+
+  // A snippet ending in a promise reports what it settles to
+  if (value && typeof value.then === 'function') {
+    Promise.resolve(value).then(function (resolved) {
+      value = resolved;
+    }, function (reason) {
+      value = undefined;
+      output.push('Uncaught (in promise) ' + describeError(reason));
+    });
+  }
+
+  waitForIdle();
+};
+`;
@@ -0,0 +1,242 @@
+import { AIReviewRequest, AIReviewResponse, QuestionItem, ReviewPolicy, ReviewStreamEvent, TaskItem } from '@/types';
+import { describeTestCase } from '../testRunnerService';
+import { 
+  REVIEW_JSON_SCHEMA, 
+  buildRepairPrompt, 
+  parseReviewJson, 
+  toReviewResponse,
+  StructuredReview 
+} from '../aiReviewParser';
+import { LLMProvider, resolveProvider } from '../llm';
+import { DEFAULT_REVIEW_POLICY, REVIEW_POLICIES, reconcileReviews, toOpinion } from '../reviewConsensus';
+
+// How many times a reviewer may be asked to fix an invalid JSON response
+const MAX_REVIEW_ATTEMPTS = 3;
+
+// Providers behind the reviewer setting. LLM_REVIEW_PROVIDER overrides them,
+// e.g. "local" to run offline.
+export const REVIEWER_PROVIDERS: Record<'deepseek' | 'gemini', string> = {
+  deepseek: 'openrouter',
+  gemini: 'gemini'
+};
+
+const providerLabel = (provider: LLMProvider): string => `${provider.name} (${provider.model})`;
+
+// Optional hooks for streaming a review to the client as it is generated
+export interface ReviewStreamHooks {
+  signal?: AbortSignal;
+  onEvent?: (event: ReviewStreamEvent) => void;
+}
+
+interface Reviewer {
+  id: string;
+  provider: LLMProvider;
+}
+
+// Stream the response when the caller listens for deltas and the provider supports it
+const generateReviewText = async (
+  prompt: string,
+  reviewer: Reviewer,
+  hooks: ReviewStreamHooks
+): Promise<string> => {
+  const options = { json: true, signal: hooks.signal };
+  
+  if (!hooks.onEvent || !reviewer.provider.stream) {
+    return reviewer.provider.generate(prompt, options);
+  }
+  
+  let text = '';
+  for await (const chunk of reviewer.provider.stream(prompt, options)) {
+    text += chunk;
+    hooks.onEvent({ type: 'delta', reviewer: reviewer.id, text: chunk });
+  }
+  return text;
+};
+
+// Ask a reviewer for a structured review, feeding validation errors back until it complies
+const requestStructuredReview = async (
+  prompt: string,
+  reviewer: Reviewer,
+  hooks: ReviewStreamHooks = {}
+): Promise<StructuredReview> => {
+  const { provider } = reviewer;
+  let currentPrompt = prompt;
+  let lastErrors: string[] = [];
+  
+  for (let attempt = 1; attempt <= MAX_REVIEW_ATTEMPTS; attempt++) {
+    if (attempt > 1) {
+      hooks.onEvent?.({ type: 'retry', reviewer: reviewer.id, attempt });
+    }
+    
+    const response = await generateReviewText(currentPrompt, reviewer, hooks);
+    const { review, errors } = parseReviewJson(response);
+    
+    if (review) {
+      return review;
+    }
+    
+    console.warn(`Invalid review JSON from ${providerLabel(provider)} on attempt ${attempt}:`, errors);
+    lastErrors = errors;
+    currentPrompt = buildRepairPrompt(prompt, response, errors);
+  }
+  
+  throw new Error(`AI reviewer returned an invalid response after ${MAX_REVIEW_ATTEMPTS} attempts: ${lastErrors.join('; ')}`);
+};
+
+// Build the review prompt with the JSON contract
+const buildReviewPrompt = (request: AIReviewRequest): string => {
+  const testCases = request.testCases && request.testCases.length > 0
+    ? request.testCases.map((testCase, index) => `${index + 1}. ${describeTestCase(testCase)}`).join('\n')
+    : '';
+  const rubric = request.rubric && request.rubric.length > 0
+    ? request.rubric.map(item => `- ${item.criterion} [local check: ${item.status}${item.missingTerms?.length ? `, missing terms: ${item.missingTerms.join(', ')}` : ''}]`).join('\n')
+    : '';
+  
+  return `
+      You are an expert code reviewer for frontend interview preparation.
+      
+      Please review the following ${request.type === 'task' ? 'coding task solution' : 'answer to a question'}.
+      
+      ${request.type === 'task' ? 'TASK:' : 'QUESTION:'} ${request.prompt}
+      
+      ${request.type === 'task' ? 'USER CODE:' : 'USER ANSWER:'} 
+      \`\`\`
+      ${request.userCode}
+      \`\`\`
+      
+      ${testCases ? `TEST CASES TO VERIFY:\n${testCases}` : ''}
+      
+      ${request.referenceAnswer ? `REFERENCE ANSWER:\n${request.referenceAnswer}` : ''}
+      
+      ${rubric ? `RUBRIC (an automatic keyword check found this answer borderline; judge each criterion on meaning, not wording, and score each one in "rubric"):\n${rubric}` : ''}
+      
+      Evaluate correctness, code quality (efficiency, readability, best practices) and completeness.
+      ${testCases ? 'Give a verdict for every test case above, in the same order.' : 'Return an empty "testCases" array.'}
+      
+      Respond with ONLY a JSON object that matches this schema exactly:
+      ${REVIEW_JSON_SCHEMA}
+    `;
+};
+
+// Upper bound for the submitted code or answer
+const MAX_REVIEW_INPUT_LENGTH = 50000;
+
+const REVIEWERS = ['deepseek', 'gemini', 'both'] as const;
+
+export interface ReviewBody {
+  request: AIReviewRequest;
+  aiReviewer: typeof REVIEWERS[number];
+  policy: ReviewPolicy;
+}
+
+// Validate a review route body, returning an error message when it's unusable
+export const parseReviewBody = (body: any): ReviewBody | string => {
+  const { request, aiReviewer = 'gemini', policy = DEFAULT_REVIEW_POLICY } = body || {};
+  
+  const isRequest = !!request &&
+    (request.type === 'task' || request.type === 'question') &&
+    typeof request.prompt === 'string' &&
+    typeof request.userCode === 'string' &&
+    (request.testCases === undefined || Array.isArray(request.testCases)) &&
+    (request.rubric === undefined || Array.isArray(request.rubric)) &&
+    (request.referenceAnswer === undefined || typeof request.referenceAnswer === 'string');
+  
+  if (!isRequest || !REVIEWERS.includes(aiReviewer)) {
+    return 'Request body must include a review request and a valid aiReviewer';
+  }
+  
+  if (!REVIEW_POLICIES.includes(policy)) {
+    return `policy must be one of ${REVIEW_POLICIES.join(', ')}`;
+  }
+  
+  if (request.userCode.length + request.prompt.length > MAX_REVIEW_INPUT_LENGTH) {
+    return `Review input exceeds ${MAX_REVIEW_INPUT_LENGTH} characters`;
+  }
+  
+  return { request, aiReviewer, policy };
+};
+
+// Review a submission with the configured provider(s). Runs on the server only.
+export const reviewWithProviders = async (
+  request: AIReviewRequest, 
+  aiReviewer: 'deepseek' | 'gemini' | 'both',
+  hooks: ReviewStreamHooks = {},
+  policy: ReviewPolicy = DEFAULT_REVIEW_POLICY
+): Promise<AIReviewResponse> => {
+  try {
+    const prompt = buildReviewPrompt(request);
+    const slots = aiReviewer.toLowerCase() === 'both'
+      ? (['deepseek', 'gemini'] as const)
+      : [aiReviewer.toLowerCase() as 'deepseek' | 'gemini'];
+    const reviewers: Reviewer[] = slots.map(id => ({
+      id,
+      provider: resolveProvider('review', REVIEWER_PROVIDERS[id])
+    }));
+    
+    hooks.onEvent?.({
+      type: 'start',
+      reviewers: reviewers.map(reviewer => ({ id: reviewer.id, label: providerLabel(reviewer.provider) }))
+    });
+    
+    // Reviewers run in parallel and each returns its own structured verdict
+    const reviews = await Promise.all(reviewers.map(reviewer => requestStructuredReview(prompt, reviewer, hooks)));
+    const opinions = reviews.map((review, index) =>
+      toOpinion(reviewers[index].id, providerLabel(reviewers[index].provider), review)
+    );
+    
+    if (opinions.length === 1) {
+      return { ...toReviewResponse(reviews[0]), opinions };
+    }
+    
+    return reconcileReviews(opinions, policy);
+  } catch (error) {
+    console.error('Error reviewing code:', error);
+    throw error;
+  }
+};
+
+// Generate a single similar item for incorrect answers. Runs on the server only.
+export const generateSimilarWithProvider = async (
+  itemType: 'question' | 'task',
+  originalItem: QuestionItem | TaskItem,
+  aiModel: 'deepseek' | 'gemini' | 'both' = 'gemini'
+): Promise<QuestionItem | TaskItem> => {
+  try {
+    const prompt = `
+      You are an expert in creating frontend interview content.
+      
+      Please create a new ${itemType} similar to the one below but with different specifics:
+      
+      ORIGINAL ${itemType.toUpperCase()}:
+      ${JSON.stringify(originalItem, null, 2)}
+      
+      Create a new ${itemType} that:
+      1. Tests the same concepts but in a different way
+      2. Has the same difficulty level
+      3. Follows the exact same JSON structure as the original
+      4. Has unique content that doesn't duplicate the original
+      5. Includes a new unique ID prefixed with "generated_"
+      
+      Return ONLY the JSON object for the new ${itemType}, properly formatted.
+    `;
+    
+    // Use Gemini as default for generation tasks
+    const preferred = aiModel.toLowerCase() === 'deepseek' ? REVIEWER_PROVIDERS.deepseek : REVIEWER_PROVIDERS.gemini;
+    const response = await resolveProvider('generation', preferred).generate(prompt);
+    
+    // Extract JSON from response
+    const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/) || 
+                     response.match(/```\n([\s\S]*?)\n```/) ||
+                     response.match(/{[\s\S]*}/);
+                     
+    if (jsonMatch) {
+      const jsonStr = jsonMatch[1] || jsonMatch[0];
+      return JSON.parse(jsonStr);
+    }
+    
+    throw new Error('Failed to parse generated item');
+  } catch (error) {
+    console.error('Error generating similar item:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,77 @@
+import type { NextApiResponse } from 'next';
+
+export type QuotaBucket = 'review' | 'generate' | 'interview';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Provider calls each user may make per day, per server instance
+const DAILY_LIMITS: Record<QuotaBucket, number> = {
+  review: Number(process.env.AI_REVIEW_DAILY_QUOTA) || 100,
+  generate: Number(process.env.AI_GENERATE_DAILY_QUOTA) || 30,
+  interview: Number(process.env.AI_INTERVIEW_DAILY_QUOTA) || 100
+};
+
+interface QuotaWindow {
+  used: number;
+  resetAt: number;
+}
+
+export interface QuotaResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+const windows = new Map<string, QuotaWindow>();
+
+// Count `cost` provider calls against the user's daily window
+export const consumeQuota = (uid: string, bucket: QuotaBucket, cost: number = 1): QuotaResult => {
+  const key = `${bucket}:${uid}`;
+  const limit = DAILY_LIMITS[bucket];
+  const now = Date.now();
+
+  let window = windows.get(key);
+  if (!window || window.resetAt <= now) {
+    window = { used: 0, resetAt: now + DAY_MS };
+    windows.set(key, window);
+  }
+
+  if (window.used + cost > limit) {
+    return { allowed: false, limit, remaining: limit - window.used, resetAt: window.resetAt };
+  }
+
+  window.used += cost;
+  return { allowed: true, limit, remaining: limit - window.used, resetAt: window.resetAt };
+};
+
+// Give back calls that were charged but never answered by a provider, so
+// failed requests don't use up the day
+export const refundQuota = (uid: string, bucket: QuotaBucket, cost: number = 1): void => {
+  const window = windows.get(`${bucket}:${uid}`);
+  if (window && window.resetAt > Date.now()) {
+    window.used = Math.max(window.used - cost, 0);
+  }
+};
+
+// Consume quota and answer 429 when it's exhausted. Returns whether the call may proceed.
+export const enforceQuota = (
+  res: NextApiResponse,
+  uid: string,
+  bucket: QuotaBucket,
+  cost: number = 1
+): boolean => {
+  const quota = consumeQuota(uid, bucket, cost);
+
+  res.setHeader('X-RateLimit-Limit', String(quota.limit));
+  res.setHeader('X-RateLimit-Remaining', String(Math.max(quota.remaining, 0)));
+  res.setHeader('X-RateLimit-Reset', String(Math.ceil(quota.resetAt / 1000)));
+
+  if (!quota.allowed) {
+    res.status(429).json({
+      error: `Daily AI ${bucket} quota of ${quota.limit} reached. Try again after ${new Date(quota.resetAt).toISOString()}.`
+    });
+    return false;
+  }
+  return true;
+};
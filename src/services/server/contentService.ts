@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import type { ParsedContent, TestChunk } from '../../../index';
+import type { QuestionItem, TaskItem, Technology, TheoryItem } from '@/types';
+import { CurriculumPaths } from '@/curriculum/utils/curriculumPaths';
+import { getItemTechnology } from '@/services/dataService';
+
+type LearningPath = TheoryItem['learningPath'];
+
+export type ContentItemType = 'theory' | 'question' | 'task';
+
+export interface ContentFilters {
+  technologies: string[]; // Lower-cased; empty means all
+  learningPaths: string[];
+  types: ContentItemType[];
+}
+
+export interface ContentSnapshot {
+  source: 'curriculum' | 'database';
+  chunks: TestChunk[];
+  hash: string; // Of the file the chunks were read from
+}
+
+// Entry of curriculum/curriculum.json, see curriculum/aggregation/curriculumWriter
+interface CurriculumEntry {
+  id: string;
+  type: string;
+  moduleId?: string;
+  complexity?: number;
+  title: string;
+  description?: string;
+  content: any;
+}
+
+let cached: { path: string; mtimeMs: number; snapshot: ContentSnapshot } | null = null;
+
+// The curriculum writer doesn't keep a learning path, so it follows from complexity
+const learningPathFor = (complexity: number = 5): LearningPath =>
+  complexity <= 3 ? 'beginner' : complexity <= 5 ? 'intermediate' : complexity <= 7 ? 'advanced' : 'expert';
+
+const toTheoryItem = (entry: CurriculumEntry): TheoryItem => {
+  const content = entry.content || {};
+  const complexity = content.complexity ?? entry.complexity ?? 5;
+  return {
+    relatedQuestions: [],
+    relatedTasks: [],
+    tags: [],
+    prerequisites: [],
+    requiredFor: [],
+    irrelevant: false,
+    interviewRelevance: 5,
+    ...content,
+    id: content.id || entry.id,
+    title: content.title || entry.title,
+    content: content.content || entry.description || '',
+    examples: content.examples || [],
+    // "React, TypeScript" items are grouped under their first technology
+    technology: (content.technology || 'Other').split(',')[0].trim() as Technology,
+    complexity,
+    learningPath: content.learningPath || learningPathFor(complexity)
+  };
+};
+
+const withLearningPath = <T extends QuestionItem | TaskItem>(entry: CurriculumEntry): T => ({
+  ...entry.content,
+  id: entry.content.id || entry.id,
+  learningPath: entry.content.learningPath || learningPathFor(entry.content.complexity ?? entry.complexity)
+});
+
+// The store builds modules per chunk, so the whole curriculum goes into one chunk
+// to keep a technology and learning path in a single module
+const curriculumToChunks = (entries: CurriculumEntry[], processedDate: string): TestChunk[] => {
+  const parsedContent: ParsedContent = { theory: [], questions: [], tasks: [] };
+  entries.filter(entry => entry && entry.content).forEach(entry => {
+    if (entry.type === 'theory') parsedContent.theory.push(toTheoryItem(entry));
+    if (entry.type === 'question') parsedContent.questions.push(withLearningPath<QuestionItem>(entry));
+    if (entry.type === 'task') parsedContent.tasks.push(withLearningPath<TaskItem>(entry));
+  });
+
+  return [{
+    id: 'curriculum',
+    startLine: 0,
+    endLine: entries.length,
+    content: '',
+    processedDate,
+    completed: true,
+    parsedContent
+  }];
+};
+
+// Read curriculum.json, or database.json when the curriculum hasn't been
+// generated yet. Parsed once per file version.
+export const loadContentSnapshot = async (): Promise<ContentSnapshot | null> => {
+  try {
+    const candidates: { path: string; source: ContentSnapshot['source'] }[] = [
+      { path: CurriculumPaths.getCurriculumPath(), source: 'curriculum' },
+      { path: CurriculumPaths.getDatabasePath(), source: 'database' }
+    ];
+    const found = candidates.find(candidate => fs.existsSync(candidate.path));
+    if (!found) {
+      return null;
+    }
+
+    const stats = await fs.promises.stat(found.path);
+    if (cached && cached.path === found.path && cached.mtimeMs === stats.mtimeMs) {
+      return cached.snapshot;
+    }
+
+    const raw = await fs.promises.readFile(found.path, 'utf-8');
+    const data = JSON.parse(raw);
+    if (!Array.isArray(data)) {
+      throw new Error(`${found.path} must contain an array`);
+    }
+
+    const snapshot: ContentSnapshot = {
+      source: found.source,
+      chunks: found.source === 'curriculum' ? curriculumToChunks(data, stats.mtime.toISOString()) : data,
+      hash: crypto.createHash('sha1').update(raw).digest('hex')
+    };
+    cached = { path: found.path, mtimeMs: stats.mtimeMs, snapshot };
+    return snapshot;
+  } catch (error) {
+    console.error('Error loading content:', error);
+    throw error;
+  }
+};
+
+const matches = (value: string | undefined, allowed: string[]): boolean =>
+  allowed.length === 0 || (!!value && allowed.includes(value.toLowerCase()));
+
+// Narrow every chunk's parsed content; chunks left empty are dropped
+export const filterContent = (chunks: TestChunk[], filters: ContentFilters): TestChunk[] => {
+  const wants = (type: ContentItemType) => filters.types.length === 0 || filters.types.includes(type);
+
+  return chunks
+    .filter(chunk => chunk.parsedContent)
+    .map(chunk => {
+      const { theory = [], questions = [], tasks = [] } = chunk.parsedContent!;
+      const parsedContent: ParsedContent = {
+        theory: wants('theory')
+          ? theory.filter(item => matches(item.technology, filters.technologies) && matches(item.learningPath, filters.learningPaths))
+          : [],
+        questions: wants('question')
+          ? questions.filter(item => matches(getItemTechnology(item), filters.technologies) && matches(item.learningPath, filters.learningPaths))
+          : [],
+        tasks: wants('task')
+          ? tasks.filter(item => matches(getItemTechnology(item), filters.technologies) && matches(item.learningPath, filters.learningPaths))
+          : []
+      };
+      return { ...chunk, parsedContent };
+    })
+    .filter(chunk => chunk.parsedContent.theory.length + chunk.parsedContent.questions.length + chunk.parsedContent.tasks.length > 0);
+};
+
+// Strong validator for a filtered view of one file version
+export const contentEtag = (snapshot: ContentSnapshot, filters: ContentFilters): string => {
+  const key = JSON.stringify([snapshot.hash, filters.technologies, filters.learningPaths, filters.types]);
+  return `"${crypto.createHash('sha1').update(key).digest('hex')}"`;
+};
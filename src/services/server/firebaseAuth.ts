@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+// Public keys Firebase Auth signs ID tokens with
+const CERTS_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+
+// Tolerated clock difference between this server and Google's
+const CLOCK_SKEW_SECONDS = 300;
+
+const PROJECT_ID = process.env.FIREBASE_PROJECT_ID ||
+                   process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ||
+                   'frontendinterviewer';
+
+export interface AuthenticatedUser {
+  uid: string;
+  email?: string;
+}
+
+let certCache: { certs: Record<string, string>; expiresAt: number } | null = null;
+
+// Fetch signing certificates, honouring the Cache-Control max-age Google sends
+const getCerts = async (): Promise<Record<string, string>> => {
+  if (certCache && certCache.expiresAt > Date.now()) {
+    return certCache.certs;
+  }
+
+  const response = await fetch(CERTS_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Firebase signing certificates: ${response.status}`);
+  }
+
+  const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+  certCache = {
+    certs: await response.json(),
+    expiresAt: Date.now() + (maxAge ? Number(maxAge[1]) * 1000 : 60 * 60 * 1000)
+  };
+  return certCache.certs;
+};
+
+const decodeSegment = (segment: string): any =>
+  JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+// Verify a Firebase ID token as described in the Firebase Admin docs, without the Admin SDK
+export const verifyIdToken = async (token: string): Promise<AuthenticatedUser> => {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new Error('Malformed ID token');
+  }
+
+  const header = decodeSegment(segments[0]);
+  const payload = decodeSegment(segments[1]);
+
+  if (header.alg !== 'RS256') {
+    throw new Error('ID token has an unexpected algorithm');
+  }
+
+  const cert = (await getCerts())[header.kid];
+  if (!cert) {
+    throw new Error('ID token was signed with an unknown key');
+  }
+
+  const signatureValid = crypto
+    .createVerify('RSA-SHA256')
+    .update(`${segments[0]}.${segments[1]}`)
+    .verify(cert, Buffer.from(segments[2], 'base64url'));
+  if (!signatureValid) {
+    throw new Error('ID token signature is invalid');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('ID token has expired');
+  }
+  if (typeof payload.iat !== 'number' || payload.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new Error('ID token was issued in the future');
+  }
+  if (payload.aud !== PROJECT_ID || payload.iss !== `https://securetoken.google.com/${PROJECT_ID}`) {
+    throw new Error('ID token was issued for a different project');
+  }
+  if (typeof payload.sub !== 'string' || !payload.sub) {
+    throw new Error('ID token has no subject');
+  }
+
+  return { uid: payload.sub, email: payload.email };
+};
+
+// Resolve the signed-in user from the Authorization header, or answer 401
+export const requireUser = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<AuthenticatedUser | null> => {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match) {
+    res.status(401).json({ error: 'Missing Firebase ID token' });
+    return null;
+  }
+
+  try {
+    return await verifyIdToken(match[1]);
+  } catch (error: any) {
+    console.error('Error verifying ID token:', error);
+    res.status(401).json({ error: error.message || 'Invalid ID token' });
+    return null;
+  }
+};
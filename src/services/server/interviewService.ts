@@ -0,0 +1,210 @@
+import type {
+  InterviewFollowUp,
+  InterviewRecommendation,
+  InterviewScorecard,
+  InterviewTurn,
+  QuestionItem,
+  RubricScore
+} from '@/types';
+import { buildRepairPrompt, parseJsonText } from '../aiReviewParser';
+import { resolveProvider } from '../llm';
+import { REVIEWER_PROVIDERS } from './aiProviderService';
+
+// How many times the interviewer may be asked to fix an invalid JSON response
+const MAX_INTERVIEW_ATTEMPTS = 3;
+
+// Criteria every scorecard rates, in this order
+export const SCORECARD_CRITERIA = ['Technical accuracy', 'Depth of understanding', 'Communication'];
+
+const RECOMMENDATIONS: InterviewRecommendation[] = ['strong-hire', 'hire', 'lean-no-hire', 'no-hire'];
+
+const FOLLOW_UP_JSON_SCHEMA = `{
+  "covered": [string] (key concepts and analysis points the candidate has addressed),
+  "missing": [string] (the ones still missing or only touched on),
+  "followUp": string | null (one short follow-up question, or null to move on)
+}`;
+
+const SCORECARD_JSON_SCHEMA = `{
+  "overallScore": number (integer 0-100),
+  "recommendation": ${RECOMMENDATIONS.map(value => `"${value}"`).join(' | ')},
+  "summary": string,
+  "criteria": [{ "criterion": string, "score": number (0-100), "comment": string }],
+  "questions": [{ "questionId": string, "score": number (0-100), "comment": string }],
+  "strengths": [string],
+  "improvements": [string]
+}`;
+
+type Parsed<T> = { value: T | null; errors: string[] };
+
+const toScore = (value: unknown): number | null => {
+  const score = typeof value === 'string' ? Number(value) : value;
+  return typeof score === 'number' && !Number.isNaN(score) && score >= 0 && score <= 100 ? Math.round(score) : null;
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+const formatTranscript = (turns: InterviewTurn[]): string =>
+  turns.map(turn => `${turn.role === 'interviewer' ? 'Interviewer' : 'Candidate'}: ${turn.text}`).join('\n');
+
+const describeQuestion = (question: QuestionItem): string => `
+      QUESTION (${question.id}): ${question.question}
+      ${question.example ? `CODE:\n${question.example}` : ''}
+      REFERENCE ANSWER: ${question.answer}
+      KEY CONCEPTS: ${question.keyConcepts.join('; ') || 'none listed'}
+      ANALYSIS POINTS: ${question.analysisPoints.join('; ') || 'none listed'}
+    `;
+
+const parseFollowUp = (data: any): Parsed<InterviewFollowUp> => {
+  const errors: string[] = [];
+  if (!isStringArray(data?.covered)) errors.push('"covered" must be an array of strings');
+  if (!isStringArray(data?.missing)) errors.push('"missing" must be an array of strings');
+  if (data?.followUp !== null && (typeof data?.followUp !== 'string' || !data.followUp.trim())) {
+    errors.push('"followUp" must be a non-empty string or null');
+  }
+
+  return errors.length > 0
+    ? { value: null, errors }
+    : { value: { covered: data.covered, missing: data.missing, followUp: data.followUp?.trim() || null }, errors };
+};
+
+const parseScorecard = (data: any): Parsed<InterviewScorecard> => {
+  const errors: string[] = [];
+  const overallScore = toScore(data?.overallScore);
+  if (overallScore === null) errors.push('"overallScore" must be a number between 0 and 100');
+  if (!RECOMMENDATIONS.includes(data?.recommendation)) {
+    errors.push(`"recommendation" must be one of ${RECOMMENDATIONS.join(', ')}`);
+  }
+  if (typeof data?.summary !== 'string' || !data.summary.trim()) errors.push('"summary" must be a non-empty string');
+  if (!isStringArray(data?.strengths)) errors.push('"strengths" must be an array of strings');
+  if (!isStringArray(data?.improvements)) errors.push('"improvements" must be an array of strings');
+
+  const criteria: RubricScore[] = [];
+  (Array.isArray(data?.criteria) ? data.criteria : []).forEach((entry: any, index: number) => {
+    const score = toScore(entry?.score);
+    if (typeof entry?.criterion !== 'string' || score === null) {
+      errors.push(`"criteria[${index}]" must have a string "criterion" and a 0-100 "score"`);
+      return;
+    }
+    criteria.push({ criterion: entry.criterion, score, comment: String(entry.comment || '') });
+  });
+  if (criteria.length === 0) errors.push('"criteria" must rate every criterion');
+
+  const questions: InterviewScorecard['questions'] = [];
+  (Array.isArray(data?.questions) ? data.questions : []).forEach((entry: any, index: number) => {
+    const score = toScore(entry?.score);
+    if (typeof entry?.questionId !== 'string' || score === null) {
+      errors.push(`"questions[${index}]" must have a string "questionId" and a 0-100 "score"`);
+      return;
+    }
+    questions.push({ questionId: entry.questionId, score, comment: String(entry.comment || '') });
+  });
+
+  if (errors.length > 0) {
+    return { value: null, errors };
+  }
+
+  return {
+    value: {
+      overallScore: overallScore as number,
+      recommendation: data.recommendation,
+      summary: data.summary.trim(),
+      criteria,
+      questions,
+      strengths: data.strengths,
+      improvements: data.improvements
+    },
+    errors
+  };
+};
+
+// Ask the interviewer model for JSON, feeding validation errors back until it complies
+const requestInterviewJson = async <T>(
+  prompt: string,
+  aiModel: 'deepseek' | 'gemini' | 'both',
+  parse: (data: any) => Parsed<T>
+): Promise<T> => {
+  const provider = resolveProvider('review', aiModel === 'deepseek' ? REVIEWER_PROVIDERS.deepseek : REVIEWER_PROVIDERS.gemini);
+  let currentPrompt = prompt;
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_INTERVIEW_ATTEMPTS; attempt++) {
+    const response = await provider.generate(currentPrompt, { json: true });
+    let parsed: Parsed<T>;
+    try {
+      parsed = parse(parseJsonText(response));
+    } catch (error: any) {
+      parsed = { value: null, errors: [`Response is not valid JSON: ${error.message}`] };
+    }
+
+    if (parsed.value) {
+      return parsed.value;
+    }
+
+    console.warn(`Invalid interviewer JSON from ${provider.name} on attempt ${attempt}:`, parsed.errors);
+    lastErrors = parsed.errors;
+    currentPrompt = buildRepairPrompt(prompt, response, parsed.errors);
+  }
+
+  throw new Error(`AI interviewer returned an invalid response after ${MAX_INTERVIEW_ATTEMPTS} attempts: ${lastErrors.join('; ')}`);
+};
+
+// Decide whether to probe the candidate's answer further. Runs on the server only.
+export const requestFollowUp = async (
+  question: QuestionItem,
+  turns: InterviewTurn[],
+  aiModel: 'deepseek' | 'gemini' | 'both' = 'gemini'
+): Promise<InterviewFollowUp> => {
+  try {
+    const prompt = `
+      You are a senior frontend engineer running a technical interview.
+      ${describeQuestion(question)}
+      CONVERSATION ON THIS QUESTION SO FAR:
+      ${formatTranscript(turns)}
+
+      Compare the candidate's answers with the key concepts and analysis points.
+      If something important is missing or only touched on, ask ONE short follow-up
+      question that probes it, the way an interviewer would. Don't reveal the answer
+      and don't repeat an earlier question. If the candidate has covered the
+      important points, set "followUp" to null.
+
+      Respond with ONLY a JSON object that matches this schema exactly:
+      ${FOLLOW_UP_JSON_SCHEMA}
+    `;
+    return await requestInterviewJson(prompt, aiModel, parseFollowUp);
+  } catch (error) {
+    console.error('Error requesting interview follow-up:', error);
+    throw error;
+  }
+};
+
+// Score the whole interview. Runs on the server only.
+export const requestScorecard = async (
+  questions: QuestionItem[],
+  transcript: InterviewTurn[],
+  aiModel: 'deepseek' | 'gemini' | 'both' = 'gemini'
+): Promise<InterviewScorecard> => {
+  try {
+    const sections = questions.map(question => `
+      ${describeQuestion(question)}
+      TRANSCRIPT:
+      ${formatTranscript(transcript.filter(turn => turn.questionId === question.id)) || '(not reached)'}
+    `).join('\n');
+
+    const prompt = `
+      You are a senior frontend engineer writing the scorecard for a technical interview.
+      ${sections}
+
+      Judge the candidate's answers against the reference answers, key concepts and
+      analysis points, including how they handled follow-ups. Rate each of these
+      criteria: ${SCORECARD_CRITERIA.join(', ')}. Score every question by its id.
+
+      Respond with ONLY a JSON object that matches this schema exactly:
+      ${SCORECARD_JSON_SCHEMA}
+    `;
+    return await requestInterviewJson(prompt, aiModel, parseScorecard);
+  } catch (error) {
+    console.error('Error requesting interview scorecard:', error);
+    throw error;
+  }
+};
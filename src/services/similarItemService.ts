@@ -0,0 +1,70 @@
+import type { GeneratedItem, Module, QuestionItem, TaskItem } from '@/types';
+import { generateSimilarItem } from './aiService';
+import { checkGeneratedQuestion, checkGeneratedTask, QualityReport } from './generatedItemQuality';
+import { saveGeneratedItem } from './firestoreService';
+
+type AIModel = 'deepseek' | 'gemini' | 'both';
+
+// Generations tried before giving up on a source item
+export const MAX_GENERATION_ATTEMPTS = 3;
+
+export const isQuestionItem = (item: QuestionItem | TaskItem): item is QuestionItem => 'question' in item;
+
+export const getItemTitle = (item: QuestionItem | TaskItem): string => isQuestionItem(item) ? item.question : item.title;
+
+// Only items that passed the quality gate reach the learner
+export const isVisibleGeneratedItem = (generated: GeneratedItem): boolean => generated.status !== 'rejected';
+
+// Ask the AI for a variant of a curriculum item and put it through the quality
+// gate, retrying rejected variants and failed generations. The accepted item is kept in
+// users/{uid}/generated with a link back to the source; when every attempt is
+// rejected the last one is saved flagged for review and an error is thrown
+export const generateAndSaveSimilarItem = async (
+  uid: string,
+  source: QuestionItem | TaskItem,
+  aiModel: AIModel,
+  modules: Module[]
+): Promise<GeneratedItem> => {
+  try {
+    const itemType = isQuestionItem(source) ? 'question' : 'task';
+    let report: QualityReport<QuestionItem | TaskItem> | null = null;
+    let attempts = 0;
+
+    while (attempts < MAX_GENERATION_ATTEMPTS && !report?.passed) {
+      attempts++;
+      let raw: any;
+      try {
+        raw = await generateSimilarItem(itemType, source, aiModel);
+      } catch (error: any) {
+        // A provider error or unparseable response counts as a rejected attempt
+        console.error(`Generation attempt ${attempts} failed:`, error);
+        report = { item: null, passed: false, issues: [`Generation failed: ${error.message || error}`], duplicateScore: 0 };
+        continue;
+      }
+      report = isQuestionItem(source)
+        ? checkGeneratedQuestion(raw, source, modules)
+        : await checkGeneratedTask(raw, source, modules);
+    }
+
+    const { item, passed, ...quality } = report!;
+    if (item) {
+      const generated = await saveGeneratedItem(uid, {
+        itemType,
+        item,
+        sourceItemId: source.id,
+        sourceTitle: getItemTitle(source),
+        model: aiModel,
+        status: passed ? 'accepted' : 'rejected',
+        quality: { ...quality, attempts }
+      });
+      if (passed) {
+        return generated;
+      }
+    }
+
+    throw new Error(`No generated ${itemType} passed the quality checks after ${attempts} attempts: ${quality.issues.join('; ')}`);
+  } catch (error) {
+    console.error('Error generating similar item:', error);
+    throw error;
+  }
+};
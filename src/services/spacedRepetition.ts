@@ -0,0 +1,70 @@
+import type { ReviewQuality, ReviewSchedule } from '@/types';
+
+// SM-2 defaults
+export const INITIAL_EASE = 2.5;
+export const MIN_EASE = 1.3;
+
+// Qualities below this count as a lapse and restart the interval
+export const PASSING_QUALITY = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Map a graded attempt onto SM-2 quality. The score (0-100) comes from tests,
+// the rubric or an AI review when one is available.
+export const qualityFromResult = (correct: boolean, score?: number): ReviewQuality => {
+  if (!correct) {
+    return score !== undefined && score < 35 ? 1 : 2;
+  }
+  if (score === undefined) {
+    return 4;
+  }
+  return score >= 90 ? 5 : score >= 75 ? 4 : 3;
+};
+
+// Next schedule after a review, following SM-2
+export const scheduleReview = (
+  previous: ReviewSchedule | null,
+  quality: ReviewQuality,
+  now: Date = new Date()
+): ReviewSchedule => {
+  const ease = previous?.ease ?? INITIAL_EASE;
+  const repetitions = previous?.repetitions ?? 0;
+  const lapses = previous?.lapses ?? 0;
+
+  const nextEase = Math.max(MIN_EASE, ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  let nextRepetitions: number;
+  let intervalDays: number;
+
+  if (quality < PASSING_QUALITY) {
+    // A lapse brings the item back tomorrow
+    nextRepetitions = 0;
+    intervalDays = 1;
+  } else {
+    nextRepetitions = repetitions + 1;
+    intervalDays = nextRepetitions === 1 ? 1 :
+                   nextRepetitions === 2 ? 6 :
+                   Math.round((previous?.intervalDays ?? 1) * nextEase);
+  }
+
+  return {
+    ease: Math.round(nextEase * 100) / 100,
+    intervalDays,
+    repetitions: nextRepetitions,
+    lapses: quality < PASSING_QUALITY && previous ? lapses + 1 : lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+    lastQuality: quality
+  };
+};
+
+// Items due before the end of the given day are part of "Due today"
+export const endOfDay = (date: Date = new Date()): Date => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+export const isDue = (schedule: ReviewSchedule, now: Date = new Date()): boolean => {
+  return new Date(schedule.dueAt).getTime() <= endOfDay(now).getTime();
+};
@@ -0,0 +1,122 @@
+import { transform } from 'sucrase';
+import type { TestCase, TestCaseResult, TestRunSummary } from '@/types';
+import { TEST_WORKER_SOURCE } from './sandbox/testWorkerSource';
+
+// Default time budget for a single test case before the worker is terminated
+const DEFAULT_TIMEOUT_MS = 3000;
+
+let workerUrl: string | null = null;
+
+const getWorkerUrl = (): string => {
+  if (!workerUrl) {
+    const blob = new Blob([TEST_WORKER_SOURCE], { type: 'application/javascript' });
+    workerUrl = URL.createObjectURL(blob);
+  }
+  return workerUrl;
+};
+
+// Human readable label for a test case
+export const describeTestCase = (testCase: TestCase): string => {
+  if (typeof testCase === 'string') {
+    return testCase;
+  }
+  return testCase.description || `${testCase.input} (${testCase.comparator}) ${testCase.expected || ''}`.trim();
+};
+
+// Check whether the current environment can run the sandbox
+export const isSandboxAvailable = (): boolean => {
+  return typeof window !== 'undefined' && typeof Worker !== 'undefined';
+};
+
+// Count passed and executed results; skipped cases don't affect the verdict
+export const summarizeTestResults = (results: TestCaseResult[]): TestRunSummary => {
+  const executed = results.filter(result => result.status !== 'skipped');
+  const passed = executed.filter(result => result.status === 'pass').length;
+
+  return {
+    results,
+    passed,
+    executed: executed.length,
+    allPassed: executed.length > 0 && passed === executed.length
+  };
+};
+
+// Run a single test case in a fresh worker so state never leaks between cases
+export const runTestCase = (
+  code: string,
+  testCase: TestCase,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<TestCaseResult> => {
+  const label = describeTestCase(testCase);
+  
+  return new Promise((resolve) => {
+    const worker = new Worker(getWorkerUrl());
+    const startedAt = Date.now();
+
+    const timer = setTimeout(() => {
+      worker.terminate();
+      resolve({
+        testCase: label,
+        status: 'timeout',
+        message: `Exceeded the ${timeoutMs}ms time limit`,
+        logs: [],
+        durationMs: Date.now() - startedAt
+      });
+    }, timeoutMs);
+
+    worker.onmessage = (event: MessageEvent) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve({ testCase: label, ...event.data });
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      clearTimeout(timer);
+      worker.terminate();
+      resolve({
+        testCase: label,
+        status: 'error',
+        message: event.message,
+        logs: [],
+        durationMs: Date.now() - startedAt
+      });
+    };
+
+    worker.postMessage({ code, testCase });
+  });
+};
+
+// Strip TypeScript syntax so typed submissions run in the worker. Code sucrase
+// can't parse is passed through and the worker reports it as not compiling
+export const stripTypes = (code: string): string => {
+  try {
+    return transform(code, { transforms: ['typescript'] }).code;
+  } catch {
+    return code;
+  }
+};
+
+// Run every test case of a task and summarize the outcome
+export const runTestCases = async (
+  code: string,
+  testCases: TestCase[],
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<TestRunSummary> => {
+  try {
+    if (!isSandboxAvailable()) {
+      throw new Error('Test sandbox is only available in the browser');
+    }
+
+    const script = stripTypes(code);
+    const results: TestCaseResult[] = [];
+    for (const testCase of testCases) {
+      results.push(await runTestCase(script, testCase, timeoutMs));
+    }
+
+    return summarizeTestResults(results);
+  } catch (error) {
+    console.error('Error running test cases:', error);
+    throw error;
+  }
+};
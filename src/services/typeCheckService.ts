@@ -0,0 +1,17 @@
+import type { TaskItem, TypeCheckResult } from '@/types';
+import { postJsonWithIdToken } from './apiClient';
+
+// Tasks that go through the TypeScript type-check stage
+export const requiresTypeCheck = (task: TaskItem): boolean => {
+  return !!task.requireStrictCompile || task.tags.includes('TypeScript');
+};
+
+// Type-check a submission on the server with the TypeScript compiler
+export const checkTypes = async (code: string, strict: boolean = true): Promise<TypeCheckResult> => {
+  try {
+    return await postJsonWithIdToken<TypeCheckResult>('/api/tasks/type-check', { code, strict });
+  } catch (error) {
+    console.error('Error type-checking code:', error);
+    throw error;
+  }
+};
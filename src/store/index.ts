@@ -10,6 +10,7 @@ import type {
   ProgressState,
   Module
 } from '@/types';
+import { getItemTechnology } from '@/services/dataService';
 
 // User store for authentication and settings
 
@@ -48,7 +49,7 @@ export const useDataStore = create<DataState>((set, get) => ({
   learningPaths: [],
   loadData: async () => {
     try {
-      // Load data from database.json file in the root directory
+      // Curriculum content as chunks, see pages/api/database
       const response = await fetch('/api/database');
       const data = await response.json();
       
@@ -101,7 +102,7 @@ export const useDataStore = create<DataState>((set, get) => ({
             
             // Process questions
             questions.forEach((item: QuestionItem) => {
-              const tech = item.topic.split(' ')[0] as Technology;
+              const tech = getItemTechnology(item);
               const key = `${tech}_${item.learningPath}`;
               technologies.add(tech);
               learningPaths.add(item.learningPath);
@@ -129,9 +130,7 @@ export const useDataStore = create<DataState>((set, get) => ({
             
             // Process tasks
             tasks.forEach((item: TaskItem) => {
-              const techTag = item.tags.find(tag => 
-                ['React', 'Next.js', 'TypeScript', 'JavaScript', 'MUI', 'Testing', 'Performance', 'CSS', 'HTML'].includes(tag)
-              ) as Technology || 'JavaScript';
+              const techTag = getItemTechnology(item);
               
               const key = `${techTag}_${item.learningPath}`;
               technologies.add(techTag);
@@ -1,8 +1,8 @@
 // Import types from root index.ts
-import type { TheoryItem, QuestionItem, TaskItem, Technology, Difficulty, QuestionType, CodeExample } from '../../index';
+import type { TheoryItem, QuestionItem, TaskItem, Technology, Difficulty, QuestionType, CodeExample, TestCase, StructuredTestCase, TestComparator, ComponentTestScenario, ComponentTestStep, ElementQuery } from '../../index';
 
 // Re-export types
-export type { TheoryItem, QuestionItem, TaskItem, Technology, Difficulty, QuestionType, CodeExample };
+export type { TheoryItem, QuestionItem, TaskItem, Technology, Difficulty, QuestionType, CodeExample, TestCase, StructuredTestCase, TestComparator, ComponentTestScenario, ComponentTestStep, ElementQuery };
 
 // Define Module interface
 export interface Module {
@@ -23,6 +23,7 @@ export interface Module {
 export interface UserSettings {
   username: string;
   aiReviewer: 'deepseek' | 'gemini' | 'both';
+  reviewPolicy?: ReviewPolicy; // How "both" reviews are reconciled, defaults to 'all-pass'
   createdAt?: string;
   updatedAt?: string;
 }
@@ -32,6 +33,91 @@ export interface UserProgress {
   incorrectItems: Record<string, boolean>;
 }
 
+// SM-2 recall quality: 0-2 is a lapse, 3 hard, 4 good, 5 easy
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+// Spaced-repetition state kept on users/{uid}/progress/{itemId}
+export interface ReviewSchedule {
+  ease: number;
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt: string;
+  lastQuality: ReviewQuality;
+}
+
+export interface DueReviewItem {
+  itemId: string;
+  itemType: 'question' | 'task';
+  schedule: ReviewSchedule;
+}
+
+export type MasteryDimension = 'tag' | 'concept' | 'technology' | 'learningPath';
+
+// Bayesian knowledge tracing estimate for one skill, stored in users/{uid}/mastery
+export interface MasteryEstimate {
+  key: string; // `${dimension}:${normalized label}`
+  dimension: MasteryDimension;
+  label: string;
+  pKnown: number; // Probability the skill is known, 0-1
+  attempts: number;
+  correct: number;
+  updatedAt: string;
+}
+
+// A curriculum item the learner got wrong, joined with the attempt that went wrong
+export interface IncorrectItem {
+  itemType: 'question' | 'task';
+  item: QuestionItem | TaskItem;
+  technology: Technology;
+  moduleTitle: string;
+  lastWrongAnswer?: UserSubmission; // MCQs only record a result, not a submission
+  failedAt: string; // '' when the failure has no date
+  attempts: number;
+}
+
+export interface IncorrectItemFilters {
+  technology: Technology | 'all';
+  sinceDays: number | null; // Only items failed within the last N days
+}
+
+// Per-item history sent to /api/curriculum/adapt
+export interface LearningHistoryEntry {
+  itemId: string;
+  attempts: number;
+  failures: number;
+  lastResult: 'pass' | 'fail' | null;
+  irrelevant?: boolean;
+}
+
+export type AdaptationReason = 'weak-prerequisite' | 'in-order' | 'mastered-refresher';
+
+export interface AdaptedCurriculumItem {
+  id: string;
+  index: number; // Position in curriculum.json
+  title: string;
+  type: string;
+  moduleId: string;
+  complexity: number;
+  reason: AdaptationReason;
+  failedItemIds?: string[]; // Failed questions/tasks that depend on this item
+}
+
+export interface CompressedCluster {
+  moduleId: string;
+  keptItemId: string; // Refresher kept in the ordering
+  itemIds: string[]; // Mastered items left out
+}
+
+// Personalized ordering of curriculum.json
+export interface AdaptedCurriculum {
+  items: AdaptedCurriculumItem[];
+  weakItemIds: string[];
+  compressedClusters: CompressedCluster[];
+  generatedAt: string;
+}
+
 export interface UserSubmission {
   id: string;
   itemId: string;
@@ -40,39 +126,348 @@ export interface UserSubmission {
   result: 'pass' | 'fail';
   feedback: string;
   timestamp: string;
+  opinions?: ReviewerOpinion[]; // Each AI reviewer's verdict, when reviewed by more than one
+  reviewPolicy?: ReviewPolicy;
 }
 
+// Lifecycle of a mock exam, see services/examEngine
+export type ExamStatus = 'configured' | 'in-progress' | 'paused' | 'submitted' | 'graded';
+
+export type ExamEvent = 'start' | 'pause' | 'resume' | 'submit' | 'grade';
+
+// Written onto each exam item by the grading pipeline after submission
+export interface ExamItemGrade {
+  correct?: boolean;
+  score?: number; // 0-100
+  points?: number;
+  maxPoints?: number;
+  feedback?: string;
+  ungraded?: boolean; // The AI reviewer it depended on was unavailable
+}
+
+export type ExamQuestion = QuestionItem & ExamItemGrade & { userAnswer?: string };
+
+export type ExamTask = TaskItem & ExamItemGrade & { userCode?: string };
+
 export interface MockExam {
   id: string;
   title: string;
   technology: string;
   duration: number; // in minutes
-  questions: QuestionItem[];
-  tasks: TaskItem[];
+  questions: ExamQuestion[];
+  tasks: ExamTask[];
   userId: string;
+  status: ExamStatus;
+  answers: Record<string, string>; // Item id -> selected option, written answer or code
+  markedForReview: string[];
+  elapsedMs: number; // Time spent in progress, excluding pauses
+  itemTimeMs: Record<string, number>; // Item id -> time spent on it
+  integritySignals: IntegritySignal[]; // In the order they happened
+  strictMode?: boolean; // Paste into answers is blocked
   startedAt?: string;
   completedAt?: string;
+  updatedAt?: string;
   currentItemIndex?: number;
+  adaptive?: AdaptiveExamState; // Only on adaptive exams
+  proficiency?: ProficiencyEstimate[]; // Set when an adaptive exam is graded
+  gradingClaimedAt?: string; // Set by the window grading a submitted exam
   completed: boolean;
   score: number;
   totalPoints: number;
 }
 
+export type ExamDifficulty = Difficulty | 'mixed';
+
+// Options chosen when setting up a mock exam
+export interface MockExamConfig {
+  topics: string[]; // Technologies to draw from, empty for all
+  mcqCount: number;
+  openEndedCount: number;
+  codingCount: number;
+  timeLimit: number; // in minutes
+  difficulty: ExamDifficulty; // Ignored by adaptive exams
+  adaptive: boolean;
+  strictMode: boolean;
+}
+
+// AI-generated practice item stored in users/{uid}/generated, with where it came from
+export interface GeneratedItem {
+  id: string;
+  itemType: 'question' | 'task';
+  item: QuestionItem | TaskItem;
+  sourceItemId: string; // Curriculum item it was generated from
+  sourceTitle: string;
+  model: 'deepseek' | 'gemini' | 'both';
+  status: GeneratedItemStatus; // Rejected items are kept for review, never shown
+  quality: GeneratedItemQuality;
+  createdAt: string;
+}
+
+export type GeneratedItemStatus = 'accepted' | 'rejected';
+
+// Outcome of the quality gate a generated item went through
+export interface GeneratedItemQuality {
+  issues: string[];
+  duplicateScore: number; // 0-1 similarity to the closest curriculum item
+  duplicateOf?: string; // Title of that item
+  testsPassed?: number;
+  testsExecuted?: number;
+  attempts: number; // Generations it took, including this one
+}
+
+// Proctoring-lite timeline recorded while an exam runs
+export type IntegritySignalType = 'tab-hidden' | 'tab-returned' | 'paste' | 'paste-blocked' | 'idle';
+
+export interface IntegritySignal {
+  type: IntegritySignalType;
+  at: string;
+  elapsedMs: number; // Exam clock when it happened
+  itemId?: string;
+  durationMs?: number; // Time away from the tab or idle
+  chars?: number; // Pasted length
+}
+
+// Adaptive exams serve one item at a time from a candidate pool, see services/adaptiveExam
+export interface AdaptiveResponse {
+  itemId: string;
+  complexity: number;
+  score: number; // 0-1 quick score used to pick the next item
+}
+
+export interface AdaptiveExamState {
+  pool: { questionIds: string[]; taskIds: string[] }; // Candidates not served yet, resolved from the curriculum
+  remaining: { mcq: number; open: number; coding: number }; // Items still to serve per kind
+  ability: number; // Running estimate on the 1-10 complexity scale
+  responses: AdaptiveResponse[];
+}
+
+export type ProficiencyLevel = 'beginner' | 'junior' | 'middle' | 'senior';
+
+export interface ProficiencyEstimate {
+  technology: string;
+  ability: number; // 1-10, comparable to item complexity
+  level: ProficiencyLevel;
+  items: number;
+}
+
+// Interview simulations live in users/{uid}/exams next to mock exams, told apart by kind
+export type InterviewStatus = 'in-progress' | 'scoring' | 'completed';
+
+export interface InterviewTurn {
+  role: 'interviewer' | 'candidate';
+  text: string;
+  questionId: string; // Curriculum question the turn belongs to
+  followUp?: boolean; // Interviewer probes after the main question
+  at: string;
+}
+
+export type InterviewRecommendation = 'strong-hire' | 'hire' | 'lean-no-hire' | 'no-hire';
+
+export interface InterviewScorecard {
+  overallScore: number; // 0-100
+  recommendation: InterviewRecommendation;
+  summary: string;
+  criteria: RubricScore[];
+  questions: { questionId: string; score: number; comment: string }[];
+  strengths: string[];
+  improvements: string[];
+}
+
+export interface InterviewSession {
+  id: string;
+  kind: 'interview';
+  title: string;
+  technology: string;
+  userId: string;
+  questions: QuestionItem[]; // Asked in order
+  maxFollowUps: number; // Per question
+  currentQuestionIndex: number;
+  transcript: InterviewTurn[];
+  status: InterviewStatus;
+  scorecard?: InterviewScorecard;
+  startedAt?: string;
+  completedAt?: string;
+  updatedAt?: string;
+}
+
+export interface InterviewConfig {
+  topics: string[];
+  questionCount: number;
+  maxFollowUps: number;
+  difficulty: ExamDifficulty;
+}
+
+// Interviewer decision after a candidate answer
+export interface InterviewFollowUp {
+  covered: string[];
+  missing: string[];
+  followUp: string | null; // null moves on to the next question
+}
+
+// Exam analytics, see services/examAnalytics
+export interface ExamBreakdownRow {
+  label: string;
+  points: number;
+  maxPoints: number;
+  correct: number;
+  total: number;
+  percentage: number;
+}
+
+export interface ExamItemTime {
+  itemId: string;
+  label: string; // Q1, Q2... for questions, T1... for tasks
+  title: string;
+  timeMs: number;
+  correct: boolean;
+}
+
+export interface ExamTrendPoint {
+  examId: string;
+  title: string;
+  completedAt: string;
+  percentage: number;
+}
+
+export type TestCaseStatus = 'pass' | 'fail' | 'error' | 'timeout' | 'skipped';
+
+export interface TestCaseResult {
+  testCase: string;
+  status: TestCaseStatus;
+  message?: string;
+  logs: string[];
+  durationMs: number;
+}
+
+export interface TestRunSummary {
+  results: TestCaseResult[];
+  passed: number;
+  executed: number; // Test cases that were runnable code (not skipped)
+  allPassed: boolean;
+}
+
+export interface TypeDiagnostic {
+  message: string;
+  code: number;
+  category: 'error' | 'warning' | 'info';
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface TypeCheckResult {
+  success: boolean;
+  strict: boolean;
+  diagnostics: TypeDiagnostic[];
+}
+
+// Output of running a code-trace snippet in the sandbox
+export interface CodeTraceRun {
+  output: string[]; // Console lines and uncaught errors in order, or the final value
+  source: 'console' | 'value' | 'none'; // 'none' only when the run failed
+  truncated: boolean; // Timers were still pending when the settle window ended
+  error?: string; // Set when the snippet could not be run at all
+  durationMs: number;
+}
+
+export interface TraceLineResult {
+  line: number;
+  expected: string | null;
+  predicted: string | null;
+  status: 'match' | 'mismatch' | 'missing' | 'extra';
+}
+
+export interface CodeTraceGrade {
+  lines: TraceLineResult[];
+  matched: number;
+  total: number;
+  score: number;
+  isCorrect: boolean;
+}
+
 export interface AIReviewRequest {
   itemId: string;
   type: 'task' | 'question';
   prompt: string;
   userCode: string;
-  testCases?: string[];
+  testCases?: TestCase[];
+  referenceAnswer?: string; // Answer key for questions
+  rubric?: RubricItemResult[]; // Local rubric results the reviewer should confirm or correct
+}
+
+export interface RubricItemResult {
+  criterion: string;
+  kind: 'concept' | 'criterion' | 'answer';
+  weight: number;
+  coverage: number; // 0-1 share of the criterion's terms found in the answer
+  status: 'met' | 'partial' | 'missed' | 'unchecked'; // 'unchecked' has no terms to match locally
+  matchedTerms: string[];
+  missingTerms: string[];
+}
+
+export interface RubricGrade {
+  score: number; // 0-100 partial credit over the checkable items
+  verdict: 'pass' | 'fail' | 'borderline';
+  items: RubricItemResult[];
+}
+
+export interface RubricScore {
+  criterion: string;
+  score: number; // 0-100
+  comment: string;
+}
+
+export interface TestCaseVerdict {
+  testCase: string;
+  verdict: 'pass' | 'fail' | 'unknown';
+  reason: string;
 }
 
 export interface AIReviewResponse {
   isCorrect: boolean;
   feedback: string;
-  score?: number;
+  score?: number; // 0-100
   suggestions?: string[];
+  verdict?: 'pass' | 'fail';
+  summary?: string;
+  rubric?: RubricScore[];
+  testCaseVerdicts?: TestCaseVerdict[];
+  opinions?: ReviewerOpinion[];
+  disagreements?: ReviewDisagreement[];
+  policy?: ReviewPolicy;
 }
 
+// How verdicts from several reviewers become one:
+// 'all-pass' - every reviewer must pass the submission
+// 'majority' - more than half must pass; ties are broken by the weighted score
+// 'weighted' - weighted average score must reach the pass mark
+export type ReviewPolicy = 'all-pass' | 'majority' | 'weighted';
+
+export interface ReviewerOpinion {
+  reviewer: string; // Reviewer slot, e.g. 'deepseek' or 'gemini'
+  label: string; // Provider and model that produced the review
+  verdict: 'pass' | 'fail';
+  score: number;
+  summary: string;
+  rubric: RubricScore[];
+  testCaseVerdicts: TestCaseVerdict[];
+  suggestions: string[];
+}
+
+export interface ReviewDisagreement {
+  subject: string; // 'verdict' or the test case description
+  verdicts: Record<string, 'pass' | 'fail' | 'unknown'>; // Keyed by reviewer slot
+}
+
+// Newline-delimited events sent by /api/ai/review-stream
+export type ReviewStreamEvent =
+  | { type: 'start'; reviewers: { id: string; label: string }[] }
+  | { type: 'delta'; reviewer: string; text: string }
+  | { type: 'retry'; reviewer: string; attempt: number }
+  | { type: 'result'; review: AIReviewResponse }
+  | { type: 'error'; error: string };
+
 export interface FirebaseConfig {
   apiKey: string;
   authDomain: string;